@@ -15,13 +15,14 @@ async function checkDatabase() {
     // 1. Check users with Plaid connections
     const usersWithPlaid = await prisma.user.findMany({
       where: {
-        plaidItemId: { not: null }
+        plaidItems: { some: {} }
       },
       select: {
         id: true,
         email: true,
-        plaidItemId: true,
-        plaidInstitutionName: true,
+        plaidItems: {
+          select: { plaidItemId: true, institutionName: true, syncStatus: true }
+        },
         syncStatus: true,
         lastSyncAt: true,
         _count: {
@@ -38,8 +39,9 @@ async function checkDatabase() {
     for (const user of usersWithPlaid) {
       console.log(`📧 ${user.email}`);
       console.log(`   ID: ${user.id}`);
-      console.log(`   Plaid Item: ${user.plaidItemId}`);
-      console.log(`   Institution: ${user.plaidInstitutionName || 'Not set'}`);
+      for (const item of user.plaidItems) {
+        console.log(`   Plaid Item: ${item.plaidItemId} - ${item.institutionName || 'Not set'} (${item.syncStatus})`);
+      }
       console.log(`   Sync Status: ${user.syncStatus}`);
       console.log(`   Last Sync: ${user.lastSyncAt ? user.lastSyncAt.toISOString() : 'Never'}`);
       console.log(`   Accounts: ${user._count.accounts}`);
@@ -76,7 +78,7 @@ async function checkDatabase() {
     // 4. Check for any user with your specific plaid item ID
     const yourUser = await prisma.user.findFirst({
       where: {
-        plaidItemId: "pqj9xga9neIzBa4v8Bn6SqakL6E4RpiLE9b5P" // Your item ID from debug
+        plaidItems: { some: { plaidItemId: "pqj9xga9neIzBa4v8Bn6SqakL6E4RpiLE9b5P" } } // Your item ID from debug
       },
       include: {
         accounts: true,
@@ -127,10 +127,6 @@ exports.Prisma.UserScalarFieldEnum = {
   passwordHash: 'passwordHash',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  plaidAccessToken: 'plaidAccessToken',
-  plaidItemId: 'plaidItemId',
-  plaidInstitutionId: 'plaidInstitutionId',
-  plaidInstitutionName: 'plaidInstitutionName',
   lastSyncAt: 'lastSyncAt',
   syncStatus: 'syncStatus'
 };
@@ -146,10 +142,81 @@ exports.Prisma.UserCategoryRuleScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.PlaidItemScalarFieldEnum = {
+  id: 'id',
+  plaidItemId: 'plaidItemId',
+  userId: 'userId',
+  encryptedAccessToken: 'encryptedAccessToken',
+  institutionId: 'institutionId',
+  institutionName: 'institutionName',
+  cursor: 'cursor',
+  lastSyncAt: 'lastSyncAt',
+  syncStatus: 'syncStatus',
+  errorCode: 'errorCode',
+  consentExpiresAt: 'consentExpiresAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.SyncJobScalarFieldEnum = {
+  id: 'id',
+  itemId: 'itemId',
+  status: 'status',
+  trigger: 'trigger',
+  fullResync: 'fullResync',
+  backfillId: 'backfillId',
+  attempts: 'attempts',
+  maxAttempts: 'maxAttempts',
+  nextRunAt: 'nextRunAt',
+  lastError: 'lastError',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.BackfillScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  itemId: 'itemId',
+  status: 'status',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  windowEnd: 'windowEnd',
+  windowsTotal: 'windowsTotal',
+  windowsCompleted: 'windowsCompleted',
+  transactionsAdded: 'transactionsAdded',
+  lastError: 'lastError',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.SyncRunScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  itemId: 'itemId',
+  institutionName: 'institutionName',
+  trigger: 'trigger',
+  success: 'success',
+  startedAt: 'startedAt',
+  finishedAt: 'finishedAt',
+  newTransactions: 'newTransactions',
+  updatedTransactions: 'updatedTransactions',
+  removedTransactions: 'removedTransactions',
+  newAccounts: 'newAccounts',
+  categoryDistribution: 'categoryDistribution',
+  errorCode: 'errorCode',
+  errorMessage: 'errorMessage'
+};
+
 exports.Prisma.AccountScalarFieldEnum = {
   id: 'id',
   plaidAccountId: 'plaidAccountId',
+  source: 'source',
   userId: 'userId',
+  itemId: 'itemId',
   name: 'name',
   officialName: 'officialName',
   type: 'type',
@@ -159,25 +226,45 @@ exports.Prisma.AccountScalarFieldEnum = {
   availableBalance: 'availableBalance',
   creditLimit: 'creditLimit',
   isActive: 'isActive',
+  closedAt: 'closedAt',
   lastUpdatedAt: 'lastUpdatedAt',
   createdAt: 'createdAt'
 };
 
+exports.Prisma.BalanceSnapshotScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  accountId: 'accountId',
+  date: 'date',
+  currentBalance: 'currentBalance',
+  availableBalance: 'availableBalance',
+  source: 'source',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.TransactionScalarFieldEnum = {
   id: 'id',
   plaidTransactionId: 'plaidTransactionId',
+  source: 'source',
   userId: 'userId',
   accountId: 'accountId',
   name: 'name',
   merchantName: 'merchantName',
+  merchantId: 'merchantId',
   amount: 'amount',
   date: 'date',
   authorizedDate: 'authorizedDate',
   primaryCategory: 'primaryCategory',
   detailedCategory: 'detailedCategory',
   categories: 'categories',
+  categoryOverridden: 'categoryOverridden',
   notes: 'notes',
   pending: 'pending',
+  pendingTransactionId: 'pendingTransactionId',
+  importId: 'importId',
+  transferGroupId: 'transferGroupId',
+  transferOverridden: 'transferOverridden',
   city: 'city',
   region: 'region',
   country: 'country',
@@ -185,6 +272,132 @@ exports.Prisma.TransactionScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.TransactionSplitScalarFieldEnum = {
+  id: 'id',
+  transactionId: 'transactionId',
+  amount: 'amount',
+  category: 'category',
+  note: 'note',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TagScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  color: 'color',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TransactionTagScalarFieldEnum = {
+  transactionId: 'transactionId',
+  tagId: 'tagId',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.MerchantScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  defaultCategory: 'defaultCategory',
+  website: 'website',
+  logoUrl: 'logoUrl',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MerchantAliasScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  merchantId: 'merchantId',
+  pattern: 'pattern',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.AttachmentScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  transactionId: 'transactionId',
+  fileName: 'fileName',
+  contentType: 'contentType',
+  size: 'size',
+  storageKey: 'storageKey',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.SecurityScalarFieldEnum = {
+  id: 'id',
+  plaidSecurityId: 'plaidSecurityId',
+  name: 'name',
+  tickerSymbol: 'tickerSymbol',
+  type: 'type',
+  isCashEquivalent: 'isCashEquivalent',
+  closePrice: 'closePrice',
+  closePriceAsOf: 'closePriceAsOf',
+  isoCurrencyCode: 'isoCurrencyCode',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.HoldingScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  accountId: 'accountId',
+  securityId: 'securityId',
+  quantity: 'quantity',
+  institutionPrice: 'institutionPrice',
+  institutionPriceAsOf: 'institutionPriceAsOf',
+  institutionValue: 'institutionValue',
+  costBasis: 'costBasis',
+  isoCurrencyCode: 'isoCurrencyCode',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.InvestmentTransactionScalarFieldEnum = {
+  id: 'id',
+  plaidInvestmentTransactionId: 'plaidInvestmentTransactionId',
+  userId: 'userId',
+  accountId: 'accountId',
+  securityId: 'securityId',
+  name: 'name',
+  type: 'type',
+  subtype: 'subtype',
+  amount: 'amount',
+  quantity: 'quantity',
+  price: 'price',
+  fees: 'fees',
+  date: 'date',
+  isoCurrencyCode: 'isoCurrencyCode',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.LiabilityScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  accountId: 'accountId',
+  type: 'type',
+  aprs: 'aprs',
+  purchaseApr: 'purchaseApr',
+  interestRatePercentage: 'interestRatePercentage',
+  interestRateType: 'interestRateType',
+  lastStatementBalance: 'lastStatementBalance',
+  lastStatementIssueDate: 'lastStatementIssueDate',
+  lastPaymentAmount: 'lastPaymentAmount',
+  lastPaymentDate: 'lastPaymentDate',
+  minimumPaymentAmount: 'minimumPaymentAmount',
+  nextPaymentDueDate: 'nextPaymentDueDate',
+  isOverdue: 'isOverdue',
+  originationPrincipalAmount: 'originationPrincipalAmount',
+  originationDate: 'originationDate',
+  payoffDate: 'payoffDate',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.BudgetScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -214,11 +427,53 @@ exports.Prisma.SavingsGoalScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.ImportProfileScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  delimiter: 'delimiter',
+  dateColumn: 'dateColumn',
+  dateFormat: 'dateFormat',
+  descriptionColumn: 'descriptionColumn',
+  merchantColumn: 'merchantColumn',
+  amountColumn: 'amountColumn',
+  amountSign: 'amountSign',
+  debitColumn: 'debitColumn',
+  creditColumn: 'creditColumn',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.StatementImportScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  profileId: 'profileId',
+  accountId: 'accountId',
+  format: 'format',
+  fileName: 'fileName',
+  status: 'status',
+  rows: 'rows',
+  rowCount: 'rowCount',
+  duplicateCount: 'duplicateCount',
+  importedCount: 'importedCount',
+  committedAt: 'committedAt',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
 };
 
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -228,6 +483,12 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.SyncStatus = exports.$Enums.SyncStatus = {
   NEVER_SYNCED: 'NEVER_SYNCED',
   SYNCING: 'SYNCING',
@@ -236,6 +497,13 @@ exports.SyncStatus = exports.$Enums.SyncStatus = {
   TOKEN_EXPIRED: 'TOKEN_EXPIRED'
 };
 
+exports.SyncJobStatus = exports.$Enums.SyncJobStatus = {
+  QUEUED: 'QUEUED',
+  RUNNING: 'RUNNING',
+  SUCCEEDED: 'SUCCEEDED',
+  FAILED: 'FAILED'
+};
+
 exports.BudgetPeriod = exports.$Enums.BudgetPeriod = {
   WEEKLY: 'WEEKLY',
   MONTHLY: 'MONTHLY',
@@ -243,13 +511,35 @@ exports.BudgetPeriod = exports.$Enums.BudgetPeriod = {
   YEARLY: 'YEARLY'
 };
 
+exports.ImportStatus = exports.$Enums.ImportStatus = {
+  PREVIEW: 'PREVIEW',
+  COMMITTED: 'COMMITTED'
+};
+
 exports.Prisma.ModelName = {
   User: 'User',
   UserCategoryRule: 'UserCategoryRule',
+  PlaidItem: 'PlaidItem',
+  SyncJob: 'SyncJob',
+  Backfill: 'Backfill',
+  SyncRun: 'SyncRun',
   Account: 'Account',
+  BalanceSnapshot: 'BalanceSnapshot',
   Transaction: 'Transaction',
+  TransactionSplit: 'TransactionSplit',
+  Tag: 'Tag',
+  TransactionTag: 'TransactionTag',
+  Merchant: 'Merchant',
+  MerchantAlias: 'MerchantAlias',
+  Attachment: 'Attachment',
+  Security: 'Security',
+  Holding: 'Holding',
+  InvestmentTransaction: 'InvestmentTransaction',
+  Liability: 'Liability',
   Budget: 'Budget',
-  SavingsGoal: 'SavingsGoal'
+  SavingsGoal: 'SavingsGoal',
+  ImportProfile: 'ImportProfile',
+  StatementImport: 'StatementImport'
 };
 
 /**
@@ -0,0 +1,58 @@
+/*
+  Warnings:
+
+  - The Plaid connection columns on `users` are moved to the new `plaid_items` table.
+    Existing connections are copied over before the columns are dropped.
+
+*/
+-- CreateTable
+CREATE TABLE "public"."plaid_items" (
+    "id" TEXT NOT NULL,
+    "plaidItemId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accessToken" TEXT NOT NULL,
+    "institutionId" TEXT,
+    "institutionName" TEXT,
+    "cursor" TEXT,
+    "lastSyncAt" TIMESTAMP(3),
+    "syncStatus" "public"."SyncStatus" NOT NULL DEFAULT 'NEVER_SYNCED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plaid_items_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."accounts" ADD COLUMN     "itemId" TEXT;
+
+-- Backfill existing single-item connections
+INSERT INTO "public"."plaid_items" ("id", "plaidItemId", "userId", "accessToken", "institutionId", "institutionName", "lastSyncAt", "syncStatus", "updatedAt")
+SELECT md5(random()::text || "id"), "plaidItemId", "id", "plaidAccessToken", "plaidInstitutionId", "plaidInstitutionName", "lastSyncAt", "syncStatus", CURRENT_TIMESTAMP
+FROM "public"."users"
+WHERE "plaidAccessToken" IS NOT NULL AND "plaidItemId" IS NOT NULL;
+
+UPDATE "public"."accounts" a
+SET "itemId" = i."id"
+FROM "public"."plaid_items" i
+WHERE i."userId" = a."userId";
+
+-- AlterTable
+ALTER TABLE "public"."users" DROP COLUMN "plaidAccessToken",
+DROP COLUMN "plaidInstitutionId",
+DROP COLUMN "plaidInstitutionName",
+DROP COLUMN "plaidItemId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plaid_items_plaidItemId_key" ON "public"."plaid_items"("plaidItemId");
+
+-- CreateIndex
+CREATE INDEX "plaid_items_userId_idx" ON "public"."plaid_items"("userId");
+
+-- CreateIndex
+CREATE INDEX "accounts_itemId_idx" ON "public"."accounts"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."plaid_items" ADD CONSTRAINT "plaid_items_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."accounts" ADD CONSTRAINT "accounts_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "public"."plaid_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
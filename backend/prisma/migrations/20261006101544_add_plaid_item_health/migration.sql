@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."plaid_items" ADD COLUMN     "consentExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "errorCode" TEXT;
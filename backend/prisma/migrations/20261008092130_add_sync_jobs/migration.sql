@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."SyncJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."sync_jobs" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "status" "public"."SyncJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "trigger" TEXT NOT NULL,
+    "fullResync" BOOLEAN NOT NULL DEFAULT false,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "nextRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_status_nextRunAt_idx" ON "public"."sync_jobs"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_itemId_idx" ON "public"."sync_jobs"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_jobs" ADD CONSTRAINT "sync_jobs_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "public"."plaid_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "public"."sync_runs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "itemId" TEXT,
+    "institutionName" TEXT,
+    "trigger" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL,
+    "newTransactions" INTEGER NOT NULL DEFAULT 0,
+    "updatedTransactions" INTEGER NOT NULL DEFAULT 0,
+    "removedTransactions" INTEGER NOT NULL DEFAULT 0,
+    "newAccounts" INTEGER NOT NULL DEFAULT 0,
+    "categoryDistribution" JSONB,
+    "errorCode" TEXT,
+    "errorMessage" TEXT,
+
+    CONSTRAINT "sync_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_runs_userId_startedAt_idx" ON "public"."sync_runs"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "sync_runs_itemId_startedAt_idx" ON "public"."sync_runs"("itemId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_runs" ADD CONSTRAINT "sync_runs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_runs" ADD CONSTRAINT "sync_runs_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "public"."plaid_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,92 @@
+-- CreateTable
+CREATE TABLE "public"."securities" (
+    "id" TEXT NOT NULL,
+    "plaidSecurityId" TEXT NOT NULL,
+    "name" TEXT,
+    "tickerSymbol" TEXT,
+    "type" TEXT,
+    "isCashEquivalent" BOOLEAN NOT NULL DEFAULT false,
+    "closePrice" DOUBLE PRECISION,
+    "closePriceAsOf" TIMESTAMP(3),
+    "isoCurrencyCode" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "securities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."holdings" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "securityId" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "institutionPrice" DOUBLE PRECISION NOT NULL,
+    "institutionPriceAsOf" TIMESTAMP(3),
+    "institutionValue" DOUBLE PRECISION NOT NULL,
+    "costBasis" DOUBLE PRECISION,
+    "isoCurrencyCode" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "holdings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."investment_transactions" (
+    "id" TEXT NOT NULL,
+    "plaidInvestmentTransactionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "securityId" TEXT,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "subtype" TEXT,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "fees" DOUBLE PRECISION,
+    "date" TIMESTAMP(3) NOT NULL,
+    "isoCurrencyCode" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "investment_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "securities_plaidSecurityId_key" ON "public"."securities"("plaidSecurityId");
+
+-- CreateIndex
+CREATE INDEX "holdings_userId_idx" ON "public"."holdings"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "holdings_accountId_securityId_key" ON "public"."holdings"("accountId", "securityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "investment_transactions_plaidInvestmentTransactionId_key" ON "public"."investment_transactions"("plaidInvestmentTransactionId");
+
+-- CreateIndex
+CREATE INDEX "investment_transactions_userId_date_idx" ON "public"."investment_transactions"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "investment_transactions_accountId_date_idx" ON "public"."investment_transactions"("accountId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."holdings" ADD CONSTRAINT "holdings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."holdings" ADD CONSTRAINT "holdings_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."holdings" ADD CONSTRAINT "holdings_securityId_fkey" FOREIGN KEY ("securityId") REFERENCES "public"."securities"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."investment_transactions" ADD CONSTRAINT "investment_transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."investment_transactions" ADD CONSTRAINT "investment_transactions_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."investment_transactions" ADD CONSTRAINT "investment_transactions_securityId_fkey" FOREIGN KEY ("securityId") REFERENCES "public"."securities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
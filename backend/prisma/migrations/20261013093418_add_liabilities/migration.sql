@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "public"."liabilities" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "aprs" JSONB,
+    "purchaseApr" DOUBLE PRECISION,
+    "interestRatePercentage" DOUBLE PRECISION,
+    "interestRateType" TEXT,
+    "lastStatementBalance" DOUBLE PRECISION,
+    "lastStatementIssueDate" TIMESTAMP(3),
+    "lastPaymentAmount" DOUBLE PRECISION,
+    "lastPaymentDate" TIMESTAMP(3),
+    "minimumPaymentAmount" DOUBLE PRECISION,
+    "nextPaymentDueDate" TIMESTAMP(3),
+    "isOverdue" BOOLEAN,
+    "originationPrincipalAmount" DOUBLE PRECISION,
+    "originationDate" TIMESTAMP(3),
+    "payoffDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "liabilities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "liabilities_accountId_key" ON "public"."liabilities"("accountId");
+
+-- CreateIndex
+CREATE INDEX "liabilities_userId_idx" ON "public"."liabilities"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."liabilities" ADD CONSTRAINT "liabilities_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."liabilities" ADD CONSTRAINT "liabilities_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "public"."balance_snapshots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "currentBalance" DOUBLE PRECISION NOT NULL,
+    "availableBalance" DOUBLE PRECISION,
+    "source" TEXT NOT NULL DEFAULT 'sync',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "balance_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "balance_snapshots_userId_date_idx" ON "public"."balance_snapshots"("userId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "balance_snapshots_accountId_date_key" ON "public"."balance_snapshots"("accountId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."balance_snapshots" ADD CONSTRAINT "balance_snapshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."balance_snapshots" ADD CONSTRAINT "balance_snapshots_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "categoryOverridden" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pendingTransactionId" TEXT;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "public"."sync_jobs" ADD COLUMN     "backfillId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."backfills" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "status" "public"."SyncJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "windowEnd" TIMESTAMP(3) NOT NULL,
+    "windowsTotal" INTEGER NOT NULL DEFAULT 0,
+    "windowsCompleted" INTEGER NOT NULL DEFAULT 0,
+    "transactionsAdded" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "backfills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "backfills_itemId_status_idx" ON "public"."backfills"("itemId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_jobs" ADD CONSTRAINT "sync_jobs_backfillId_fkey" FOREIGN KEY ("backfillId") REFERENCES "public"."backfills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."backfills" ADD CONSTRAINT "backfills_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."backfills" ADD CONSTRAINT "backfills_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "public"."plaid_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."accounts" ADD COLUMN     "closedAt" TIMESTAMP(3);
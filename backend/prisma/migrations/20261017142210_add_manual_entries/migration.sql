@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."accounts" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'plaid',
+ALTER COLUMN "plaidAccountId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'plaid',
+ALTER COLUMN "plaidTransactionId" DROP NOT NULL;
@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "public"."ImportStatus" AS ENUM ('PREVIEW', 'COMMITTED');
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "importId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."import_profiles" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "dateColumn" TEXT NOT NULL,
+    "dateFormat" TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+    "descriptionColumn" TEXT NOT NULL,
+    "merchantColumn" TEXT,
+    "amountColumn" TEXT,
+    "amountSign" TEXT NOT NULL DEFAULT 'expense_negative',
+    "debitColumn" TEXT,
+    "creditColumn" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "import_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."statement_imports" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "profileId" TEXT,
+    "accountId" TEXT,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT,
+    "status" "public"."ImportStatus" NOT NULL DEFAULT 'PREVIEW',
+    "rows" JSONB NOT NULL,
+    "rowCount" INTEGER NOT NULL,
+    "duplicateCount" INTEGER NOT NULL DEFAULT 0,
+    "importedCount" INTEGER NOT NULL DEFAULT 0,
+    "committedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "statement_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_profiles_userId_name_key" ON "public"."import_profiles"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "statement_imports_userId_createdAt_idx" ON "public"."statement_imports"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."transactions" ADD CONSTRAINT "transactions_importId_fkey" FOREIGN KEY ("importId") REFERENCES "public"."statement_imports"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."import_profiles" ADD CONSTRAINT "import_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."statement_imports" ADD CONSTRAINT "statement_imports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."statement_imports" ADD CONSTRAINT "statement_imports_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."import_profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."statement_imports" ADD CONSTRAINT "statement_imports_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "transferGroupId" TEXT,
+ADD COLUMN     "transferOverridden" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "transactions_userId_transferGroupId_idx" ON "public"."transactions"("userId", "transferGroupId");
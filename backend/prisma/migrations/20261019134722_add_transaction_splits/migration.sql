@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."transaction_splits" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "category" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transaction_splits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transaction_splits_category_idx" ON "public"."transaction_splits"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transaction_splits_transactionId_category_key" ON "public"."transaction_splits"("transactionId", "category");
+
+-- AddForeignKey
+ALTER TABLE "public"."transaction_splits" ADD CONSTRAINT "transaction_splits_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "merchantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."merchants" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "defaultCategory" TEXT,
+    "website" TEXT,
+    "logoUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."merchant_aliases" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "merchantId" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "merchant_aliases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_userId_merchantId_idx" ON "public"."transactions"("userId", "merchantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchants_userId_name_key" ON "public"."merchants"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "merchant_aliases_merchantId_idx" ON "public"."merchant_aliases"("merchantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchant_aliases_userId_pattern_key" ON "public"."merchant_aliases"("userId", "pattern");
+
+-- AddForeignKey
+ALTER TABLE "public"."transactions" ADD CONSTRAINT "transactions_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "public"."merchants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."merchants" ADD CONSTRAINT "merchants_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."merchant_aliases" ADD CONSTRAINT "merchant_aliases_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."merchant_aliases" ADD CONSTRAINT "merchant_aliases_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "public"."merchants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
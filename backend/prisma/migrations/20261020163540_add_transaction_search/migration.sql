@@ -0,0 +1,16 @@
+-- Generated columns need immutable expressions and array_to_string is only stable
+CREATE FUNCTION "public"."immutable_array_to_string"(text[]) RETURNS text
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE
+    AS $$ SELECT array_to_string($1, ' ') $$;
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("merchantName", '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("notes", '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig,
+        coalesce("primaryCategory", '') || ' ' || coalesce("public"."immutable_array_to_string"("categories"), '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "transactions_searchVector_idx" ON "public"."transactions" USING GIN ("searchVector");
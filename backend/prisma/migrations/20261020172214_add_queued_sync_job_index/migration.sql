@@ -0,0 +1,10 @@
+-- Collapse duplicate queued syncs left by concurrent triggers, keeping the oldest
+DELETE FROM "public"."sync_jobs" AS j
+USING "public"."sync_jobs" AS k
+WHERE j."itemId" = k."itemId"
+    AND j."status" = 'QUEUED' AND k."status" = 'QUEUED'
+    AND j."backfillId" IS NULL AND k."backfillId" IS NULL
+    AND (j."createdAt", j."id") > (k."createdAt", k."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_jobs_itemId_queued_key" ON "public"."sync_jobs"("itemId") WHERE "status" = 'QUEUED' AND "backfillId" IS NULL;
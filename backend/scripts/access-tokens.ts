@@ -0,0 +1,94 @@
+// scripts/access-tokens.ts
+// Encrypt plaintext Plaid access tokens, or re-encrypt every token under the active key
+//
+//   npm run tokens:encrypt   seal rows still holding a plaintext token
+//   npm run tokens:rotate    re-seal every row not already under TOKEN_ENCRYPTION_ACTIVE_KEY_ID
+//
+// To rotate, add the new key to TOKEN_ENCRYPTION_KEYS, point TOKEN_ENCRYPTION_ACTIVE_KEY_ID
+// at it and run tokens:rotate. Keep the old key listed until the command reports 0 remaining.
+//
+// Plaintext tokens are only read while ALLOW_PLAINTEXT_ACCESS_TOKENS=true; unset it once
+// tokens:encrypt reports 0 remaining.
+
+import dotenv from 'dotenv';
+import { prisma } from '../src/lib/prisma';
+import {
+  decryptToken,
+  encryptToken,
+  getTokenKeyId,
+  isEncryptedToken,
+  needsReencryption
+} from '../src/lib/tokenEncryption';
+
+dotenv.config();
+
+const BATCH_SIZE = 100;
+
+async function resealTokens(mode: 'encrypt' | 'rotate') {
+  console.log(mode === 'encrypt'
+    ? '🔐 Encrypting plaintext access tokens...'
+    : '🔁 Re-encrypting access tokens under the active key...');
+
+  let cursor: string | undefined;
+  let updated = 0;
+  let failed = 0;
+
+  while (true) {
+    const items = await prisma.plaidItem.findMany({
+      select: { id: true, plaidItemId: true, encryptedAccessToken: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 })
+    });
+
+    if (items.length === 0) break;
+    cursor = items[items.length - 1].id;
+
+    for (const item of items) {
+      const stored = item.encryptedAccessToken;
+      const shouldUpdate = mode === 'encrypt' ? !isEncryptedToken(stored) : needsReencryption(stored);
+      if (!shouldUpdate) continue;
+
+      try {
+        // Only write if the row is unchanged, so a concurrent re-link isn't overwritten
+        const { count } = await prisma.plaidItem.updateMany({
+          where: { id: item.id, encryptedAccessToken: stored },
+          data: { encryptedAccessToken: encryptToken(isEncryptedToken(stored) ? decryptToken(stored) : stored) }
+        });
+        updated += count;
+        console.log(`  ✅ ${item.plaidItemId} (${getTokenKeyId(stored) || 'plaintext'})`);
+      } catch (error: any) {
+        failed++;
+        console.error(`  ❌ ${item.plaidItemId}: ${error.message}`);
+      }
+    }
+  }
+
+  const all = await prisma.plaidItem.findMany({ select: { encryptedAccessToken: true } });
+  const remaining = all.filter(item => mode === 'encrypt'
+    ? !isEncryptedToken(item.encryptedAccessToken)
+    : needsReencryption(item.encryptedAccessToken)
+  ).length;
+
+  console.log(`\nUpdated ${updated} tokens, ${failed} failed, ${remaining} remaining`);
+  if (mode === 'encrypt' && remaining === 0 && process.env.ALLOW_PLAINTEXT_ACCESS_TOKENS === 'true') {
+    console.log('Every token is encrypted, ALLOW_PLAINTEXT_ACCESS_TOKENS can be unset');
+  }
+  return failed === 0 && remaining === 0;
+}
+
+const mode = process.argv[2];
+if (mode !== 'encrypt' && mode !== 'rotate') {
+  console.error('Usage: ts-node scripts/access-tokens.ts <encrypt|rotate>');
+  process.exit(1);
+}
+
+resealTokens(mode)
+  .then(ok => {
+    process.exitCode = ok ? 0 : 1;
+  })
+  .catch(error => {
+    console.error('❌ Token migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,50 @@
+// scripts/assign-merchants.ts
+// Point transactions stored before merchants existed at their merchants
+//
+//   npm run merchants:assign              every user
+//   npm run merchants:assign -- <userId>  one user's transactions
+//
+// Safe to re-run: transactions that already have a merchant are left alone.
+
+import dotenv from 'dotenv';
+import { prisma } from '../src/lib/prisma';
+import { MerchantService } from '../src/services/merchantService';
+
+dotenv.config();
+
+async function assignMerchants(userId?: string) {
+  console.log('🏪 Assigning merchants...');
+
+  const users = await prisma.user.findMany({
+    where: userId ? { id: userId } : {},
+    select: { id: true, email: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  let assigned = 0;
+  let failed = 0;
+
+  for (const user of users) {
+    try {
+      const count = await MerchantService.assignMerchants(user.id);
+      assigned += count;
+      console.log(`  ✅ ${user.email}: ${count} transactions`);
+    } catch (error: any) {
+      failed++;
+      console.error(`  ❌ ${user.email}: ${error.message}`);
+    }
+  }
+
+  console.log(`\nAssigned ${assigned} transactions across ${users.length} users, ${failed} failed`);
+  return failed === 0;
+}
+
+assignMerchants(process.argv[2])
+  .then(ok => {
+    process.exitCode = ok ? 0 : 1;
+  })
+  .catch(error => {
+    console.error('❌ Merchant assignment failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,50 @@
+// scripts/backfill-balances.ts
+// Reconstruct daily balance snapshots for accounts linked before snapshots were recorded
+//
+//   npm run balances:backfill              every account
+//   npm run balances:backfill -- <userId>  one user's accounts
+//
+// Safe to re-run: days that already have a snapshot are skipped.
+
+import dotenv from 'dotenv';
+import { prisma } from '../src/lib/prisma';
+import { BalanceHistoryService } from '../src/services/balanceHistoryService';
+
+dotenv.config();
+
+async function backfillBalances(userId?: string) {
+  console.log('📈 Backfilling balance snapshots...');
+
+  const accounts = await prisma.account.findMany({
+    where: userId ? { userId } : {},
+    select: { id: true, name: true, mask: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  let created = 0;
+  let failed = 0;
+
+  for (const account of accounts) {
+    try {
+      const count = await BalanceHistoryService.backfillAccount(account.id);
+      created += count;
+      console.log(`  ✅ ${account.name}${account.mask ? ` (${account.mask})` : ''}: ${count} snapshots`);
+    } catch (error: any) {
+      failed++;
+      console.error(`  ❌ ${account.name}: ${error.message}`);
+    }
+  }
+
+  console.log(`\nCreated ${created} snapshots across ${accounts.length} accounts, ${failed} failed`);
+  return failed === 0;
+}
+
+backfillBalances(process.argv[2])
+  .then(ok => {
+    process.exitCode = ok ? 0 : 1;
+  })
+  .catch(error => {
+    console.error('❌ Balance backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,213 @@
+// scripts/benchmark-sync.ts
+// Time the transaction sync against generated fixture data, comparing the old
+// row-at-a-time loop with the batched TransactionSyncService.syncItem
+//
+//   npm run benchmark:sync               3000 transactions
+//   npm run benchmark:sync -- 10000      custom size
+//
+// Needs DATABASE_URL; creates a throwaway user and deletes it afterwards.
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getBankDataProvider } from '../src/lib/bankDataProvider';
+import { prisma } from '../src/lib/prisma';
+import { encryptToken } from '../src/lib/tokenEncryption';
+import { SmartCategorizationService } from '../src/services/smartCategorizationService';
+import { TransactionSyncService } from '../src/services/transactionSyncService';
+
+dotenv.config();
+
+const BENCHMARK_EMAIL = 'sync-benchmark@example.com';
+const SCENARIO = 'benchmark';
+
+const MERCHANTS = [
+  { name: 'Starbucks Store 1182', merchantName: 'Starbucks', categories: ['Food and Drink', 'Restaurants', 'Coffee Shop'] },
+  { name: 'Safeway Store 1190', merchantName: 'Safeway', categories: ['Shops', 'Supermarkets and Groceries'] },
+  { name: 'Shell Oil 5740', merchantName: 'Shell', categories: ['Travel', 'Gas Stations'] },
+  { name: 'AMAZON MKTPLACE PMTS', merchantName: 'Amazon', categories: ['Shops', 'Digital Purchase'] },
+  { name: 'NETFLIX.COM', merchantName: 'Netflix', categories: ['Service', 'Subscription'] },
+  { name: 'ACME CORP PAYROLL', merchantName: null, categories: ['Transfer', 'Payroll'] }
+];
+
+/**
+ * Write a scenario with `size` transactions over the last year, followed by an
+ * update that modifies a tenth of them and removes a fiftieth
+ */
+function writeScenario(dir: string, size: number) {
+  const today = Date.now();
+  const added = Array.from({ length: size }, (_, i) => {
+    const merchant = MERCHANTS[i % MERCHANTS.length];
+    return {
+      transactionId: `bench-txn-${i}`,
+      accountId: i % 3 === 0 ? 'bench-credit' : 'bench-checking',
+      name: merchant.name,
+      merchantName: merchant.merchantName,
+      amount: merchant.categories.includes('Payroll') ? -2500 : Math.round((5 + (i * 37) % 200) * 100) / 100,
+      date: new Date(today - (i % 365) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+      categories: merchant.categories
+    };
+  });
+
+  const modified = added
+    .filter((_, i) => i % 10 === 0)
+    .map(t => ({ ...t, amount: t.amount + 1 }));
+  const removed = added
+    .filter((_, i) => i % 50 === 1)
+    .map(t => t.transactionId);
+
+  const scenario = {
+    institution: { id: 'ins_benchmark', name: 'Benchmark Bank' },
+    accounts: [
+      { accountId: 'bench-checking', name: 'Checking', type: 'depository', subtype: 'checking', mask: '9001', balances: { current: 5000 } },
+      { accountId: 'bench-credit', name: 'Credit Card', type: 'credit', subtype: 'credit card', mask: '9002', balances: { current: 800, limit: 10000 } }
+    ],
+    updates: [{ added }, { modified, removed }]
+  };
+
+  fs.writeFileSync(path.join(dir, `${SCENARIO}.json`), JSON.stringify(scenario));
+  return { added: added.length, modified: modified.length, removed: removed.length };
+}
+
+/**
+ * The sync loop as it was before batching: a lookup, a categorization and a write per row
+ */
+async function syncRowByRow(userId: string, itemId: string, accessToken: string) {
+  const provider = getBankDataProvider();
+
+  for (const plaidAccount of await provider.getAccounts(accessToken)) {
+    const existing = await prisma.account.findUnique({ where: { plaidAccountId: plaidAccount.accountId } });
+    const accountData = {
+      name: plaidAccount.name,
+      type: plaidAccount.type,
+      subtype: plaidAccount.subtype || 'unknown',
+      currentBalance: plaidAccount.balances.current || 0
+    };
+    if (existing) {
+      await prisma.account.update({ where: { id: existing.id }, data: { ...accountData, itemId } });
+    } else {
+      await prisma.account.create({ data: { plaidAccountId: plaidAccount.accountId, userId, itemId, ...accountData } });
+    }
+  }
+
+  const item = await prisma.plaidItem.findUniqueOrThrow({ where: { id: itemId } });
+  const accounts = await prisma.account.findMany({ where: { itemId }, select: { id: true, plaidAccountId: true } });
+  const accountMap = new Map(accounts.map(acc => [acc.plaidAccountId, acc.id]));
+
+  let cursor = item.cursor || undefined;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await provider.syncTransactions(accessToken, cursor, { count: 500, daysRequested: 365 });
+
+    for (const plaidTransaction of [...page.added, ...page.modified]) {
+      const accountId = accountMap.get(plaidTransaction.accountId)!;
+      const category = await SmartCategorizationService.categorizeTransaction(
+        userId,
+        plaidTransaction.name,
+        plaidTransaction.merchantName || undefined,
+        plaidTransaction.categories
+      );
+      const data = {
+        plaidTransactionId: plaidTransaction.transactionId,
+        userId,
+        accountId,
+        name: plaidTransaction.name,
+        merchantName: plaidTransaction.merchantName,
+        amount: plaidTransaction.amount,
+        date: new Date(plaidTransaction.date),
+        primaryCategory: category.category,
+        categories: plaidTransaction.categories,
+        pending: plaidTransaction.pending
+      };
+
+      const existing = await prisma.transaction.findUnique({
+        where: { plaidTransactionId: plaidTransaction.transactionId }
+      });
+      if (existing) {
+        await prisma.transaction.update({ where: { id: existing.id }, data });
+      } else {
+        await prisma.transaction.create({ data });
+      }
+    }
+
+    if (page.removed.length > 0) {
+      await prisma.transaction.deleteMany({ where: { userId, plaidTransactionId: { in: page.removed } } });
+    }
+
+    cursor = page.nextCursor;
+    hasMore = page.hasMore;
+  }
+
+  await prisma.plaidItem.update({ where: { id: itemId }, data: { cursor } });
+}
+
+async function time(run: () => Promise<unknown>) {
+  const startedAt = process.hrtime.bigint();
+  await run();
+  return Number(process.hrtime.bigint() - startedAt) / 1e6;
+}
+
+async function runBenchmark(size: number) {
+  const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-benchmark-'));
+  process.env.BANK_DATA_PROVIDER = 'fixture';
+  process.env.BANK_FIXTURES_DIR = fixturesDir;
+
+  try {
+    const counts = writeScenario(fixturesDir, size);
+    console.log(`⏱  Benchmarking sync: ${counts.added} added, then ${counts.modified} modified and ${counts.removed} removed\n`);
+
+    await prisma.user.deleteMany({ where: { email: BENCHMARK_EMAIL } });
+    const user = await prisma.user.create({
+      data: {
+        email: BENCHMARK_EMAIL,
+        fullName: 'Sync Benchmark',
+        passwordHash: 'not-used',
+        plaidItems: {
+          create: [
+            { plaidItemId: `item-fixture-${SCENARIO}.rows`, encryptedAccessToken: encryptToken(`access-fixture-${SCENARIO}.rows`) },
+            { plaidItemId: `item-fixture-${SCENARIO}.batched`, encryptedAccessToken: encryptToken(`access-fixture-${SCENARIO}.batched`) }
+          ]
+        }
+      },
+      include: { plaidItems: { orderBy: { plaidItemId: 'asc' } } }
+    });
+    const [batchedItem, rowsItem] = user.plaidItems;
+
+    await SmartCategorizationService.initializePatterns(user.id);
+
+    const results = [];
+    for (const phase of ['Initial sync', 'Incremental sync']) {
+      const rowByRow = await time(() => syncRowByRow(user.id, rowsItem.id, rowsItem.encryptedAccessToken));
+      // Includes everything else a real sync does (snapshots, balance backfill, run history)
+      const batched = await time(async () => {
+        const result = await TransactionSyncService.syncItem(batchedItem.id, 'benchmark');
+        if (!result.success) throw new Error(result.error);
+      });
+      results.push({ phase, rowByRow, batched });
+    }
+
+    console.log('Phase              Row by row     Batched    Speedup');
+    results.forEach(({ phase, rowByRow, batched }) => {
+      console.log(
+        `${phase.padEnd(18)} ${`${rowByRow.toFixed(0)} ms`.padStart(10)} ${`${batched.toFixed(0)} ms`.padStart(11)} ${`${(rowByRow / batched).toFixed(1)}x`.padStart(10)}`
+      );
+    });
+  } finally {
+    await prisma.user.deleteMany({ where: { email: BENCHMARK_EMAIL } });
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  }
+}
+
+const size = parseInt(process.argv[2] || '3000');
+if (!(size > 0)) {
+  console.error('Usage: ts-node scripts/benchmark-sync.ts [transactionCount]');
+  process.exit(1);
+}
+
+runBenchmark(size)
+  .catch(error => {
+    console.error('❌ Benchmark failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { encryptToken } from '../lib/tokenEncryption';
+import { Prisma } from '../../prisma/generated/prisma';
+
+/**
+ * Fixtures shared by the service and route tests. They all run against one database,
+ * so every suite works with a user of its own, found again by its email address.
+ */
+
+// Linked items are stored with sealed access tokens, so there has to be a key to seal them with
+process.env.TOKEN_ENCRYPTION_KEYS = process.env.TOKEN_ENCRYPTION_KEYS || `test:${crypto.randomBytes(32).toString('base64')}`;
+
+export type TestItem = Omit<Prisma.PlaidItemCreateWithoutUserInput, 'encryptedAccessToken'> & {
+    accessToken: string;
+};
+
+/**
+ * Remove a suite's user with everything it owns
+ */
+export const deleteTestUser = (email: string) => prisma.user.deleteMany({ where: { email } });
+
+/**
+ * Start a suite's user over, optionally with linked items
+ */
+export const createTestUser = async (email: string, items: TestItem[] = []) => {
+    await deleteTestUser(email);
+    return prisma.user.create({
+        data: {
+            email,
+            fullName: 'Test User',
+            passwordHash: 'not-used',
+            plaidItems: {
+                create: items.map(({ accessToken, ...item }) => ({ ...item, encryptedAccessToken: encryptToken(accessToken) }))
+            }
+        },
+        include: { plaidItems: true }
+    });
+};
@@ -0,0 +1,38 @@
+import { cleanMerchantName, matchesMerchantPattern, merchantKey } from '../../lib/merchantNames';
+
+describe('merchantNames', () => {
+    test('should strip card and processor prefixes, store numbers and dates', () => {
+        expect(cleanMerchantName('POS DEBIT 0423 SQ *BLUE BOTTLE #12')).toBe('Blue Bottle');
+        expect(cleanMerchantName('TST* JOES PIZZA 04/23')).toBe('Joes Pizza');
+        expect(cleanMerchantName('PAYPAL *STEAM GAMES 425-889-9642 WA')).toBe('Steam Games');
+        expect(cleanMerchantName('CHECKCARD 0312 CVS/PHARMACY #04512')).toBe('CVS Pharmacy');
+        expect(cleanMerchantName('DEBIT CARD PURCHASE - TARGET T-1234 OAKLAND CA')).toBe('Target Oakland');
+    });
+
+    test('should drop order references but keep names after an asterisk', () => {
+        expect(cleanMerchantName('AMAZON.COM*MK1234AB')).toBe('Amazon');
+        expect(cleanMerchantName('UBER *EATS')).toBe('Uber Eats');
+        expect(cleanMerchantName('NETFLIX.COM')).toBe('Netflix');
+    });
+
+    test('should keep the casing of names that are already clean', () => {
+        expect(cleanMerchantName('Blue Bottle Coffee')).toBe('Blue Bottle Coffee');
+        expect(cleanMerchantName("McDonald's")).toBe("McDonald's");
+        expect(cleanMerchantName('Card Factory')).toBe('Card Factory');
+        expect(cleanMerchantName('7-ELEVEN 33012')).toBe('7-Eleven');
+        expect(cleanMerchantName('AT&T*BILL PAYMENT')).toBe('AT&T Bill Payment');
+    });
+
+    test('should return an empty name when only numbers are left', () => {
+        expect(cleanMerchantName('POS 0423 12345678')).toBe('');
+    });
+
+    test('should match keys by whole words', () => {
+        expect(merchantKey("MCDONALD'S")).toBe(merchantKey('McDonalds'));
+        expect(merchantKey('7-Eleven')).toBe('7 eleven');
+
+        expect(matchesMerchantPattern('blue bottle', 'blue bottle')).toBe(true);
+        expect(matchesMerchantPattern('blue bottle coffee oakland', 'blue bottle')).toBe(true);
+        expect(matchesMerchantPattern('blue bottles', 'blue bottle')).toBe(false);
+    });
+});
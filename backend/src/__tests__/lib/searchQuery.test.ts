@@ -0,0 +1,26 @@
+import { parseSearchQuery } from '../../lib/searchQuery';
+
+describe('parseSearchQuery', () => {
+    test('should match bare words as prefixes and AND them together', () => {
+        expect(parseSearchQuery('coffee')).toBe('coffee:*');
+        expect(parseSearchQuery('uber tip')).toBe('uber:* & tip:*');
+    });
+
+    test('should support phrases, exclusions and OR', () => {
+        expect(parseSearchQuery('"blue bottle" -refund')).toBe('(blue <-> bottle) & !refund:*');
+        expect(parseSearchQuery('-"gift card" amazon')).toBe('!(gift <-> card) & amazon:*');
+        expect(parseSearchQuery('uber OR lyft tip')).toBe('(uber:* | lyft:*) & tip:*');
+    });
+
+    test('should drop punctuation so it cannot break the query', () => {
+        expect(parseSearchQuery('7-eleven')).toBe('(7 <-> eleven:*)');
+        expect(parseSearchQuery("rent's & (utilities)")).toBe('(rent <-> s:*) & utilities:*');
+        expect(parseSearchQuery('"unclosed phrase')).toBe('(unclosed <-> phrase)');
+        expect(parseSearchQuery('café OR')).toBe('café:*');
+    });
+
+    test('should return null when there is nothing to search for', () => {
+        expect(parseSearchQuery('')).toBeNull();
+        expect(parseSearchQuery('  !!! - OR ')).toBeNull();
+    });
+});
@@ -0,0 +1,120 @@
+import {
+    CsvMapping,
+    detectStatementFormat,
+    parseCsvRows,
+    parseCsvStatement,
+    parseOfxStatement,
+    parseStatementAmount,
+    parseStatementDate,
+    StatementParseError
+} from '../../lib/statementParser';
+
+const mapping = (overrides: Partial<CsvMapping> = {}): CsvMapping => ({
+    delimiter: ',',
+    dateColumn: 'Date',
+    dateFormat: 'MM/DD/YYYY',
+    descriptionColumn: 'Description',
+    merchantColumn: null,
+    amountColumn: 'Amount',
+    amountSign: 'expense_negative',
+    debitColumn: null,
+    creditColumn: null,
+    ...overrides
+});
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260903120000[-5:EST]
+<TRNAMT>-42.17
+<FITID>20260903001
+<NAME>SAFEWAY #1190
+<MEMO>POS PURCHASE
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260905
+<TRNAMT>1500.00
+<FITID>20260905001
+<NAME>ACME CORP &amp; SONS PAYROLL
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>
+`;
+
+describe('statementParser', () => {
+    test('should parse dates in each supported format', () => {
+        expect(parseStatementDate('2026-09-03', 'YYYY-MM-DD')).toBe('2026-09-03');
+        expect(parseStatementDate('9/3/2026', 'MM/DD/YYYY')).toBe('2026-09-03');
+        expect(parseStatementDate('03/09/2026', 'DD/MM/YYYY')).toBe('2026-09-03');
+        expect(parseStatementDate('20260903120000', 'YYYYMMDD')).toBe('2026-09-03');
+        expect(parseStatementDate('02/30/2026', 'MM/DD/YYYY')).toBeNull();
+    });
+
+    test('should parse amounts the way banks print them', () => {
+        expect(parseStatementAmount('$1,234.50')).toBe(1234.5);
+        expect(parseStatementAmount('(12.00)')).toBe(-12);
+        expect(parseStatementAmount('-3.10')).toBe(-3.1);
+        expect(parseStatementAmount('')).toBeNull();
+    });
+
+    test('should split quoted CSV fields', () => {
+        const rows = parseCsvRows('a,"b, with comma","say ""hi"""\r\n\r\n1,2,3\n');
+        expect(rows).toEqual([['a', 'b, with comma', 'say "hi"'], ['1', '2', '3']]);
+    });
+
+    test('should read a signed amount column as expenses positive', () => {
+        const csv = 'Date,Description,Amount\n09/03/2026,SAFEWAY #1190,-42.17\n09/05/2026,PAYROLL,1500.00\n';
+        const rows = parseCsvStatement(csv, mapping());
+
+        expect(rows).toEqual([
+            { date: '2026-09-03', name: 'SAFEWAY #1190', merchantName: null, amount: 42.17, externalId: null },
+            { date: '2026-09-05', name: 'PAYROLL', merchantName: null, amount: -1500, externalId: null }
+        ]);
+
+        const positive = parseCsvStatement(csv, mapping({ amountSign: 'expense_positive' }));
+        expect(positive[0].amount).toBe(-42.17);
+    });
+
+    test('should read separate debit and credit columns', () => {
+        const csv = 'Posted;Details;Money Out;Money In\n2026-09-03;Coffee;4.50;\n2026-09-05;Refund;;20.00\n';
+        const rows = parseCsvStatement(csv, mapping({
+            delimiter: ';',
+            dateColumn: 'Posted',
+            dateFormat: 'YYYY-MM-DD',
+            descriptionColumn: 'Details',
+            amountColumn: null,
+            debitColumn: 'Money Out',
+            creditColumn: 'Money In'
+        }));
+
+        expect(rows.map(r => r.amount)).toEqual([4.5, -20]);
+    });
+
+    test('should report the line of a bad row', () => {
+        const csv = 'Date,Description,Amount\n09/03/2026,Coffee,-4.50\nyesterday,Lunch,-12\n';
+        expect(() => parseCsvStatement(csv, mapping())).toThrow('Line 3');
+        expect(() => parseCsvStatement(csv, mapping({ amountColumn: 'Total' }))).toThrow(StatementParseError);
+    });
+
+    test('should read SGML OFX transactions', () => {
+        const rows = parseOfxStatement(SGML_OFX);
+
+        expect(rows).toEqual([
+            { date: '2026-09-03', name: 'SAFEWAY #1190', merchantName: null, amount: 42.17, externalId: '20260903001' },
+            { date: '2026-09-05', name: 'ACME CORP & SONS PAYROLL', merchantName: null, amount: -1500, externalId: '20260905001' }
+        ]);
+    });
+
+    test('should detect the format', () => {
+        expect(detectStatementFormat(SGML_OFX)).toBe('ofx');
+        expect(detectStatementFormat('Date,Amount\n', undefined, 'export.QFX')).toBe('qfx');
+        expect(detectStatementFormat('Date,Amount\n')).toBe('csv');
+        expect(detectStatementFormat('', 'xlsx')).toBeNull();
+    });
+});
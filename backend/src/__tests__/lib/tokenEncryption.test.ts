@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import {
+    decryptToken,
+    encryptToken,
+    getAccessToken,
+    getTokenKeyId,
+    needsReencryption
+} from '../../lib/tokenEncryption';
+
+const newKey = () => crypto.randomBytes(32).toString('base64');
+const oldKey = `k1:${newKey()}`;
+const rotatedKey = `k2:${newKey()}`;
+
+describe('tokenEncryption', () => {
+    beforeEach(() => {
+        process.env.TOKEN_ENCRYPTION_KEYS = oldKey;
+        delete process.env.TOKEN_ENCRYPTION_ACTIVE_KEY_ID;
+    });
+
+    test('should round-trip a token with a key id prefix', () => {
+        const sealed = encryptToken('access-sandbox-123');
+
+        expect(sealed).not.toContain('access-sandbox-123');
+        expect(getTokenKeyId(sealed)).toBe('k1');
+        expect(decryptToken(sealed)).toBe('access-sandbox-123');
+        expect(getAccessToken({ encryptedAccessToken: sealed })).toBe('access-sandbox-123');
+    });
+
+    test('should use a fresh data key for every token', () => {
+        expect(encryptToken('same-token')).not.toBe(encryptToken('same-token'));
+    });
+
+    test('should reject tampered ciphertext', () => {
+        const sealed = encryptToken('access-sandbox-123');
+        const parts = sealed.split(':');
+        parts[parts.length - 1] = Buffer.from('access-sandbox-999').toString('base64');
+
+        expect(() => decryptToken(parts.join(':'))).toThrow();
+    });
+
+    test('should keep old keys readable after rotation', () => {
+        const sealed = encryptToken('access-sandbox-123');
+
+        process.env.TOKEN_ENCRYPTION_KEYS = `${rotatedKey},${oldKey}`;
+        expect(needsReencryption(sealed)).toBe(true);
+        expect(decryptToken(sealed)).toBe('access-sandbox-123');
+
+        const resealed = encryptToken(decryptToken(sealed));
+        expect(getTokenKeyId(resealed)).toBe('k2');
+        expect(needsReencryption(resealed)).toBe(false);
+    });
+
+    test('should fail clearly when the key is missing', () => {
+        const sealed = encryptToken('access-sandbox-123');
+
+        process.env.TOKEN_ENCRYPTION_KEYS = rotatedKey;
+        expect(() => decryptToken(sealed)).toThrow('unknown key "k1"');
+    });
+
+    test('should only pass through legacy plaintext tokens while they are allowed', () => {
+        expect(() => decryptToken('access-sandbox-legacy')).toThrow('tokens:encrypt');
+        expect(needsReencryption('access-sandbox-legacy')).toBe(true);
+
+        process.env.ALLOW_PLAINTEXT_ACCESS_TOKENS = 'true';
+        try {
+            expect(decryptToken('access-sandbox-legacy')).toBe('access-sandbox-legacy');
+        } finally {
+            delete process.env.ALLOW_PLAINTEXT_ACCESS_TOKENS;
+        }
+    });
+});
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { app } from '../../index';
+import { prisma } from '../../lib/prisma';
+import { PlaidWebhookService } from '../../services/plaidWebhookService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+// Locally generated stand-in for Plaid's webhook verification key
+const KEY_ID = 'local-test-key';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const publicJwk = publicKey.export({ format: 'jwk' });
+
+const fixtures = {
+    syncUpdatesAvailable: {
+        webhook_type: 'TRANSACTIONS',
+        webhook_code: 'SYNC_UPDATES_AVAILABLE',
+        item_id: 'webhook-test-item',
+        initial_update_complete: true,
+        historical_update_complete: false,
+        environment: 'sandbox'
+    },
+    itemLoginRequired: {
+        webhook_type: 'ITEM',
+        webhook_code: 'ERROR',
+        item_id: 'webhook-test-item',
+        error: {
+            error_type: 'ITEM_ERROR',
+            error_code: 'ITEM_LOGIN_REQUIRED',
+            error_message: 'the login details of this item have changed'
+        },
+        environment: 'sandbox'
+    },
+    permissionRevoked: {
+        webhook_type: 'ITEM',
+        webhook_code: 'USER_PERMISSION_REVOKED',
+        item_id: 'webhook-test-item',
+        environment: 'sandbox'
+    }
+};
+
+const signBody = (body: string, keyId: string = KEY_ID) => {
+    const request_body_sha256 = crypto.createHash('sha256').update(body).digest('hex');
+    return jwt.sign({ request_body_sha256 }, privateKey, { algorithm: 'ES256', keyid: keyId });
+};
+
+const postWebhook = (payload: object, sign: (body: string) => string = signBody) => {
+    const body = JSON.stringify(payload);
+    return request(app)
+        .post('/api/plaid/webhook')
+        .set('Content-Type', 'application/json')
+        .set('Plaid-Verification', sign(body))
+        .send(body);
+};
+
+describe('Plaid Webhook Route', () => {
+    let itemId: string;
+
+    beforeAll(async () => {
+        PlaidWebhookService.cacheVerificationKey({
+            alg: 'ES256',
+            crv: publicJwk.crv!,
+            kid: KEY_ID,
+            kty: publicJwk.kty!,
+            use: 'sig',
+            x: publicJwk.x!,
+            y: publicJwk.y!,
+            created_at: Math.floor(Date.now() / 1000),
+            expired_at: null
+        });
+
+        const user = await createTestUser('webhook@example.com', [{
+            plaidItemId: 'webhook-test-item',
+            accessToken: 'access-sandbox-test',
+            syncStatus: 'SYNCED'
+        }]);
+        itemId = user.plaidItems[0].id;
+    });
+
+    test('should reject webhooks without a Plaid-Verification header', async () => {
+        const res = await request(app)
+            .post('/api/plaid/webhook')
+            .send(fixtures.syncUpdatesAvailable);
+        expect(res.status).toBe(401);
+    });
+
+    test('should reject webhooks whose body does not match the signed hash', async () => {
+        const res = await postWebhook(fixtures.itemLoginRequired, () =>
+            signBody(JSON.stringify(fixtures.syncUpdatesAvailable))
+        );
+        expect(res.status).toBe(401);
+    });
+
+    test('should reject webhooks signed by a different key', async () => {
+        const { privateKey: otherKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        const res = await postWebhook(fixtures.itemLoginRequired, body =>
+            jwt.sign(
+                { request_body_sha256: crypto.createHash('sha256').update(body).digest('hex') },
+                otherKey,
+                { algorithm: 'ES256', keyid: KEY_ID }
+            )
+        );
+        expect(res.status).toBe(401);
+    });
+
+    test('should mark the item as expired on ITEM_LOGIN_REQUIRED', async () => {
+        const res = await postWebhook(fixtures.itemLoginRequired);
+        expect(res.status).toBe(200);
+        expect(res.body.handled).toBe(true);
+
+        const item = await prisma.plaidItem.findUnique({ where: { id: itemId } });
+        expect(item?.syncStatus).toBe('TOKEN_EXPIRED');
+    });
+
+    test('should mark the item as expired when the user revokes permission', async () => {
+        await prisma.plaidItem.update({ where: { id: itemId }, data: { syncStatus: 'SYNCED' } });
+
+        const res = await postWebhook(fixtures.permissionRevoked);
+        expect(res.status).toBe(200);
+
+        const item = await prisma.plaidItem.findUnique({ where: { id: itemId } });
+        expect(item?.syncStatus).toBe('TOKEN_EXPIRED');
+    });
+
+    test('should enqueue a sync on SYNC_UPDATES_AVAILABLE', async () => {
+        const enqueue = jest.spyOn(PlaidWebhookService, 'enqueueItemSync').mockImplementation(() => {});
+
+        const res = await postWebhook(fixtures.syncUpdatesAvailable);
+        expect(res.status).toBe(200);
+        expect(res.body.action).toBe('sync_enqueued');
+        expect(enqueue).toHaveBeenCalledWith(itemId);
+
+        enqueue.mockRestore();
+    });
+
+    test('should acknowledge webhooks for unknown items without acting', async () => {
+        const res = await postWebhook({ ...fixtures.syncUpdatesAvailable, item_id: 'unknown-item' });
+        expect(res.status).toBe(200);
+        expect(res.body.handled).toBe(false);
+    });
+
+    afterAll(async () => {
+        await deleteTestUser('webhook@example.com');
+        await prisma.$disconnect();
+    });
+});
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { prisma } from '../../lib/prisma';
+import { AttachmentError, AttachmentService } from '../../services/attachmentService';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { Transaction } from '../../../prisma/generated/prisma';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+process.env.ATTACHMENT_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+
+const ATTACHMENT_EMAIL = 'attachments@example.com';
+
+const PDF = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n');
+
+const readAll = async (stream: NodeJS.ReadableStream) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+};
+
+describe('AttachmentService', () => {
+    let transaction: Transaction;
+
+    beforeEach(async () => {
+        const user = await createTestUser(ATTACHMENT_EMAIL);
+
+        const account = await ManualEntryService.createAccount(user.id, { name: 'Checking', type: 'depository' });
+        transaction = await ManualEntryService.createTransaction(user.id, account, {
+            accountId: account.id,
+            name: 'Best Buy - dishwasher',
+            amount: 649.99,
+            date: new Date('2026-08-14')
+        });
+    });
+
+    test('should store, read back and delete a receipt', async () => {
+        const attachment = await AttachmentService.create(transaction, {
+            data: PDF,
+            contentType: 'application/pdf',
+            fileName: 'warranty "card".pdf'
+        });
+
+        expect(attachment.fileName).toBe('warranty _card_.pdf');
+        expect(attachment.size).toBe(PDF.length);
+        expect(await readAll(await AttachmentService.open(attachment))).toEqual(PDF);
+
+        await AttachmentService.delete(attachment);
+        expect(await prisma.attachment.count({ where: { transactionId: transaction.id } })).toBe(0);
+        await expect(AttachmentService.open(attachment)).rejects.toThrow();
+    });
+
+    test('should refuse files that are not what they claim to be', async () => {
+        await expect(AttachmentService.create(transaction, {
+            data: PDF,
+            contentType: 'image/jpeg'
+        })).rejects.toThrow(AttachmentError);
+
+        await expect(AttachmentService.create(transaction, {
+            data: Buffer.from('<html></html>'),
+            contentType: 'text/html'
+        })).rejects.toThrow(AttachmentError);
+    });
+
+    test('should remove files along with a deleted transaction', async () => {
+        const attachment = await AttachmentService.create(transaction, { data: PDF, contentType: 'application/pdf' });
+        expect(attachment.fileName).toBe('attachment.pdf');
+
+        await ManualEntryService.deleteTransaction(transaction);
+
+        await expect(AttachmentService.open(attachment)).rejects.toThrow();
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(ATTACHMENT_EMAIL);
+        await prisma.$disconnect();
+        fs.rmSync(process.env.ATTACHMENT_DIR!, { recursive: true, force: true });
+    });
+});
@@ -0,0 +1,89 @@
+import { prisma } from '../../lib/prisma';
+import { BackfillService, countBackfillWindows } from '../../services/backfillService';
+import { SyncJobService } from '../../services/syncJobService';
+import { TransactionSyncService } from '../../services/transactionSyncService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+process.env.BANK_DATA_PROVIDER = 'fixture';
+
+const BACKFILL_EMAIL = 'backfill@example.com';
+const BACKFILL_START = new Date('2026-06-01');
+
+describe('BackfillService with the fixture provider', () => {
+    let userId: string;
+    let itemId: string;
+
+    beforeEach(async () => {
+        const user = await createTestUser(BACKFILL_EMAIL, [{
+            plaidItemId: 'item-fixture-history',
+            accessToken: 'access-fixture-history'
+        }]);
+        userId = user.id;
+        itemId = user.plaidItems[0].id;
+
+        const result = await TransactionSyncService.syncItem(itemId);
+        expect(result.success).toBe(true);
+    });
+
+    test('should backfill month by month through the job queue', async () => {
+        const recent = await prisma.transaction.findFirstOrThrow({ where: { userId, name: 'Safeway Store 1190' } });
+        await prisma.transaction.update({ where: { id: recent.id }, data: { notes: 'Weekly shop' } });
+
+        const [backfill] = await BackfillService.requestBackfill(userId, BACKFILL_START);
+        expect(backfill.windowsTotal).toBe(countBackfillWindows(BACKFILL_START, new Date()));
+        await SyncJobService.enqueueBackfill(backfill);
+
+        // Each job run handles one window and queues the next
+        for (let i = 0; i < backfill.windowsTotal; i++) {
+            await SyncJobService.poll();
+            await SyncJobService.stopWorker();
+        }
+
+        const finished = await prisma.backfill.findUniqueOrThrow({ where: { id: backfill.id } });
+        expect(finished.status).toBe('SUCCEEDED');
+        expect(finished.windowsCompleted).toBe(finished.windowsTotal);
+        expect(finished.transactionsAdded).toBe(7);
+
+        // Nothing older than the requested start date
+        const transactions = await prisma.transaction.findMany({ where: { userId }, orderBy: { date: 'asc' } });
+        expect(transactions).toHaveLength(9);
+        expect(transactions[0].date).toEqual(BACKFILL_START);
+
+        const edited = await prisma.transaction.findUniqueOrThrow({ where: { id: recent.id } });
+        expect(edited.notes).toBe('Weekly shop');
+
+        const [progress] = await BackfillService.getBackfillProgress(userId);
+        expect(progress.percentComplete).toBe(100);
+    });
+
+    test('should resume a failed backfill from the window it stopped on', async () => {
+        const [backfill] = await BackfillService.requestBackfill(userId, BACKFILL_START);
+        await BackfillService.runWindow(backfill.id);
+        await BackfillService.markFailed(backfill.id, 'ITEM_LOGIN_REQUIRED: simulated');
+
+        const [resumed] = await BackfillService.requestBackfill(userId, BACKFILL_START);
+        expect(resumed.id).toBe(backfill.id);
+        expect(resumed.status).toBe('QUEUED');
+        expect(resumed.windowsCompleted).toBe(1);
+
+        let done = false;
+        while (!done) {
+            ({ done } = await BackfillService.runWindow(resumed.id));
+        }
+
+        const finished = await prisma.backfill.findUniqueOrThrow({ where: { id: backfill.id } });
+        expect(finished.status).toBe('SUCCEEDED');
+        expect(finished.windowsCompleted).toBe(finished.windowsTotal);
+        expect(await prisma.transaction.count({ where: { userId } })).toBe(9);
+    });
+
+    test('should return the backfill already in progress', async () => {
+        const [first] = await BackfillService.requestBackfill(userId, BACKFILL_START);
+        const [second] = await BackfillService.requestBackfill(userId, new Date('2025-01-01'));
+        expect(second.id).toBe(first.id);
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(BACKFILL_EMAIL);
+    });
+});
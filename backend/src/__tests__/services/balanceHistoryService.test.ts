@@ -0,0 +1,96 @@
+import { prisma } from '../../lib/prisma';
+import { BalanceHistoryService } from '../../services/balanceHistoryService';
+import { TransactionSyncService } from '../../services/transactionSyncService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+process.env.BANK_DATA_PROVIDER = 'fixture';
+
+const BALANCE_EMAIL = 'balance-history@example.com';
+
+describe('BalanceHistoryService', () => {
+    let userId: string;
+    let itemId: string;
+
+    const accountByMask = (mask: string) => prisma.account.findFirstOrThrow({ where: { userId, mask } });
+
+    beforeEach(async () => {
+        const user = await createTestUser(BALANCE_EMAIL, [{
+            plaidItemId: 'item-fixture-new_transactions.balances',
+            accessToken: 'access-fixture-new_transactions.balances'
+        }]);
+        userId = user.id;
+        itemId = user.plaidItems[0].id;
+
+        await TransactionSyncService.syncItem(itemId);
+    });
+
+    test('should snapshot today\'s balance on sync', async () => {
+        const checking = await accountByMask('0001');
+        const snapshots = await prisma.balanceSnapshot.findMany({
+            where: { accountId: checking.id, source: 'sync' }
+        });
+
+        expect(snapshots).toHaveLength(1);
+        expect(snapshots[0].currentBalance).toBe(2450.12);
+        expect(snapshots[0].availableBalance).toBe(2400.12);
+    });
+
+    test('should backfill history by undoing transactions', async () => {
+        const checking = await accountByMask('0001');
+        const history = await BalanceHistoryService.getBalanceHistory(userId, checking.id, {
+            from: new Date('2026-08-31'),
+            to: new Date('2026-09-06'),
+            interval: 'day'
+        });
+
+        expect(history?.points.map(p => p.currentBalance)).toEqual([
+            990.11, 2540.11, 2540.11, 2540.11, 2540.11, 2540.11, 2450.12
+        ]);
+    });
+
+    test('should treat purchases as raising credit card balances', async () => {
+        const credit = await accountByMask('4242');
+        const history = await BalanceHistoryService.getBalanceHistory(userId, credit.id, {
+            from: new Date('2026-09-02'),
+            to: new Date('2026-09-05'),
+            interval: 'day'
+        });
+
+        expect(history?.points.map(p => p.currentBalance)).toEqual([467.49, 551.86, 596.96, 612.45]);
+    });
+
+    test('should use the closing balance of each month', async () => {
+        const checking = await accountByMask('0001');
+        const history = await BalanceHistoryService.getBalanceHistory(userId, checking.id, {
+            from: new Date('2026-07-01'),
+            to: new Date('2026-09-30'),
+            interval: 'month'
+        });
+
+        // Nothing before the day ahead of the first transaction
+        expect(history?.points).toEqual([
+            { date: '2026-08-01', currentBalance: 990.11, availableBalance: null },
+            { date: '2026-09-01', currentBalance: 2450.12, availableBalance: null }
+        ]);
+    });
+
+    test('should not backfill over existing snapshots', async () => {
+        const checking = await accountByMask('0001');
+        expect(await BalanceHistoryService.backfillAccount(checking.id)).toBe(0);
+    });
+
+    test('should return null for other users\' accounts', async () => {
+        const checking = await accountByMask('0001');
+        const history = await BalanceHistoryService.getBalanceHistory('someone-else', checking.id, {
+            from: new Date('2026-09-01'),
+            to: new Date('2026-09-30'),
+            interval: 'day'
+        });
+        expect(history).toBeNull();
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(BALANCE_EMAIL);
+        await prisma.$disconnect();
+    });
+});
@@ -0,0 +1,75 @@
+import { prisma } from '../../lib/prisma';
+
+// Investments are opt-in, so the flag has to be set before the services are loaded
+process.env.BANK_DATA_PROVIDER = 'fixture';
+process.env.ENABLE_INVESTMENTS = 'true';
+
+import { InvestmentService } from '../../services/investmentService';
+import { TransactionSyncService } from '../../services/transactionSyncService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const INVESTMENT_EMAIL = 'investments@example.com';
+
+describe('InvestmentService with the fixture provider', () => {
+    let userId: string;
+    let itemId: string;
+
+    beforeEach(async () => {
+        const user = await createTestUser(INVESTMENT_EMAIL, [{
+            plaidItemId: 'item-fixture-brokerage',
+            accessToken: 'access-fixture-brokerage',
+            institutionName: 'Fixture Brokerage'
+        }]);
+        userId = user.id;
+        itemId = user.plaidItems[0].id;
+    });
+
+    test('should sync holdings and investment transactions with the item', async () => {
+        const result = await TransactionSyncService.syncItem(itemId);
+        expect(result.success).toBe(true);
+
+        expect(await prisma.holding.count({ where: { userId } })).toBe(4);
+        expect(await prisma.investmentTransaction.count({ where: { userId } })).toBe(3);
+
+        // A second sync updates in place
+        await TransactionSyncService.syncItem(itemId);
+        expect(await prisma.holding.count({ where: { userId } })).toBe(4);
+        expect(await prisma.investmentTransaction.count({ where: { userId } })).toBe(3);
+    });
+
+    test('should report positions and unrealized gain/loss', async () => {
+        await TransactionSyncService.syncItem(itemId);
+
+        const { positions, totalValue } = await InvestmentService.getPositions(userId);
+        expect(totalValue).toBe(19190);
+
+        const apple = positions.find(p => p.security.tickerSymbol === 'AAPL');
+        expect(apple?.unrealizedGain).toBe(-360);
+        expect(apple?.unrealizedGainPercent).toBe(-8);
+
+        const cash = positions.find(p => p.security.tickerSymbol === 'CUR:USD');
+        expect(cash?.unrealizedGain).toBeNull();
+
+        const accounts = await InvestmentService.getAccountPerformance(userId);
+        const brokerage = accounts.find(a => a.name === 'Individual Brokerage');
+        expect(brokerage?.holdingsValue).toBe(13790);
+        expect(brokerage?.costBasis).toBe(11700);
+        expect(brokerage?.unrealizedGain).toBe(840);
+    });
+
+    test('should group allocation by asset type', async () => {
+        await TransactionSyncService.syncItem(itemId);
+
+        const { allocation } = await InvestmentService.getAllocation(userId);
+        expect(allocation.map(a => [a.type, a.value])).toEqual([
+            ['etf', 13800],
+            ['equity', 4140],
+            ['cash', 1250]
+        ]);
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(INVESTMENT_EMAIL);
+        await prisma.$disconnect();
+    });
+});
@@ -0,0 +1,71 @@
+import { prisma } from '../../lib/prisma';
+
+// Liabilities are opt-in, so the flag has to be set before the services are loaded
+process.env.BANK_DATA_PROVIDER = 'fixture';
+process.env.ENABLE_LIABILITIES = 'true';
+
+import { LiabilityService } from '../../services/liabilityService';
+import { TransactionSyncService } from '../../services/transactionSyncService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const LIABILITY_EMAIL = 'liabilities@example.com';
+
+describe('LiabilityService with the fixture provider', () => {
+    let userId: string;
+    let itemId: string;
+
+    const accountByMask = (mask: string) => prisma.account.findFirstOrThrow({ where: { userId, mask } });
+
+    beforeEach(async () => {
+        const user = await createTestUser(LIABILITY_EMAIL, [{
+            plaidItemId: 'item-fixture-liabilities',
+            accessToken: 'access-fixture-liabilities',
+            institutionName: 'Fixture Lending Co'
+        }]);
+        userId = user.id;
+        itemId = user.plaidItems[0].id;
+    });
+
+    test('should sync liabilities for credit and loan accounts', async () => {
+        const result = await TransactionSyncService.syncItem(itemId);
+        expect(result.success).toBe(true);
+        expect(await prisma.liability.count({ where: { userId } })).toBe(3);
+
+        const card = await accountByMask('4444');
+        const details = await LiabilityService.getAccountLiability(userId, card.id);
+        expect(details?.liability?.type).toBe('credit');
+        expect(details?.liability?.purchaseApr).toBe(22.99);
+        expect(details?.liability?.minimumPaymentAmount).toBe(35);
+        expect(details?.liability?.nextPaymentDueDate).toEqual(new Date('2026-10-25'));
+
+        const mortgage = await accountByMask('6666');
+        const loan = await LiabilityService.getAccountLiability(userId, mortgage.id);
+        expect(loan?.liability?.interestRateType).toBe('fixed');
+        expect(loan?.liability?.payoffDate).toEqual(new Date('2048-06-01'));
+    });
+
+    test('should not expose other users\' accounts', async () => {
+        await TransactionSyncService.syncItem(itemId);
+        const card = await accountByMask('4444');
+
+        expect(await LiabilityService.getAccountLiability('someone-else', card.id)).toBeNull();
+    });
+
+    test('should summarize balances, payments and rates', async () => {
+        await TransactionSyncService.syncItem(itemId);
+
+        const summary = await LiabilityService.getSummary(userId);
+        expect(summary.totalBalance).toBe(253500);
+        expect(summary.totalMinimumPayment).toBe(2035);
+        expect(summary.creditUtilization).toBe(30);
+        expect(summary.overdueCount).toBe(1);
+        expect(summary.byType.map(t => t.type).sort()).toEqual(['credit', 'mortgage', 'student']);
+        // (1500 * 22.99 + 12000 * 5.5 + 240000 * 4.25) / 253500
+        expect(summary.weightedAverageRate).toBe(4.42);
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(LIABILITY_EMAIL);
+        await prisma.$disconnect();
+    });
+});
@@ -0,0 +1,101 @@
+import { prisma } from '../../lib/prisma';
+import { AnalyticsService } from '../../services/analyticsService';
+import { BudgetSyncService } from '../../services/budgetSyncService';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const MANUAL_EMAIL = 'manual-entries@example.com';
+
+describe('ManualEntryService', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+        const user = await createTestUser(MANUAL_EMAIL);
+        userId = user.id;
+    });
+
+    test('should create accounts without a bank connection', async () => {
+        const wallet = await ManualEntryService.createAccount(userId, {
+            name: 'Wallet',
+            type: 'depository',
+            subtype: 'cash',
+            currentBalance: 120
+        });
+
+        expect(wallet.source).toBe('manual');
+        expect(wallet.plaidAccountId).toBeNull();
+        expect(wallet.itemId).toBeNull();
+        expect(await prisma.balanceSnapshot.count({ where: { accountId: wallet.id } })).toBe(1);
+    });
+
+    test('should categorize manual transactions and keep the balance in step', async () => {
+        const wallet = await ManualEntryService.createAccount(userId, { name: 'Wallet', type: 'depository', currentBalance: 120 });
+
+        const coffee = await ManualEntryService.createTransaction(userId, wallet, {
+            accountId: wallet.id,
+            name: 'Starbucks',
+            amount: 6.5,
+            date: new Date()
+        });
+        expect(coffee.source).toBe('manual');
+        expect(coffee.plaidTransactionId).toBeNull();
+        expect(coffee.primaryCategory).toBeTruthy();
+        expect(coffee.categoryOverridden).toBe(false);
+
+        let account = await prisma.account.findUniqueOrThrow({ where: { id: wallet.id } });
+        expect(account.currentBalance).toBe(113.5);
+
+        await ManualEntryService.updateTransaction(coffee, { amount: 8.5, category: 'Food & Dining' });
+        account = await prisma.account.findUniqueOrThrow({ where: { id: wallet.id } });
+        expect(account.currentBalance).toBe(111.5);
+
+        const edited = await prisma.transaction.findUniqueOrThrow({ where: { id: coffee.id } });
+        expect(edited.primaryCategory).toBe('Food & Dining');
+        expect(edited.categoryOverridden).toBe(true);
+
+        await ManualEntryService.deleteTransaction(edited);
+        account = await prisma.account.findUniqueOrThrow({ where: { id: wallet.id } });
+        expect(account.currentBalance).toBe(120);
+    });
+
+    test('should count manual transactions in budgets and analytics', async () => {
+        const carLoan = await ManualEntryService.createAccount(userId, { name: 'Car Loan', type: 'loan', currentBalance: 18000 });
+        const wallet = await ManualEntryService.createAccount(userId, { name: 'Wallet', type: 'depository', currentBalance: 200 });
+
+        const now = new Date();
+        await ManualEntryService.createTransaction(userId, wallet, {
+            accountId: wallet.id,
+            name: 'Farmers market',
+            amount: 40,
+            date: now,
+            category: 'Groceries'
+        });
+        await ManualEntryService.createTransaction(userId, carLoan, {
+            accountId: carLoan.id,
+            name: 'Loan interest',
+            amount: 55,
+            date: now,
+            category: 'Financial'
+        });
+
+        // Interest adds to what is owed on a loan
+        const loan = await prisma.account.findUniqueOrThrow({ where: { id: carLoan.id } });
+        expect(loan.currentBalance).toBe(18055);
+
+        const { startDate, endDate } = BudgetSyncService.createBudgetPeriod('MONTHLY', new Date(now.getFullYear(), now.getMonth(), 1));
+        const budget = await prisma.budget.create({
+            data: { userId, name: 'Groceries', category: 'Groceries', amount: 400, period: 'MONTHLY', startDate, endDate }
+        });
+        const spending = await BudgetSyncService.calculateBudgetSpending(budget);
+        expect(spending.spent).toBe(40);
+
+        const summary = await AnalyticsService.getMonthlySummary(userId, now.getFullYear());
+        expect(summary[now.getMonth()].expenses).toBe(95);
+        expect(summary[now.getMonth()].topCategory).toBe('Financial');
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(MANUAL_EMAIL);
+        await prisma.$disconnect();
+    });
+});
@@ -0,0 +1,154 @@
+import { prisma } from '../../lib/prisma';
+import { AnalyticsService } from '../../services/analyticsService';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { MerchantService } from '../../services/merchantService';
+import { Account } from '../../../prisma/generated/prisma';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const MERCHANT_EMAIL = 'merchants@example.com';
+
+describe('MerchantService', () => {
+    let userId: string;
+    let account: Account;
+
+    const enter = (name: string, amount: number, date: string, merchantName: string | null = null) =>
+        ManualEntryService.createTransaction(userId, account, {
+            accountId: account.id,
+            name,
+            merchantName,
+            amount,
+            date: new Date(date)
+        });
+
+    beforeEach(async () => {
+        const user = await createTestUser(MERCHANT_EMAIL);
+        userId = user.id;
+        account = await ManualEntryService.createAccount(userId, { name: 'Card', type: 'credit' });
+    });
+
+    test('should resolve differently spelled names to one merchant', async () => {
+        const first = await enter('POS DEBIT 0423 SQ *BLUE BOTTLE #12', 5.5, '2026-09-01');
+        const second = await enter('SQ *BLUE BOTTLE #7', 6.25, '2026-09-03');
+        const third = await enter('BLUE BOTTLE COFFEE 0915', 4.75, '2026-09-15', 'Blue Bottle');
+
+        expect(first.merchantId).not.toBeNull();
+        expect(second.merchantId).toBe(first.merchantId);
+        expect(third.merchantId).toBe(first.merchantId);
+
+        const merchants = await MerchantService.getMerchants(userId);
+        expect(merchants.map(merchant => [merchant.name, merchant.transactionCount])).toEqual([['Blue Bottle', 3]]);
+
+        const [top] = await AnalyticsService.getTopMerchants(userId, 5);
+        expect(top.name).toBe('Blue Bottle');
+        expect(top.transactionCount).toBe(3);
+        expect(top.totalSpent).toBeCloseTo(16.5);
+    });
+
+    test('should keep old names resolving after a rename and give new transactions the default category', async () => {
+        const first = await enter('TST* JOES PIZZA 04/23', 32, '2026-09-02');
+        const merchant = await prisma.merchant.findUniqueOrThrow({ where: { id: first.merchantId! } });
+
+        await MerchantService.updateMerchant(merchant, {
+            name: "Joe's Pizzeria",
+            defaultCategory: 'Food & Dining',
+            website: 'https://joes.example.com',
+            logoUrl: null
+        });
+
+        const second = await enter('TST* JOES PIZZA 05/01', 28, '2026-09-20');
+        expect(second.merchantId).toBe(merchant.id);
+        expect(second.primaryCategory).toBe('Food & Dining');
+
+        const aliases = await prisma.merchantAlias.findMany({ where: { merchantId: merchant.id } });
+        expect(aliases.map(alias => alias.pattern)).toEqual(['joes pizza']);
+    });
+
+    test('should merge merchants and move transactions with alias rules', async () => {
+        const amazon = await enter('AMAZON.COM*MK1234AB', 40, '2026-09-05');
+        const marketplace = await enter('AMZN MKTP US*2K4XY1230', 25, '2026-09-08');
+        const prime = await enter('AMZN PRIME VIDEO', 8.99, '2026-09-09');
+
+        const [target, source] = await Promise.all([
+            prisma.merchant.findUniqueOrThrow({ where: { id: amazon.merchantId! } }),
+            prisma.merchant.findUniqueOrThrow({ where: { id: marketplace.merchantId! } })
+        ]);
+        expect(source.id).not.toBe(target.id);
+
+        const merged = await MerchantService.mergeMerchants(target, [source]);
+        expect(merged._count.transactions).toBe(2);
+        expect(await prisma.merchant.count({ where: { id: source.id } })).toBe(0);
+
+        // A later transaction spelled like the merged merchant lands on the target
+        const later = await enter('AMZN MKTP US*9ZZ1110000', 12, '2026-09-25');
+        expect(later.merchantId).toBe(target.id);
+
+        // An alias rule folds in the merchants it covers, with their transactions
+        const alias = await MerchantService.addAlias(target, 'AMZN');
+        expect(alias!.pattern).toBe('amzn');
+        const moved = await prisma.transaction.findUniqueOrThrow({ where: { id: prime.id } });
+        expect(moved.merchantId).toBe(target.id);
+
+        const digital = await enter('AMZN DIGITAL 0101', 3.99, '2026-09-28');
+        expect(digital.merchantId).toBe(target.id);
+
+        // Without the rule, names it alone covered resolve to a merchant of their own again
+        await MerchantService.removeAlias(alias!);
+        const restored = await prisma.transaction.findUniqueOrThrow({ where: { id: digital.id } });
+        expect(restored.merchantId).not.toBe(target.id);
+        expect((await prisma.transaction.findUniqueOrThrow({ where: { id: prime.id } })).merchantId).toBe(target.id);
+    });
+
+    test('should only extend names to longer ones through alias rules', async () => {
+        const ride = await enter('UBER', 18, '2026-09-11');
+        const food = await enter('UBER EATS', 24, '2026-09-12');
+        expect(food.merchantId).not.toBe(ride.merchantId);
+
+        const uber = await prisma.merchant.findUniqueOrThrow({ where: { id: ride.merchantId! } });
+        await MerchantService.addAlias(uber, 'Uber');
+        const later = await enter('UBER EATS PENDING', 9, '2026-09-13');
+        expect(later.merchantId).toBe(uber.id);
+    });
+
+    test('should only store new merchants with the rows that use them', async () => {
+        const resolver = await MerchantService.resolver(userId);
+        const row = { merchantId: resolver.resolve('NETFLIX.COM')?.id };
+        expect(await prisma.merchant.count({ where: { userId } })).toBe(0);
+
+        // Another write stored the same merchant in the meantime
+        const stored = await prisma.merchant.create({ data: { userId, name: 'Netflix' } });
+        await prisma.$transaction(tx => resolver.save(tx, [row]));
+
+        expect(row.merchantId).toBe(stored.id);
+        expect(resolver.resolve('NETFLIX.COM')!.id).toBe(stored.id);
+        expect(await prisma.merchant.count({ where: { userId } })).toBe(1);
+    });
+
+    test('should keep transactions without a merchant in top merchants by their merchant name', async () => {
+        await enter('NETFLIX.COM', 15.49, '2026-09-10');
+        const legacy = await enter('SQ *BLUE BOTTLE #7', 6.25, '2026-09-03', 'Blue Bottle');
+        await prisma.transaction.update({ where: { id: legacy.id }, data: { merchantId: null } });
+
+        const top = await AnalyticsService.getTopMerchants(userId, 5);
+        expect(top.map(merchant => [merchant.name, merchant.merchantId === null])).toEqual([
+            ['Netflix', false],
+            ['Blue Bottle', true]
+        ]);
+    });
+
+    test('should assign merchants to transactions stored before merchants existed', async () => {
+        const transaction = await enter('NETFLIX.COM', 15.49, '2026-09-10');
+        await prisma.transaction.update({ where: { id: transaction.id }, data: { merchantId: null } });
+
+        expect(await MerchantService.assignMerchants(userId)).toBe(1);
+        const assigned = await prisma.transaction.findUniqueOrThrow({
+            where: { id: transaction.id },
+            include: { merchant: true }
+        });
+        expect(assigned.merchant!.name).toBe('Netflix');
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(MERCHANT_EMAIL);
+        await prisma.$disconnect();
+    });
+});
@@ -0,0 +1,89 @@
+import { prisma } from '../../lib/prisma';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { parseReportMonth, ReportService } from '../../services/reportService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const REPORT_EMAIL = 'report@example.com';
+
+describe('ReportService', () => {
+    let userId: string;
+
+    beforeAll(async () => {
+        const user = await createTestUser(REPORT_EMAIL);
+        userId = user.id;
+
+        const checking = await ManualEntryService.createAccount(userId, { name: 'Checking', type: 'depository', currentBalance: 2000 });
+        const entries = [
+            { name: 'Paycheck', amount: -3000, date: '2026-09-01', category: 'Income' },
+            { name: 'Whole Foods', merchantName: 'Whole Foods', amount: 120, date: '2026-09-04', category: 'Groceries' },
+            { name: 'Whole Foods', merchantName: 'Whole Foods', amount: 80, date: '2026-09-18', category: 'Groceries' },
+            { name: 'Shell', merchantName: 'Shell', amount: 45, date: '2026-09-20', category: 'Transportation' },
+            // Outside the month
+            { name: 'Whole Foods', merchantName: 'Whole Foods', amount: 500, date: '2026-08-30', category: 'Groceries' }
+        ];
+        for (const entry of entries) {
+            await ManualEntryService.createTransaction(userId, checking, {
+                accountId: checking.id,
+                ...entry,
+                date: new Date(entry.date)
+            });
+        }
+
+        await prisma.budget.create({
+            data: {
+                userId,
+                name: 'Food',
+                category: 'Groceries',
+                amount: 150,
+                startDate: new Date('2026-09-01'),
+                endDate: new Date('2026-09-30T23:59:59.999Z')
+            }
+        });
+        await prisma.savingsGoal.create({
+            data: { userId, name: 'Vacation', targetAmount: 1000, currentAmount: 250, targetDate: new Date('2027-06-01') }
+        });
+    });
+
+    test('should only accept months that have started', () => {
+        expect(parseReportMonth('2026-09')).toEqual({
+            start: new Date('2026-09-01T00:00:00.000Z'),
+            end: new Date('2026-09-30T23:59:59.999Z')
+        });
+        expect(parseReportMonth('2026-13')).toBeNull();
+        expect(parseReportMonth('September')).toBeNull();
+        expect(parseReportMonth('2999-01')).toBeNull();
+    });
+
+    test('should gather the month the same way the dashboard does', async () => {
+        const statement = await ReportService.getMonthlyStatement(userId, '2026-09');
+
+        expect(statement.label).toBe('September 2026');
+        expect(statement.summary).toEqual({ income: 3000, expenses: 245, netAmount: 2755, transactionCount: 4 });
+        expect(statement.categories.map(item => [item.category, item.amount])).toEqual([
+            ['Groceries', 200],
+            ['Transportation', 45]
+        ]);
+        expect(statement.merchants[0]).toEqual({ name: 'Whole Foods', totalSpent: 200, transactionCount: 2 });
+
+        // A past month's budget is measured over the month, not as of today
+        expect(statement.budgets).toHaveLength(1);
+        expect(statement.budgets[0].spent).toBe(200);
+        expect(statement.budgets[0].remaining).toBe(-50);
+
+        expect(statement.goals[0].progressPercentage).toBe(25);
+        expect(statement.accounts).toHaveLength(1);
+    });
+
+    test('should render a PDF', async () => {
+        const statement = await ReportService.getMonthlyStatement(userId, '2026-09');
+        const pdf = ReportService.renderMonthlyStatement(statement);
+
+        expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+        expect(pdf.toString('latin1')).toContain('(Monthly Statement - September 2026)');
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(REPORT_EMAIL);
+        await prisma.$disconnect();
+    });
+});
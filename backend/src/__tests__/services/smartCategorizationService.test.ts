@@ -0,0 +1,53 @@
+import { prisma } from '../../lib/prisma';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { SmartCategorizationService } from '../../services/smartCategorizationService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const OWNER_EMAIL = 'categorization-owner@example.com';
+const OTHER_EMAIL = 'categorization-other@example.com';
+
+describe('SmartCategorizationService', () => {
+    let ownerId: string;
+    let otherId: string;
+    let transactionId: string;
+
+    beforeEach(async () => {
+        const [owner, other] = await Promise.all([createTestUser(OWNER_EMAIL), createTestUser(OTHER_EMAIL)]);
+        ownerId = owner.id;
+        otherId = other.id;
+
+        const account = await ManualEntryService.createAccount(ownerId, { name: 'Checking', type: 'depository' });
+        const transaction = await ManualEntryService.createTransaction(ownerId, account, {
+            accountId: account.id, name: 'ZORBLAX 0042', amount: 35, date: new Date('2026-09-04'), category: 'Travel'
+        });
+        transactionId = transaction.id;
+    });
+
+    test('should only learn merchant categories from the user\'s own transactions', async () => {
+        await SmartCategorizationService.initializePatterns(ownerId);
+        await SmartCategorizationService.initializePatterns(otherId);
+
+        const own = await SmartCategorizationService.categorizeTransaction(ownerId, 'ZORBLAX 0077');
+        expect(own).toEqual({ category: 'Travel', confidence: 0.95, method: 'exact_merchant' });
+
+        const other = await SmartCategorizationService.categorizeTransaction(otherId, 'ZORBLAX 0077');
+        expect(other.method).not.toBe('exact_merchant');
+        expect(other.category).not.toBe('Travel');
+    });
+
+    test('should keep a correction to the user who made it', async () => {
+        await SmartCategorizationService.initializePatterns(otherId);
+        await SmartCategorizationService.learnFromCorrection(transactionId, 'Travel', 'Shopping');
+
+        const own = await SmartCategorizationService.categorizeTransaction(ownerId, 'ZORBLAX 0077');
+        expect(own.category).toBe('Shopping');
+
+        const other = await SmartCategorizationService.categorizeTransaction(otherId, 'ZORBLAX 0077');
+        expect(other.category).not.toBe('Shopping');
+    });
+
+    afterAll(async () => {
+        await Promise.all([deleteTestUser(OWNER_EMAIL), deleteTestUser(OTHER_EMAIL)]);
+        await prisma.$disconnect();
+    });
+});
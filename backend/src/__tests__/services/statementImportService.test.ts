@@ -0,0 +1,106 @@
+import { prisma } from '../../lib/prisma';
+import { StatementParseError } from '../../lib/statementParser';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { StatementImportService } from '../../services/statementImportService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const IMPORT_EMAIL = 'statement-import@example.com';
+
+const CSV = [
+    'Date,Description,Amount',
+    '09/03/2026,SAFEWAY #1190,-42.17',
+    '09/04/2026,STARBUCKS 1182,-5.25',
+    '09/05/2026,ACME CORP PAYROLL,3200.00'
+].join('\n');
+
+describe('StatementImportService', () => {
+    let userId: string;
+    let accountId: string;
+    let profileId: string;
+
+    beforeEach(async () => {
+        const user = await createTestUser(IMPORT_EMAIL);
+        userId = user.id;
+
+        const profile = await prisma.importProfile.create({
+            data: {
+                userId,
+                name: 'Credit Union CSV',
+                dateColumn: 'Date',
+                dateFormat: 'MM/DD/YYYY',
+                descriptionColumn: 'Description',
+                amountColumn: 'Amount'
+            }
+        });
+        profileId = profile.id;
+
+        const account = await ManualEntryService.createAccount(userId, { name: 'Credit Union Checking', type: 'depository' });
+        accountId = account.id;
+
+        // Already entered by hand, a day later than the statement's posting date
+        await prisma.transaction.create({
+            data: {
+                userId,
+                accountId,
+                source: 'manual',
+                name: 'Safeway',
+                amount: 42.17,
+                date: new Date('2026-09-04'),
+                categories: []
+            }
+        });
+    });
+
+    test('should preview a CSV with duplicates flagged', async () => {
+        const preview = await StatementImportService.createPreview(userId, { content: CSV, profileId, fileName: 'september.csv' });
+
+        expect(preview.status).toBe('PREVIEW');
+        expect(preview.format).toBe('csv');
+        expect(preview.rowCount).toBe(3);
+        expect(preview.duplicateCount).toBe(1);
+
+        // Nothing is written until the import is committed
+        expect(await prisma.transaction.count({ where: { userId } })).toBe(1);
+    });
+
+    test('should require a mapping profile for CSV files', async () => {
+        await expect(StatementImportService.createPreview(userId, { content: CSV })).rejects.toThrow(StatementParseError);
+    });
+
+    test('should commit new rows into the chosen account', async () => {
+        const preview = await StatementImportService.createPreview(userId, { content: CSV, profileId });
+        const account = await prisma.account.findUniqueOrThrow({ where: { id: accountId } });
+
+        const committed = await StatementImportService.commit(preview, account);
+        expect(committed?.status).toBe('COMMITTED');
+        expect(committed?.importedCount).toBe(2);
+
+        const imported = await prisma.transaction.findMany({
+            where: { importId: preview.id },
+            orderBy: { date: 'asc' }
+        });
+        expect(imported.map(t => t.name)).toEqual(['STARBUCKS 1182', 'ACME CORP PAYROLL']);
+        expect(imported.every(t => t.source === 'import' && t.accountId === accountId)).toBe(true);
+        expect(imported.every(t => t.primaryCategory)).toBe(true);
+        expect(imported[1].amount).toBe(-3200);
+
+        // Uploading the same statement again finds every row already there
+        const again = await StatementImportService.createPreview(userId, { content: CSV, profileId, accountId });
+        expect(again.duplicateCount).toBe(3);
+    });
+
+    test('should not commit an import that was committed since it was read', async () => {
+        const preview = await StatementImportService.createPreview(userId, { content: CSV, profileId });
+        const account = await prisma.account.findUniqueOrThrow({ where: { id: accountId } });
+
+        expect(await StatementImportService.commit(preview, account)).not.toBeNull();
+        // A second request that loaded the import before the first one finished
+        expect(await StatementImportService.commit(preview, account, { includeDuplicates: true })).toBeNull();
+        expect(await prisma.transaction.count({ where: { importId: preview.id } })).toBe(2);
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(IMPORT_EMAIL);
+        await prisma.$disconnect();
+    });
+});
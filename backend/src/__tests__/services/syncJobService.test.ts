@@ -0,0 +1,171 @@
+import { prisma } from '../../lib/prisma';
+import { SyncJob } from '../../../prisma/generated/prisma';
+import { SyncJobService } from '../../services/syncJobService';
+import { TransactionSyncService } from '../../services/transactionSyncService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+process.env.BANK_DATA_PROVIDER = 'fixture';
+
+const JOB_EMAIL = 'sync-jobs@example.com';
+
+const failedResult = (errorCode: string) => ({
+    success: false,
+    newTransactions: 0,
+    updatedTransactions: 0,
+    removedTransactions: 0,
+    newAccounts: 0,
+    error: `${errorCode}: simulated`,
+    errorCode
+});
+
+describe('SyncJobService', () => {
+    let userId: string;
+    let itemId: string;
+
+    beforeEach(async () => {
+        const user = await createTestUser(JOB_EMAIL, [{
+            plaidItemId: 'item-fixture-new_transactions.jobs',
+            accessToken: 'access-fixture-new_transactions.jobs'
+        }]);
+        userId = user.id;
+        itemId = user.plaidItems[0].id;
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should keep a single queued job per item', async () => {
+        const first = await SyncJobService.enqueueItem(itemId, 'manual');
+        const second = await SyncJobService.enqueueItem(itemId, 'webhook');
+        expect(second.id).toBe(first.id);
+
+        const jobs = await SyncJobService.enqueueUser(userId, 'manual', { fullResync: true });
+        expect(jobs).toHaveLength(1);
+        expect(jobs[0].fullResync).toBe(true);
+    });
+
+    test('should make a job backing off due again when a user triggers a sync', async () => {
+        const job = await SyncJobService.enqueueItem(itemId, 'hourly');
+        const backoff = new Date(Date.now() + 30 * 60 * 1000);
+        await prisma.syncJob.update({ where: { id: job.id }, data: { nextRunAt: backoff } });
+
+        const scheduled = await SyncJobService.enqueueItem(itemId, 'scheduled');
+        expect(scheduled.trigger).toBe('hourly');
+        expect(scheduled.nextRunAt).toEqual(backoff);
+
+        const manual = await SyncJobService.enqueueItem(itemId, 'manual');
+        expect(manual.id).toBe(job.id);
+        expect(manual.trigger).toBe('manual');
+        expect(manual.nextRunAt.getTime()).toBeLessThanOrEqual(Date.now());
+    });
+
+    test('should run queued jobs and record success', async () => {
+        const job = await SyncJobService.enqueueItem(itemId, 'manual');
+
+        await SyncJobService.poll();
+        await SyncJobService.stopWorker();
+
+        const finished = await prisma.syncJob.findUnique({ where: { id: job.id } });
+        expect(finished?.status).toBe('SUCCEEDED');
+        expect(finished?.attempts).toBe(1);
+
+        const count = await prisma.transaction.count({ where: { userId } });
+        expect(count).toBe(6);
+
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        expect(user?.syncStatus).toBe('SYNCED');
+    });
+
+    test('should back off and retry on rate limit errors', async () => {
+        jest.spyOn(TransactionSyncService, 'syncItem').mockResolvedValue(failedResult('TRANSACTIONS_SYNC_LIMIT'));
+        const job = await SyncJobService.enqueueItem(itemId, 'manual');
+
+        await SyncJobService.poll();
+        await SyncJobService.stopWorker();
+
+        const retried = await prisma.syncJob.findUnique({ where: { id: job.id } });
+        expect(retried?.status).toBe('QUEUED');
+        expect(retried?.attempts).toBe(1);
+        expect(retried?.lastError).toContain('TRANSACTIONS_SYNC_LIMIT');
+        expect(retried!.nextRunAt.getTime()).toBeGreaterThan(Date.now() + 50 * 1000);
+    });
+
+    test('should leave the retry to a job queued while the failing one ran', async () => {
+        let queued: SyncJob | undefined;
+        jest.spyOn(TransactionSyncService, 'syncItem').mockImplementation(async () => {
+            queued = await SyncJobService.enqueueItem(itemId, 'webhook');
+            return failedResult('TRANSACTIONS_SYNC_LIMIT');
+        });
+        const job = await SyncJobService.enqueueItem(itemId, 'manual');
+
+        await SyncJobService.poll();
+        await SyncJobService.stopWorker();
+
+        expect(queued!.id).not.toBe(job.id);
+        const failed = await prisma.syncJob.findUnique({ where: { id: job.id } });
+        expect(failed?.status).toBe('FAILED');
+        const retry = await prisma.syncJob.findUnique({ where: { id: queued!.id } });
+        expect(retry?.status).toBe('QUEUED');
+        expect(retry!.nextRunAt.getTime()).toBeGreaterThan(Date.now() + 50 * 1000);
+    });
+
+    test('should claim one job per item', async () => {
+        const job = await SyncJobService.enqueueItem(itemId, 'manual');
+        // A backfill window queued behind the sync for the same item
+        const backfill = await prisma.backfill.create({
+            data: {
+                userId,
+                itemId,
+                startDate: new Date('2025-01-01'),
+                endDate: new Date('2025-06-01'),
+                windowEnd: new Date('2025-06-01')
+            }
+        });
+        await SyncJobService.enqueueBackfill(backfill);
+        const claimed = jest.spyOn(TransactionSyncService, 'syncItem');
+
+        await SyncJobService.poll();
+        await SyncJobService.stopWorker();
+
+        const jobs = await prisma.syncJob.findMany({ where: { itemId }, orderBy: { createdAt: 'asc' } });
+        expect(jobs.map(j => [j.id === job.id, j.attempts])).toEqual([[true, 1], [false, 0]]);
+        expect(claimed).toHaveBeenCalledTimes(1);
+    });
+
+    test('should retry jobs abandoned by a worker until they run out of attempts', async () => {
+        const job = await SyncJobService.enqueueItem(itemId, 'manual');
+        const abandon = (attempts: number) => prisma.syncJob.update({
+            where: { id: job.id },
+            data: { status: 'RUNNING', attempts, startedAt: new Date(Date.now() - 60 * 60 * 1000) }
+        });
+
+        await abandon(1);
+        await SyncJobService.poll();
+        const retried = await prisma.syncJob.findUniqueOrThrow({ where: { id: job.id } });
+        expect(retried.status).toBe('QUEUED');
+        expect(retried.attempts).toBe(1);
+        expect(retried.lastError).toBe('Worker stopped before the job finished');
+
+        await abandon(retried.maxAttempts);
+        await SyncJobService.poll();
+        const jobs = await prisma.syncJob.findMany({ where: { itemId } });
+        expect(jobs.map(j => [j.id, j.status])).toEqual([[job.id, 'FAILED']]);
+    });
+
+    test('should not retry jobs that need the user to re-authenticate', async () => {
+        jest.spyOn(TransactionSyncService, 'syncItem').mockResolvedValue(failedResult('ITEM_LOGIN_REQUIRED'));
+        const job = await SyncJobService.enqueueItem(itemId, 'manual');
+
+        await SyncJobService.poll();
+        await SyncJobService.stopWorker();
+
+        const failed = await prisma.syncJob.findUnique({ where: { id: job.id } });
+        expect(failed?.status).toBe('FAILED');
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(JOB_EMAIL);
+        await prisma.$disconnect();
+    });
+});
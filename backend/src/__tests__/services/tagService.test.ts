@@ -0,0 +1,79 @@
+import { prisma } from '../../lib/prisma';
+import { AnalyticsService } from '../../services/analyticsService';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { TagService } from '../../services/tagService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const TAG_EMAIL = 'tags@example.com';
+
+describe('TagService', () => {
+    let userId: string;
+    let transactionIds: string[];
+
+    beforeEach(async () => {
+        const user = await createTestUser(TAG_EMAIL);
+        userId = user.id;
+
+        const account = await ManualEntryService.createAccount(userId, { name: 'Card', type: 'credit' });
+        const entries = [
+            { name: 'Hotel Lisboa', amount: 420, date: '2026-07-02', category: 'Travel' },
+            { name: 'Tram 28', amount: 12, date: '2026-07-03', category: 'Transportation' },
+            { name: 'Client dinner', amount: 95, date: '2026-07-03', category: 'Food & Dining' },
+            { name: 'Expense report payout', amount: -95, date: '2026-07-20', category: 'Income' }
+        ];
+        transactionIds = [];
+        for (const entry of entries) {
+            const transaction = await ManualEntryService.createTransaction(userId, account, {
+                accountId: account.id,
+                ...entry,
+                date: new Date(entry.date)
+            });
+            transactionIds.push(transaction.id);
+        }
+    });
+
+    test('should tag transactions in bulk and break spending down by tag', async () => {
+        const vacation = await prisma.tag.create({ data: { userId, name: 'vacation-2026' } });
+        const reimbursable = await prisma.tag.create({ data: { userId, name: 'reimbursable', color: '#3366ff' } });
+
+        expect(await TagService.attachTag(vacation, transactionIds.slice(0, 3))).toBe(3);
+        // Already tagged ones are skipped
+        expect(await TagService.attachTag(vacation, transactionIds.slice(0, 2))).toBe(0);
+        await TagService.attachTag(reimbursable, [transactionIds[2], transactionIds[3]]);
+
+        const tags = await AnalyticsService.getTagSpending(userId, {
+            from: new Date('2026-07-01'),
+            to: new Date('2026-07-31')
+        });
+
+        expect(tags.map(tag => [tag.name, tag.totalSpent, tag.income, tag.transactionCount])).toEqual([
+            ['vacation-2026', 527, 0, 3],
+            ['reimbursable', 95, 95, 2]
+        ]);
+        expect(tags[0].categories[0]).toEqual({ category: 'Travel', amount: 420 });
+
+        expect(await TagService.detachTag(vacation, [transactionIds[2]])).toBe(1);
+    });
+
+    test('should merge tags into one', async () => {
+        const trip = await prisma.tag.create({ data: { userId, name: 'trip' } });
+        const lisbon = await prisma.tag.create({ data: { userId, name: 'lisbon' } });
+        await TagService.attachTag(trip, transactionIds.slice(0, 2));
+        await TagService.attachTag(lisbon, transactionIds.slice(1, 3));
+
+        const merged = await TagService.mergeTags(trip, [lisbon]);
+
+        expect(merged._count.transactions).toBe(3);
+        expect(await prisma.tag.findUnique({ where: { id: lisbon.id } })).toBeNull();
+        expect((await TagService.getTags(userId)).map(tag => [tag.name, tag.transactionCount])).toEqual([['trip', 3]]);
+    });
+
+    test('should find transactions that belong to someone else', async () => {
+        expect(await TagService.findForeignTransactions(userId, [transactionIds[0], 'not-a-transaction'])).toEqual(['not-a-transaction']);
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(TAG_EMAIL);
+        await prisma.$disconnect();
+    });
+});
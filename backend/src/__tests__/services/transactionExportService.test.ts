@@ -0,0 +1,109 @@
+import { PassThrough } from 'stream';
+import { prisma } from '../../lib/prisma';
+import { parseSearchQuery } from '../../lib/searchQuery';
+import { parseOfxStatement } from '../../lib/statementParser';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { ExportFormat, TransactionExportService } from '../../services/transactionExportService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const EXPORT_EMAIL = 'export@example.com';
+
+describe('TransactionExportService', () => {
+    let userId: string;
+
+    const exportAs = async (format: ExportFormat, where: object = {}) => {
+        const out = new PassThrough();
+        const chunks: Buffer[] = [];
+        out.on('data', chunk => chunks.push(chunk));
+
+        await TransactionExportService.streamTransactions({ userId, ...where }, format, out);
+        return Buffer.concat(chunks).toString('utf8');
+    };
+
+    beforeAll(async () => {
+        const user = await createTestUser(EXPORT_EMAIL);
+        userId = user.id;
+
+        const wallet = await ManualEntryService.createAccount(userId, { name: 'Wallet', type: 'depository', currentBalance: 500 });
+        const card = await ManualEntryService.createAccount(userId, { name: 'Store Card', type: 'credit', mask: '7777' });
+
+        await ManualEntryService.createTransaction(userId, wallet, {
+            accountId: wallet.id,
+            name: 'Farmers market, stall 4',
+            amount: 23.5,
+            date: new Date('2026-09-02'),
+            category: 'Groceries',
+            notes: 'Said "thanks" twice'
+        });
+        await ManualEntryService.createTransaction(userId, wallet, {
+            accountId: wallet.id,
+            name: 'Birthday money',
+            amount: -100,
+            date: new Date('2026-09-05'),
+            category: 'Income'
+        });
+        await ManualEntryService.createTransaction(userId, card, {
+            accountId: card.id,
+            name: '=HYPERLINK("x")',
+            amount: 60,
+            date: new Date('2026-09-03'),
+            category: 'Shopping'
+        });
+    });
+
+    test('should export CSV with notes and categories, newest first', async () => {
+        const csv = await exportAs('csv');
+        const lines = csv.trim().split('\r\n');
+
+        expect(lines[0]).toBe('Date,Name,Merchant,Amount,Category,Detailed Category,Categories,Account,Account Mask,Pending,Source,Notes');
+        expect(lines).toHaveLength(4);
+        expect(lines[1]).toMatch(/^2026-09-05,Birthday money,,-100,Income,/);
+        // Formula-looking text is neutralized
+        expect(lines[2]).toContain('"\'=HYPERLINK(""x"")"');
+        expect(lines[3]).toContain('"Farmers market, stall 4"');
+        expect(lines[3]).toContain('"Said ""thanks"" twice"');
+    });
+
+    test('should export the matches of a search that pass the filters', async () => {
+        const out = new PassThrough();
+        const chunks: Buffer[] = [];
+        out.on('data', chunk => chunks.push(chunk));
+
+        await TransactionExportService.streamSearchResults(userId, parseSearchQuery('market OR money')!, { type: 'expense' }, 'json', out);
+        const transactions = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+
+        expect(transactions.map((t: { name: string }) => t.name)).toEqual(['Farmers market, stall 4']);
+    });
+
+    test('should export JSON that parses', async () => {
+        const transactions = JSON.parse(await exportAs('json', { amount: { gt: 0 } }));
+
+        expect(transactions).toHaveLength(2);
+        expect(transactions[1].notes).toBe('Said "thanks" twice');
+        expect(transactions[1].primaryCategory).toBe('Groceries');
+    });
+
+    test('should export OFX grouped by account that reads back in', async () => {
+        const ofx = await exportAs('ofx');
+
+        expect(ofx.match(/<STMTRS>/g)).toHaveLength(2);
+        expect(ofx).toContain('<ACCTTYPE>CREDITLINE');
+
+        const rows = parseOfxStatement(ofx);
+        expect(rows.map(row => row.amount).sort((a, b) => a - b)).toEqual([-100, 23.5, 60]);
+        expect(ofx).toContain('<MEMO>Groceries - Said "thanks" twice');
+    });
+
+    test('should export QIF with a block per account', async () => {
+        const qif = await exportAs('qif');
+
+        expect(qif).toContain('!Account\nNWallet\nTBank\n^\n!Type:Bank');
+        expect(qif).toContain('!Type:CCard');
+        expect(qif).toContain('D09/02/2026\nT-23.50\nPFarmers market, stall 4\nLGroceries\nMSaid "thanks" twice\n^');
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(EXPORT_EMAIL);
+        await prisma.$disconnect();
+    });
+});
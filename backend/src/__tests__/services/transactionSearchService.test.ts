@@ -0,0 +1,86 @@
+import { prisma } from '../../lib/prisma';
+import { parseSearchQuery } from '../../lib/searchQuery';
+import { TransactionFilters } from '../../lib/transactionFilters';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { TransactionSearchService } from '../../services/transactionSearchService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const SEARCH_EMAIL = 'search@example.com';
+
+describe('TransactionSearchService', () => {
+    let userId: string;
+    const ids: Record<string, string> = {};
+
+    beforeAll(async () => {
+        const user = await createTestUser(SEARCH_EMAIL);
+        userId = user.id;
+
+        const account = await ManualEntryService.createAccount(userId, { name: 'Card', type: 'credit' });
+        const entries = [
+            { key: 'bottle', name: 'SQ *BLUE BOTTLE #12', merchantName: 'Blue Bottle Coffee', amount: 6.5, notes: null },
+            { key: 'lunch', name: 'Corner Deli', merchantName: null, amount: 14, notes: 'Lunch before the blue bottle tasting with Sam & Alex' },
+            { key: 'refund', name: 'Blue Bottle Coffee refund', merchantName: 'Blue Bottle Coffee', amount: -6.5, notes: null },
+            { key: 'hardware', name: 'Home Depot', merchantName: 'The Home Depot', amount: 86.2, notes: 'Paint for the bedroom' }
+        ];
+        for (const entry of entries) {
+            const transaction = await ManualEntryService.createTransaction(userId, account, {
+                accountId: account.id,
+                name: entry.name,
+                merchantName: entry.merchantName,
+                amount: entry.amount,
+                notes: entry.notes,
+                date: new Date('2026-10-01')
+            });
+            ids[entry.key] = transaction.id;
+        }
+    });
+
+    const search = async (input: string, filters: TransactionFilters = {}, page: { skip?: number; take?: number } = {}) =>
+        (await TransactionSearchService.search(userId, parseSearchQuery(input)!, filters, { order: 'relevance', ...page }))
+            .map(match => match.id);
+
+    test('should find words in the merchant and notes, ranking name matches first', async () => {
+        const results = await search('"blue bottle"');
+        expect(results).toHaveLength(3);
+        expect(results[results.length - 1]).toBe(ids.lunch);
+
+        expect(await search('paint')).toEqual([ids.hardware]);
+        expect(await search('depo')).toEqual([ids.hardware]);
+    });
+
+    test('should honour exclusions and OR', async () => {
+        expect(await search('"blue bottle" -refund')).toEqual(expect.not.arrayContaining([ids.refund]));
+        expect((await search('deli OR depot')).sort()).toEqual([ids.lunch, ids.hardware].sort());
+    });
+
+    test('should filter and page in the same query as the text match', async () => {
+        const all = await search('"blue bottle"');
+
+        expect(await search('"blue bottle"', { type: 'expense' })).toEqual(all.filter(id => id !== ids.refund));
+        expect(await search('"blue bottle"', { amountMin: 10 })).toEqual([ids.lunch]);
+        expect(await search('"blue bottle"', {}, { skip: 1, take: 1 })).toEqual([all[1]]);
+
+        const summary = await TransactionSearchService.summarize(userId, parseSearchQuery('"blue bottle"')!, {});
+        expect(summary).toEqual({
+            count: 3,
+            totalAmount: 14,
+            income: 6.5,
+            incomeCount: 1,
+            expenses: 20.5,
+            expenseCount: 2
+        });
+    });
+
+    test('should highlight matches in escaped snippets', async () => {
+        const snippets = await TransactionSearchService.snippets([ids.lunch], parseSearchQuery('tasting')!);
+        const snippet = snippets.get(ids.lunch)!;
+
+        expect(snippet).toContain('<mark>tasting</mark>');
+        expect(snippet).toContain('Sam &amp; Alex');
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(SEARCH_EMAIL);
+        await prisma.$disconnect();
+    });
+});
@@ -0,0 +1,87 @@
+import { prisma } from '../../lib/prisma';
+import { AnalyticsService } from '../../services/analyticsService';
+import { BudgetSyncService } from '../../services/budgetSyncService';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { TransactionSplitService } from '../../services/transactionSplitService';
+import { Transaction } from '../../../prisma/generated/prisma';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const SPLIT_EMAIL = 'splits@example.com';
+
+const COSTCO_SPLITS = [
+    { amount: 120, category: 'Groceries' },
+    { amount: 45.5, category: 'Household', note: 'Paper towels, detergent' },
+    { amount: 34.5, category: 'Clothing' }
+];
+
+describe('TransactionSplitService', () => {
+    let userId: string;
+    let costco: Transaction;
+
+    beforeEach(async () => {
+        const user = await createTestUser(SPLIT_EMAIL);
+        userId = user.id;
+
+        const account = await ManualEntryService.createAccount(userId, { name: 'Checking', type: 'depository', currentBalance: 1000 });
+        costco = await ManualEntryService.createTransaction(userId, account, {
+            accountId: account.id,
+            name: 'COSTCO WHSE #0481',
+            amount: 200,
+            date: new Date(),
+            category: 'Groceries'
+        });
+
+        await prisma.budget.create({
+            data: { userId, name: 'Groceries', category: 'Groceries', amount: 300, startDate: new Date('2020-01-01') }
+        });
+    });
+
+    test('should only accept splits that add up to the transaction', () => {
+        expect(TransactionSplitService.checkSplits(costco, COSTCO_SPLITS)).toBeNull();
+        expect(TransactionSplitService.checkSplits(costco, [])).toBeNull();
+
+        expect(TransactionSplitService.checkSplits(costco, [{ amount: 200, category: 'Groceries' }])).toMatch(/at least two/);
+        expect(TransactionSplitService.checkSplits(costco, [
+            { amount: 100, category: 'Groceries' },
+            { amount: 90, category: 'Household' }
+        ])).toMatch(/add up to 190.00/);
+        expect(TransactionSplitService.checkSplits(costco, [
+            { amount: 100, category: 'Groceries' },
+            { amount: 100, category: 'Groceries' }
+        ])).toMatch(/only appear once/);
+        expect(TransactionSplitService.checkSplits(costco, [
+            { amount: 250, category: 'Groceries' },
+            { amount: -50, category: 'Refunds' }
+        ])).toMatch(/same sign/);
+    });
+
+    test('should count split transactions toward each split category', async () => {
+        const saved = await TransactionSplitService.replaceSplits(costco, COSTCO_SPLITS);
+        expect(saved).toHaveLength(3);
+
+        const categories = await AnalyticsService.getCategorySpending(userId);
+        expect(categories.map(item => [item.category, item.amount])).toEqual([
+            ['Groceries', 120],
+            ['Household', 45.5],
+            ['Clothing', 34.5]
+        ]);
+
+        const budget = await prisma.budget.findFirstOrThrow({ where: { userId } });
+        expect((await BudgetSyncService.calculateBudgetSpending(budget)).spent).toBe(120);
+    });
+
+    test('should drop splits when the amount changes', async () => {
+        await TransactionSplitService.replaceSplits(costco, COSTCO_SPLITS);
+
+        await ManualEntryService.updateTransaction(costco, { amount: 210 });
+
+        expect(await prisma.transactionSplit.count({ where: { transactionId: costco.id } })).toBe(0);
+        const budget = await prisma.budget.findFirstOrThrow({ where: { userId } });
+        expect((await BudgetSyncService.calculateBudgetSpending(budget)).spent).toBe(210);
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(SPLIT_EMAIL);
+        await prisma.$disconnect();
+    });
+});
@@ -1,5 +1,19 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { prisma } from '../../lib/prisma';
+import { encryptToken } from '../../lib/tokenEncryption';
+import { AttachmentService } from '../../services/attachmentService';
+import { TagService } from '../../services/tagService';
+import { TransactionSplitService } from '../../services/transactionSplitService';
 import { TransactionSyncService } from '../../services/transactionSyncService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+// Run the sync pipeline against the offline scenarios in fixtures/bank
+process.env.BANK_DATA_PROVIDER = 'fixture';
+process.env.ATTACHMENT_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'attachments-'));
+
+const FIXTURE_EMAIL = 'fixture-sync@example.com';
 
 describe('TransactionSyncService', () => {
     beforeEach(async () => {
@@ -12,6 +26,258 @@ test('should sync transactions for user', async () => {
     expect(res).toBeDefined();
 });
 
+describe('TransactionSyncService with the fixture provider', () => {
+    let userId: string;
+
+    const linkScenario = async (scenario: string) => {
+        const item = await prisma.plaidItem.create({
+            data: {
+                userId,
+                plaidItemId: `item-fixture-${scenario}`,
+                encryptedAccessToken: encryptToken(`access-fixture-${scenario}`),
+                institutionName: 'Fixture Credit Union'
+            }
+        });
+        return item.id;
+    };
+
+    const transactionsFor = (itemId: string) => prisma.transaction.findMany({
+        where: { account: { itemId } },
+        orderBy: { plaidTransactionId: 'asc' }
+    });
+
+    beforeEach(async () => {
+        const user = await createTestUser(FIXTURE_EMAIL);
+        userId = user.id;
+    });
+
+    test('should import accounts and new transactions', async () => {
+        const itemId = await linkScenario('new_transactions');
+
+        const first = await TransactionSyncService.syncItem(itemId);
+        expect(first.success).toBe(true);
+        expect(first.newAccounts).toBe(2);
+        expect(first.newTransactions).toBe(6);
+
+        const second = await TransactionSyncService.syncItem(itemId);
+        expect(second.newTransactions).toBe(2);
+        expect(second.updatedTransactions).toBe(0);
+
+        const transactions = await transactionsFor(itemId);
+        expect(transactions).toHaveLength(8);
+
+        const item = await prisma.plaidItem.findUnique({ where: { id: itemId } });
+        expect(item?.syncStatus).toBe('SYNCED');
+        expect(item?.cursor).toBe('2:0');
+    });
+
+    test('should apply modified transactions in place', async () => {
+        const itemId = await linkScenario('modified_transactions');
+
+        await TransactionSyncService.syncItem(itemId);
+        const result = await TransactionSyncService.syncItem(itemId);
+        expect(result.newTransactions).toBe(0);
+        expect(result.updatedTransactions).toBe(2);
+
+        const posted = await prisma.transaction.findUnique({
+            where: { plaidTransactionId: 'modified_transactions/fx-txn-010' }
+        });
+        expect(posted?.amount).toBe(21.25);
+        expect(posted?.pending).toBe(false);
+        expect(await transactionsFor(itemId)).toHaveLength(4);
+    });
+
+    test('should delete removed transactions', async () => {
+        const itemId = await linkScenario('removed_transactions');
+
+        await TransactionSyncService.syncItem(itemId);
+        expect(await transactionsFor(itemId)).toHaveLength(4);
+
+        const result = await TransactionSyncService.syncItem(itemId);
+        expect(result.removedTransactions).toBe(2);
+
+        const remaining = await transactionsFor(itemId);
+        expect(remaining.map(t => t.plaidTransactionId)).toEqual([
+            'removed_transactions/fx-txn-001',
+            'removed_transactions/fx-txn-002'
+        ]);
+    });
+
+    test('should delete the files attached to removed transactions', async () => {
+        const itemId = await linkScenario('removed_transactions');
+
+        await TransactionSyncService.syncItem(itemId);
+        const [, , removed] = await transactionsFor(itemId);
+        const attachment = await AttachmentService.create(removed, {
+            data: Buffer.from('%PDF-1.4\n%%EOF\n'),
+            contentType: 'application/pdf'
+        });
+
+        await TransactionSyncService.syncItem(itemId);
+
+        expect(await prisma.transaction.count({ where: { id: removed.id } })).toBe(0);
+        await expect(AttachmentService.open(attachment)).rejects.toThrow();
+    });
+
+    test('should replace pending transactions with their posted versions', async () => {
+        const itemId = await linkScenario('pending_posted');
+
+        await TransactionSyncService.syncItem(itemId);
+        const pending = await prisma.transaction.findUniqueOrThrow({
+            where: { plaidTransactionId: 'pending_posted/fx-txn-050' }
+        });
+        await prisma.transaction.update({
+            where: { id: pending.id },
+            data: { notes: 'Deck screws', primaryCategory: 'Home Improvement', categoryOverridden: true }
+        });
+
+        const result = await TransactionSyncService.syncItem(itemId);
+        expect(result.newTransactions).toBe(0);
+        expect(result.updatedTransactions).toBe(2);
+
+        const transactions = await transactionsFor(itemId);
+        expect(transactions.map(t => t.plaidTransactionId)).toEqual([
+            'pending_posted/fx-txn-060',
+            'pending_posted/fx-txn-061'
+        ]);
+
+        const [posted, untouched] = transactions;
+        expect(posted.id).toBe(pending.id);
+        expect(posted.pending).toBe(false);
+        expect(posted.amount).toBe(121.98);
+        expect(posted.pendingTransactionId).toBe('pending_posted/fx-txn-050');
+        expect(posted.notes).toBe('Deck screws');
+        expect(posted.primaryCategory).toBe('Home Improvement');
+        expect(untouched.categoryOverridden).toBe(false);
+    });
+
+    test('should keep splits, tags and attachments when the posted row was already stored', async () => {
+        const itemId = await linkScenario('pending_posted');
+
+        await TransactionSyncService.syncItem(itemId);
+        const pending = await prisma.transaction.findUniqueOrThrow({
+            where: { plaidTransactionId: 'pending_posted/fx-txn-051' }
+        });
+
+        const tag = await prisma.tag.create({ data: { userId, name: 'Road trip' } });
+        await TagService.attachTag(tag, [pending.id]);
+        await TransactionSplitService.replaceSplits(pending, [
+            { amount: 40, category: 'Gas' },
+            { amount: 12.1, category: 'Food and Drink' }
+        ]);
+        const attachment = await AttachmentService.create(pending, {
+            data: Buffer.from('%PDF-1.4\n%%EOF\n'),
+            contentType: 'application/pdf',
+            fileName: 'receipt.pdf'
+        });
+
+        // A history backfill stored the posted version before the sync feed sent it
+        const posted = await prisma.transaction.create({
+            data: {
+                userId,
+                accountId: pending.accountId,
+                plaidTransactionId: 'pending_posted/fx-txn-061',
+                name: pending.name,
+                amount: pending.amount,
+                date: new Date('2026-09-19')
+            }
+        });
+
+        await TransactionSyncService.syncItem(itemId);
+
+        expect(await prisma.transaction.count({ where: { id: pending.id } })).toBe(0);
+        const kept = await prisma.transaction.findUniqueOrThrow({
+            where: { id: posted.id },
+            include: { splits: true, tags: true, attachments: true }
+        });
+        expect(kept.pendingTransactionId).toBe('pending_posted/fx-txn-051');
+        expect(kept.splits.map(split => split.category).sort()).toEqual(['Food and Drink', 'Gas']);
+        expect(kept.tags.map(link => link.tagId)).toEqual([tag.id]);
+        expect(kept.attachments.map(file => file.id)).toEqual([attachment.id]);
+    });
+
+    test('should flag the item for update mode when the login expires', async () => {
+        const itemId = await linkScenario('expired_login');
+
+        const first = await TransactionSyncService.syncItem(itemId);
+        expect(first.success).toBe(true);
+
+        const second = await TransactionSyncService.syncItem(itemId);
+        expect(second.success).toBe(false);
+
+        const item = await prisma.plaidItem.findUnique({ where: { id: itemId } });
+        expect(item?.syncStatus).toBe('TOKEN_EXPIRED');
+        expect(item?.errorCode).toBe('ITEM_LOGIN_REQUIRED');
+        // The cursor is kept so the sync resumes after the user re-authenticates
+        expect(item?.cursor).toBe('1:0');
+        expect(TransactionSyncService.requiresUpdateMode(item!)).toBe(true);
+    });
+
+    test('should close accounts the provider stops reporting', async () => {
+        const itemId = await linkScenario('new_transactions.closed');
+        await TransactionSyncService.syncItem(itemId);
+
+        // An account the institution has since dropped from the item
+        const dropped = await prisma.account.create({
+            data: {
+                plaidAccountId: 'new_transactions.closed/fx-old-savings',
+                userId,
+                itemId,
+                name: 'Old Savings',
+                type: 'depository',
+                subtype: 'savings',
+                currentBalance: 1500
+            }
+        });
+
+        await TransactionSyncService.syncItem(itemId);
+
+        const closed = await prisma.account.findUniqueOrThrow({ where: { id: dropped.id } });
+        expect(closed.isActive).toBe(false);
+        expect(closed.closedAt).toBeInstanceOf(Date);
+        expect(await prisma.account.count({ where: { itemId, isActive: true } })).toBe(2);
+
+        // Later syncs keep the original closing time
+        await TransactionSyncService.syncItem(itemId);
+        const stillClosed = await prisma.account.findUniqueOrThrow({ where: { id: dropped.id } });
+        expect(stillClosed.closedAt).toEqual(closed.closedAt);
+    });
+
+    test('should record each run in the sync history', async () => {
+        const itemId = await linkScenario('expired_login');
+
+        await TransactionSyncService.syncItem(itemId, 'webhook');
+        await TransactionSyncService.syncItem(itemId, 'scheduled');
+
+        const history = await TransactionSyncService.getSyncHistory(userId, { itemId });
+        expect(history.runs).toHaveLength(2);
+
+        const [failed, succeeded] = history.runs;
+        expect(failed.success).toBe(false);
+        expect(failed.trigger).toBe('scheduled');
+        expect(failed.errorCode).toBe('ITEM_LOGIN_REQUIRED');
+
+        expect(succeeded.success).toBe(true);
+        expect(succeeded.newTransactions).toBe(2);
+        expect(succeeded.newAccounts).toBe(1);
+        expect(succeeded.categoryDistribution).toBeTruthy();
+        expect(history.lastChangedAt).toEqual(succeeded.finishedAt);
+    });
+
+    test('should record the trigger of a sync of all the user\'s items', async () => {
+        const itemId = await linkScenario('new_transactions');
+
+        await TransactionSyncService.syncUserTransactions(userId, 'admin');
+
+        const history = await TransactionSyncService.getSyncHistory(userId, { itemId });
+        expect(history.runs.map(run => run.trigger)).toEqual(['admin']);
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(FIXTURE_EMAIL);
+    });
+});
+
 afterAll(async () => {
     await prisma.$disconnect();
-});
\ No newline at end of file
+});
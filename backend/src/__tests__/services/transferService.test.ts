@@ -0,0 +1,114 @@
+import { prisma } from '../../lib/prisma';
+import { AnalyticsService } from '../../services/analyticsService';
+import { BudgetSyncService } from '../../services/budgetSyncService';
+import { ManualEntryService } from '../../services/manualEntryService';
+import { spanOfDates, TransferService } from '../../services/transferService';
+import { createTestUser, deleteTestUser } from '../helpers';
+
+const TRANSFER_EMAIL = 'transfers@example.com';
+
+describe('TransferService', () => {
+    let userId: string;
+    let paymentIds: string[];
+
+    beforeEach(async () => {
+        const user = await createTestUser(TRANSFER_EMAIL);
+        userId = user.id;
+
+        const checking = await ManualEntryService.createAccount(userId, { name: 'Checking', type: 'depository', currentBalance: 3000 });
+        const card = await ManualEntryService.createAccount(userId, { name: 'Card', type: 'credit' });
+
+        await ManualEntryService.createTransaction(userId, checking, {
+            accountId: checking.id, name: 'Paycheck', amount: -1000, date: new Date('2026-09-01'), category: 'Income'
+        });
+        await ManualEntryService.createTransaction(userId, card, {
+            accountId: card.id, name: 'Bookstore', amount: 60, date: new Date('2026-09-03'), category: 'Shopping'
+        });
+
+        // Paying the card from checking: out of one account, into the other two days later
+        const paymentOut = await ManualEntryService.createTransaction(userId, checking, {
+            accountId: checking.id, name: 'Card autopay', amount: 200, date: new Date('2026-09-10'), category: 'Bills'
+        });
+        const paymentIn = await ManualEntryService.createTransaction(userId, card, {
+            accountId: card.id, name: 'Payment, thank you', amount: -200, date: new Date('2026-09-12'), category: 'Bills'
+        });
+        paymentIds = [paymentOut.id, paymentIn.id];
+
+        await prisma.budget.create({
+            data: { userId, name: 'Bills', category: 'Bills', amount: 500, startDate: new Date('2026-09-01') }
+        });
+    });
+
+    const payments = () => prisma.transaction.findMany({ where: { id: { in: paymentIds } } });
+
+    test('should pair a card payment and leave it out of income and spending', async () => {
+        const [first, second] = await payments();
+        expect(first.transferGroupId).toBeTruthy();
+        expect(second.transferGroupId).toBe(first.transferGroupId);
+
+        const september = (await AnalyticsService.getMonthlySummary(userId, 2026))[8];
+        expect(september.income).toBe(1000);
+        expect(september.expenses).toBe(60);
+
+        const withTransfers = (await AnalyticsService.getMonthlySummary(userId, 2026, { includeTransfers: true }))[8];
+        expect(withTransfers.income).toBe(1200);
+        expect(withTransfers.expenses).toBe(260);
+
+        const budget = await prisma.budget.findFirstOrThrow({ where: { userId } });
+        expect((await BudgetSyncService.calculateBudgetSpending(budget)).spent).toBe(0);
+    });
+
+    test('should keep an unlinked pair apart', async () => {
+        const [first] = await payments();
+        expect(await TransferService.unlinkGroup(userId, first.transferGroupId!)).toBe(2);
+
+        expect(await TransferService.detectTransfers(userId, spanOfDates([first.date]))).toBe(0);
+        const unlinked = await payments();
+        expect(unlinked.every(t => t.transferGroupId === null && t.transferOverridden)).toBe(true);
+
+        const budget = await prisma.budget.findFirstOrThrow({ where: { userId } });
+        expect((await BudgetSyncService.calculateBudgetSpending(budget)).spent).toBe(200);
+    });
+
+    test('should only pair transactions around the dates that changed', async () => {
+        const [checking, card] = await Promise.all(['Checking', 'Card'].map(name =>
+            prisma.account.findFirstOrThrow({ where: { userId, name } })
+        ));
+        // Stored without running detection, like history from before transfers existed
+        await prisma.transaction.createMany({
+            data: [
+                { userId, accountId: checking.id, source: 'manual', name: 'Old autopay', amount: 75, date: new Date('2025-03-10') },
+                { userId, accountId: card.id, source: 'manual', name: 'Old payment', amount: -75, date: new Date('2025-03-11') }
+            ]
+        });
+
+        expect(await TransferService.detectTransfers(userId, spanOfDates([new Date('2026-09-20')]))).toBe(0);
+        expect(await TransferService.detectTransfers(userId, spanOfDates([new Date('2025-03-13')]))).toBe(1);
+    });
+
+    test('should link a pair by hand', async () => {
+        const [first] = await payments();
+        await TransferService.unlinkGroup(userId, first.transferGroupId!);
+
+        const [out, into] = await payments();
+        const transfer = await TransferService.linkTransactions(out, into);
+
+        expect(transfer).toHaveLength(2);
+        expect(transfer.every(t => t.transferGroupId === transfer[0].transferGroupId && t.transferOverridden)).toBe(true);
+    });
+
+    test('should release the other side when one is deleted', async () => {
+        const [out, into] = await payments();
+        const manualOut = out.amount > 0 ? out : into;
+
+        await ManualEntryService.deleteTransaction(manualOut);
+
+        const [survivor] = await payments();
+        expect(survivor.transferGroupId).toBeNull();
+    });
+
+    afterAll(async () => {
+        await deleteTestUser(TRANSFER_EMAIL);
+        await prisma.$disconnect();
+    });
+});
@@ -3,7 +3,7 @@ import dotenv from 'dotenv';
 import cors from 'cors'; 
 import cron from 'node-cron';
 import { prisma } from './lib/prisma';
-import { TransactionSyncService } from './services/transactionSyncService';
+import { SyncJobService } from './services/syncJobService';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -12,6 +12,11 @@ import transactionRoutes from './routes/transactions';
 import { accountsRouter } from './routes/accounts';
 import budgets from './routes/budgets';
 import analyticsRoutes from './routes/analytics';
+import investmentRoutes from './routes/investments';
+import importRoutes from './routes/imports';
+import reportRoutes from './routes/reports';
+import tagRoutes from './routes/tags';
+import merchantRoutes from './routes/merchants';
 
 dotenv.config();
 
@@ -19,7 +24,14 @@ export const app = express();
 const port = process.env.PORT || 8000;
 
 // Middleware
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body for webhook signature verification
+  verify: (req: Request, _res, buf) => {
+    if (req.originalUrl.startsWith('/api/plaid/webhook')) {
+      req.rawBody = buf;
+    }
+  }
+}));
 app.use(cors({
   origin: ['http://localhost:3000', 'http://127.0.0.1:3000'],
   credentials: true,
@@ -32,6 +44,11 @@ app.use('/api/transactions', transactionRoutes); // New cached transactions rout
 app.use('/api/accounts', accountsRouter); // New cached accounts route
 app.use('/api/budgets', budgets);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/investments', investmentRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/merchants', merchantRoutes);
 
 
 // Root endpoint
@@ -51,7 +68,7 @@ app.get('/health', async (req: Request, res: Response) => {
     
     // Check sync status
     const activeUsers = await prisma.user.count({
-      where: { plaidItemId: { not: null } }
+      where: { plaidItems: { some: {} } }
     });
 
     res.json({
@@ -75,7 +92,11 @@ const setupBackgroundSync = () => {
   // Run every 4 hours during business hours (9 AM - 9 PM EST)
   cron.schedule('0 9,13,17,21 * * *', async () => {
     console.log('Starting scheduled background sync...');
-    await runBackgroundSync();
+    try {
+      await runBackgroundSync();
+    } catch (error) {
+      console.error('Background sync failed:', error);
+    }
   });
 
   // Also run a light sync every hour to catch new transactions
@@ -85,75 +106,47 @@ const setupBackgroundSync = () => {
   });
 };
 
-const runBackgroundSync = async () => {
-  try {
-    // Get all users with Plaid connections that haven't been synced in the last 2 hours
-    const usersToSync = await prisma.user.findMany({
-      where: {
-        plaidItemId: { not: null },
-        syncStatus: { notIn: ['SYNCING', 'TOKEN_EXPIRED'] },
-        OR: [
-          { lastSyncAt: null },
-          { lastSyncAt: { lt: new Date(Date.now() - 2 * 60 * 60 * 1000) } }
-        ]
-      },
-      select: { id: true, email: true }
-    });
+// The cron jobs only queue work; the sync worker runs it with retries and a concurrency cap
+const runBackgroundSync = async (trigger: string = 'scheduled') => {
+  // Get all linked items that haven't been synced in the last 2 hours
+  const itemsToSync = await prisma.plaidItem.findMany({
+    where: {
+      syncStatus: { notIn: ['SYNCING', 'TOKEN_EXPIRED'] },
+      OR: [
+        { lastSyncAt: null },
+        { lastSyncAt: { lt: new Date(Date.now() - 2 * 60 * 60 * 1000) } }
+      ]
+    },
+    select: { id: true }
+  });
 
-    console.log(`Found ${usersToSync.length} users to sync`);
-
-    for (const user of usersToSync) {
-      try {
-        console.log(`Syncing user: ${user.email}`);
-        const result = await TransactionSyncService.syncUserTransactions(user.id);
-        
-        if (result.success) {
-          console.log(`✅ User ${user.email}: ${result.newTransactions} new transactions`);
-        } else {
-          console.log(`❌ User ${user.email}: ${result.error}`);
-        }
-      } catch (error) {
-        console.error(`Failed to sync user ${user.email}:`, error);
-      }
-      
-      // Add small delay between users to avoid rate limits
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
+  console.log(`Found ${itemsToSync.length} items to sync`);
 
-    console.log('Background sync completed');
-  } catch (error) {
-    console.error('Background sync failed:', error);
+  for (const item of itemsToSync) {
+    await SyncJobService.enqueueItem(item.id, trigger);
   }
+
+  console.log(`Queued ${itemsToSync.length} sync jobs`);
+  return itemsToSync.length;
 };
 
 const runHourlySync = async () => {
   try {
-    // Only sync users who have been active recently (logged in within last 24 hours)
-    // and haven't been synced in the last hour
-    const activeUsers = await prisma.user.findMany({
+    // Only sync items of users who have been active recently (logged in within last 24 hours)
+    // that haven't been synced in the last hour
+    const activeItems = await prisma.plaidItem.findMany({
       where: {
-        plaidItemId: { not: null },
         syncStatus: { notIn: ['SYNCING', 'TOKEN_EXPIRED'] },
         lastSyncAt: { lt: new Date(Date.now() - 60 * 60 * 1000) }, // Last synced over 1 hour ago
-        updatedAt: { gt: new Date(Date.now() - 24 * 60 * 60 * 1000) } // Active in last 24 hours
+        user: { updatedAt: { gt: new Date(Date.now() - 24 * 60 * 60 * 1000) } } // Active in last 24 hours
       },
-      select: { id: true, email: true }
+      select: { id: true }
     });
 
-    console.log(`Found ${activeUsers.length} active users for hourly sync`);
-
-    for (const user of activeUsers) {
-      try {
-        const result = await TransactionSyncService.syncUserTransactions(user.id);
-        if (result.success && result.newTransactions > 0) {
-          console.log(`✅ Hourly sync - User ${user.email}: ${result.newTransactions} new transactions`);
-        }
-      } catch (error) {
-        console.error(`Hourly sync failed for user ${user.email}:`, error);
-      }
-      
-      // Smaller delay for hourly sync
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    console.log(`Found ${activeItems.length} active items for hourly sync`);
+
+    for (const item of activeItems) {
+      await SyncJobService.enqueueItem(item.id, 'hourly');
     }
   } catch (error) {
     console.error('Hourly sync failed:', error);
@@ -171,10 +164,11 @@ app.post('/api/admin/sync-all', async (req: Request, res: Response) => {
 
   try {
     console.log('Manual sync triggered via admin endpoint');
-    runBackgroundSync(); // Don't await - let it run in background
+    const queuedJobs = await runBackgroundSync('admin');
     
     res.json({ 
-      message: 'Background sync started',
+      message: 'Background sync queued',
+      queuedJobs,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -189,9 +183,10 @@ const startServer = async () => {
     await prisma.$connect();
     console.log('✅ Database connected');
 
-    // Setup background sync scheduler
+    // Setup background sync scheduler and the worker that runs queued syncs
     if (process.env.NODE_ENV !== 'test') {
       setupBackgroundSync();
+      SyncJobService.startWorker();
     }
 
     app.listen(port, () => {
@@ -207,12 +202,14 @@ const startServer = async () => {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down server...');
+  await SyncJobService.stopWorker();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Shutting down server...');
+  await SyncJobService.stopWorker();
   await prisma.$disconnect();
   process.exit(0);
 });
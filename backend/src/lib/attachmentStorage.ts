@@ -0,0 +1,14 @@
+import { AttachmentStorage } from '../providers/attachmentStorage';
+import { LocalDiskStorage } from '../providers/localDiskStorage';
+
+let storage: AttachmentStorage | null = null;
+
+// The one storage every upload, download and cleanup goes through. Files land under
+// ATTACHMENT_DIR (uploads/attachments by default); an object store would be picked here.
+export const getAttachmentStorage = (): AttachmentStorage => {
+  if (!storage) {
+    storage = new LocalDiskStorage();
+    console.log(`Using ${storage.name} attachment storage`);
+  }
+  return storage;
+};
@@ -0,0 +1,17 @@
+import { BankDataProvider } from '../providers/bankDataProvider';
+import { FixtureProvider } from '../providers/fixtureProvider';
+import { PlaidProvider } from '../providers/plaidProvider';
+
+let provider: BankDataProvider | null = null;
+
+// Created on first use so BANK_DATA_PROVIDER can be set by the time anything syncs.
+// Use BANK_DATA_PROVIDER=fixture to run the whole sync pipeline offline.
+export const getBankDataProvider = (): BankDataProvider => {
+  if (!provider) {
+    provider = process.env.BANK_DATA_PROVIDER === 'fixture'
+      ? new FixtureProvider()
+      : new PlaidProvider();
+    console.log(`Using ${provider.name} bank data provider`);
+  }
+  return provider;
+};
@@ -0,0 +1,94 @@
+/**
+ * Turn the raw strings banks put on transactions ("POS DEBIT 0423 SQ *BLUE BOTTLE #12")
+ * into a merchant's name ("Blue Bottle"), and into a key for matching names that
+ * are spelled differently.
+ */
+
+// What the bank says about how the card was used, ahead of the merchant
+const TRANSACTION_TYPE_PREFIX = /^(POS|DEBIT CARD|CREDIT CARD|CARD PURCHASE|DEBIT|DBT|PURCHASE|PUR|CHECKCARD|CHECK CARD|ACH|RECURRING|PREAUTHORIZED|PRE-AUTH)\b[\s:-]*/i;
+
+// Leading dates and reference numbers ("0423", "04/23", "12345678")
+const LEADING_NUMBER = /^\d[\d/-]*\s+/;
+
+// Payment processors and wallets that put their own name in front of the merchant's
+const PROCESSOR_PREFIX = /^(SQ|SQU|TST|SP|PP|PAYPAL|PY|IN|CKO|BT|DD|EB|ZTL|WPY|FS|GOOGLE|GGL|APL|APPLE PAY)\s?\*\s*/i;
+
+const US_STATES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
+]);
+
+/**
+ * Keep acronyms (CVS, AT&T) in capitals and title-case everything else
+ */
+const titleCase = (word: string): string => {
+  if (word.includes('-')) {
+    return word.split('-').map(titleCase).join('-');
+  }
+  if (word.includes('&') || (word.length <= 3 && !/[AEIOUY]/.test(word))) {
+    return word;
+  }
+  return word.charAt(0) + word.slice(1).toLowerCase();
+};
+
+/**
+ * Strip what the bank and card processor add around a merchant's name: card and
+ * processor prefixes, dates, store and reference numbers, a trailing state and
+ * .com. Names in all capitals are title-cased; ones that already have lowercase
+ * letters (a provider's merchant name, a name typed by the user) keep their casing.
+ * Returns an empty string if nothing recognisable is left.
+ */
+export const cleanMerchantName = (raw: string) => {
+  let name = raw.replace(/\s+/g, ' ').trim();
+  const shouting = !/[a-z]/.test(name);
+
+  // Prefixes stack ("POS DEBIT 0423 SQ *"), so keep peeling until none are left
+  let previous;
+  do {
+    previous = name;
+    name = name
+      .replace(TRANSACTION_TYPE_PREFIX, '')
+      .replace(LEADING_NUMBER, '')
+      .replace(PROCESSOR_PREFIX, '');
+  } while (name !== previous);
+
+  name = name
+    // The merchant's own order reference ("AMAZON.COM*MK1234"); "UBER *EATS" is a name
+    .replace(/\*\s*\S*\d.*$/, '')
+    // Store numbers ("#12", "STORE 0042")
+    .replace(/#\s*\d+/g, ' ')
+    .replace(/\b(STORE|STR|NO\.?)\s*\d+\b/gi, ' ')
+    // Dates ("04/23", "04-23-26")
+    .replace(/\b\d{1,2}[/-]\d{1,2}([/-]\d{2,4})?\b/g, ' ')
+    // Reference, terminal and phone numbers; short numbers like 7-Eleven's stay
+    .replace(/\S*\d{3,}\S*/g, ' ')
+    .replace(/\.(COM|NET|ORG)\b/gi, ' ')
+    .replace(/[^A-Za-z0-9&' -]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/(^[\s'-]+)|([\s'-]+$)/g, '');
+
+  const words = name.split(' ').filter(Boolean);
+  if (words.length > 1 && US_STATES.has(words[words.length - 1])) {
+    words.pop();
+  }
+
+  return (shouting ? words.map(titleCase) : words).join(' ');
+};
+
+/**
+ * Lowercase form of a merchant name for comparing: "McDonald's" and "MCDONALDS",
+ * "7-Eleven" and "7 ELEVEN" get the same key
+ */
+export const merchantKey = (name: string) => name
+  .toLowerCase()
+  .replace(/'/g, '')
+  .replace(/[^a-z0-9&]+/g, ' ')
+  .trim();
+
+/**
+ * Whether a transaction's key is covered by an alias pattern: the same name, or the
+ * pattern followed by more words ("blue bottle" covers "blue bottle coffee oakland")
+ */
+export const matchesMerchantPattern = (key: string, pattern: string) =>
+  key === pattern || key.startsWith(`${pattern} `);
@@ -0,0 +1,55 @@
+/**
+ * Turn what the user types in the transaction search box into a Postgres tsquery
+ * (to_tsquery syntax):
+ *
+ *   coffee            words match as prefixes, so "star" finds Starbucks
+ *   "blue bottle"     a quoted phrase matches those words in order
+ *   -refund           a leading minus excludes a word or "a phrase"
+ *   uber OR lyft      OR between two terms matches either
+ *
+ * Terms are ANDed together. Punctuation inside a term is dropped, so 7-eleven is
+ * the phrase "7 eleven".
+ */
+
+const TOKEN = /(-?)"([^"]*)"?|(\S+)/g;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * The tsquery for a search, or null if it has no words to search for
+ */
+export const parseSearchQuery = (input: string): string | null => {
+  // Each group is a list of alternatives (joined by OR); groups are ANDed
+  const groups: string[][] = [];
+  let joinNext = false;
+
+  for (const [, minus, phrase, bare] of input.matchAll(TOKEN)) {
+    if (bare === 'OR') {
+      joinNext = groups.length > 0;
+      continue;
+    }
+
+    const negated = minus === '-' || (bare !== undefined && bare.startsWith('-'));
+    const words = (phrase ?? bare).match(WORD);
+    if (!words) continue;
+
+    let term = words.join(' <-> ');
+    // Bare terms are still being typed, so the last word matches as a prefix
+    if (bare !== undefined) term += ':*';
+    if (words.length > 1) term = `(${term})`;
+    if (negated) term = `!${term}`;
+
+    if (joinNext) {
+      groups[groups.length - 1].push(term);
+    } else {
+      groups.push([term]);
+    }
+    joinNext = false;
+  }
+
+  if (groups.length === 0) return null;
+
+  return groups
+    .map(group => group.length > 1 ? `(${group.join(' | ')})` : group[0])
+    .join(' & ');
+};
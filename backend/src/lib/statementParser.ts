@@ -0,0 +1,273 @@
+/**
+ * Parsers for bank statement files: CSV exports read through a column mapping
+ * profile, and OFX/QFX downloads (both the SGML 1.x and XML 2.x flavours).
+ *
+ * Rows come out in our Transaction conventions: dates as YYYY-MM-DD and
+ * positive amounts for money leaving the account.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qfx';
+
+export const STATEMENT_FORMATS: StatementFormat[] = ['csv', 'ofx', 'qfx'];
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'YYYYMMDD'];
+
+export const AMOUNT_SIGNS = ['expense_negative', 'expense_positive'];
+
+// A type rather than an interface so rows can be stored as JSON
+export type ParsedStatementRow = {
+  date: string;
+  name: string;
+  merchantName: string | null;
+  amount: number;
+  // OFX FITID, the bank's own id for the transaction
+  externalId: string | null;
+};
+
+export interface CsvMapping {
+  delimiter: string;
+  dateColumn: string;
+  dateFormat: string;
+  descriptionColumn: string;
+  merchantColumn: string | null;
+  amountColumn: string | null;
+  amountSign: string;
+  debitColumn: string | null;
+  creditColumn: string | null;
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Check a date's parts and format them as YYYY-MM-DD, or null if it isn't a real day
+ */
+const toIsoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const parseStatementDate = (value: string, format: string) => {
+  const trimmed = value.trim();
+
+  if (format === 'YYYYMMDD') {
+    const match = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? toIsoDate(+match[1], +match[2], +match[3]) : null;
+  }
+
+  const parts = trimmed.split(/[-/.]/).map(part => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) {
+    return null;
+  }
+
+  const [a, b, c] = parts;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      return toIsoDate(a, b, c);
+    case 'MM/DD/YYYY':
+      return toIsoDate(c, a, b);
+    case 'DD/MM/YYYY':
+      return toIsoDate(c, b, a);
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parse an amount as banks print it: currency symbols, thousands separators and
+ * (12.50) for negatives are all accepted
+ */
+export const parseStatementAmount = (value: string) => {
+  let cleaned = value.trim().replace(/[^\d.,()+-]/g, '').replace(/,/g, '');
+  if (!cleaned) {
+    return null;
+  }
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(cleaned)) {
+    sign = -1;
+    cleaned = cleaned.slice(1, -1);
+  }
+
+  const amount = Number(cleaned);
+  return isNaN(amount) ? null : sign * amount;
+};
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded delimiters,
+ * doubled quotes and line breaks
+ */
+export const parseCsvRows = (content: string, delimiter: string = ',') => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, ''); // Byte order mark from Excel exports
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+/**
+ * Read a CSV statement with a column mapping. The first row must be the header.
+ */
+export const parseCsvStatement = (content: string, mapping: CsvMapping): ParsedStatementRow[] => {
+  const [header, ...rows] = parseCsvRows(content, mapping.delimiter);
+  if (!header) {
+    throw new StatementParseError('The file is empty');
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const columnIndex = (name: string | null) => {
+    if (!name) return -1;
+    const index = columns.indexOf(name.trim().toLowerCase());
+    if (index === -1) {
+      throw new StatementParseError(`Column "${name}" not found in the header`);
+    }
+    return index;
+  };
+
+  const dateIndex = columnIndex(mapping.dateColumn);
+  const descriptionIndex = columnIndex(mapping.descriptionColumn);
+  const merchantIndex = columnIndex(mapping.merchantColumn);
+  const amountIndex = columnIndex(mapping.amountColumn);
+  const debitIndex = columnIndex(mapping.debitColumn);
+  const creditIndex = columnIndex(mapping.creditColumn);
+
+  return rows.map((row, i) => {
+    // Line numbers as the user sees them in a spreadsheet, header included
+    const line = i + 2;
+    const cell = (index: number) => (index >= 0 ? row[index] || '' : '').trim();
+
+    const date = parseStatementDate(cell(dateIndex), mapping.dateFormat);
+    if (!date) {
+      throw new StatementParseError(`Line ${line}: "${cell(dateIndex)}" is not a ${mapping.dateFormat} date`);
+    }
+
+    let amount: number | null;
+    if (amountIndex >= 0) {
+      amount = parseStatementAmount(cell(amountIndex));
+      if (amount !== null && mapping.amountSign === 'expense_negative') {
+        amount = -amount;
+      }
+    } else {
+      // Money out is an expense, money in is income; usually only one is filled in
+      const debit = parseStatementAmount(cell(debitIndex)) || 0;
+      const credit = parseStatementAmount(cell(creditIndex)) || 0;
+      amount = cell(debitIndex) || cell(creditIndex) ? Math.abs(debit) - Math.abs(credit) : null;
+    }
+
+    if (amount === null) {
+      throw new StatementParseError(`Line ${line}: no amount`);
+    }
+
+    return {
+      date,
+      name: cell(descriptionIndex) || 'Unknown',
+      merchantName: cell(merchantIndex) || null,
+      amount: Math.round(amount * 100) / 100,
+      externalId: null
+    };
+  });
+};
+
+const decodeEntities = (value: string) => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, '\'')
+  .replace(/&amp;/g, '&');
+
+/**
+ * Read the <STMTTRN> entries of an OFX or QFX file. SGML OFX leaves element tags
+ * unclosed, so values are read up to the next tag or line break.
+ */
+export const parseOfxStatement = (content: string): ParsedStatementRow[] => {
+  if (!/<OFX>/i.test(content)) {
+    throw new StatementParseError('Not an OFX file');
+  }
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  return blocks.map(block => {
+    const value = (tag: string) => {
+      const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+      return match ? decodeEntities(match[1].trim()) : '';
+    };
+
+    const fitId = value('FITID');
+    const date = parseStatementDate(value('DTPOSTED'), 'YYYYMMDD');
+    const amount = parseStatementAmount(value('TRNAMT'));
+    if (!date || amount === null) {
+      throw new StatementParseError(`Transaction ${fitId || '(no FITID)'} is missing its date or amount`);
+    }
+
+    const payee = value('NAME') || value('PAYEE');
+    return {
+      date,
+      name: payee || value('MEMO') || 'Unknown',
+      merchantName: null,
+      // OFX amounts are signed from the account's point of view, so debits are negative
+      amount: -amount,
+      externalId: fitId || null
+    };
+  });
+};
+
+/**
+ * Work out the format from an explicit choice, the file name, or the content
+ */
+export const detectStatementFormat = (content: string, format?: string, fileName?: string): StatementFormat | null => {
+  if (format) {
+    return STATEMENT_FORMATS.includes(format as StatementFormat) ? format as StatementFormat : null;
+  }
+
+  const extension = fileName ? fileName.split('.').pop()!.toLowerCase() : '';
+  if (STATEMENT_FORMATS.includes(extension as StatementFormat)) {
+    return extension as StatementFormat;
+  }
+
+  return /<OFX>/i.test(content) || /^OFXHEADER:/m.test(content) ? 'ofx' : 'csv';
+};
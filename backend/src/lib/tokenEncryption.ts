@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+
+/**
+ * Envelope encryption for bank access tokens.
+ *
+ * Each token gets its own random data key. The token is encrypted with the data key
+ * (AES-256-GCM) and the data key is wrapped with a master key from TOKEN_ENCRYPTION_KEYS.
+ * Stored values look like `enc:v1:<keyId>:<wrapped data key>:<iv>:<tag>:<ciphertext>`,
+ * so rotating to a new master key keeps rows sealed under older keys readable.
+ *
+ * TOKEN_ENCRYPTION_KEYS is a comma separated list of `<keyId>:<base64 32-byte key>`.
+ * New tokens are sealed with TOKEN_ENCRYPTION_ACTIVE_KEY_ID, or the first key listed.
+ *
+ * Rows written before encryption hold the plaintext token. They are only readable while
+ * ALLOW_PLAINTEXT_ACCESS_TOKENS=true, which is meant for the rollout: set it, deploy, run
+ * `npm run tokens:encrypt`, then unset it once the script reports 0 remaining.
+ */
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+interface KeyRing {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+const parseKeyRing = (): KeyRing => {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (process.env.TOKEN_ENCRYPTION_KEYS || '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf(':');
+    const keyId = trimmed.slice(0, separator);
+    const key = Buffer.from(trimmed.slice(separator + 1), 'base64');
+
+    if (separator <= 0 || key.length !== KEY_BYTES) {
+      throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry for key "${keyId}": expected <keyId>:<base64 ${KEY_BYTES}-byte key>`);
+    }
+    keys.set(keyId, key);
+  }
+
+  if (keys.size === 0) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not set, access tokens cannot be encrypted');
+  }
+
+  const activeKeyId = process.env.TOKEN_ENCRYPTION_ACTIVE_KEY_ID || Array.from(keys.keys())[0];
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`TOKEN_ENCRYPTION_ACTIVE_KEY_ID "${activeKeyId}" is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+
+  return { activeKeyId, keys };
+};
+
+let cachedKeyRing: { source: string; keyRing: KeyRing } | null = null;
+
+// Parsed again only when the key settings change, so rotating keys in tests still works
+const loadKeyRing = (): KeyRing => {
+  const source = `${process.env.TOKEN_ENCRYPTION_KEYS || ''}|${process.env.TOKEN_ENCRYPTION_ACTIVE_KEY_ID || ''}`;
+  if (cachedKeyRing?.source !== source) {
+    cachedKeyRing = { source, keyRing: parseKeyRing() };
+  }
+  return cachedKeyRing.keyRing;
+};
+
+const seal = (key: Buffer, plaintext: Buffer) => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+};
+
+const open = (key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer) => {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+export const isEncryptedToken = (value: string) => value.startsWith(PREFIX);
+
+/**
+ * The master key id a stored value was sealed with, or null for a legacy plaintext token
+ */
+export const getTokenKeyId = (value: string): string | null =>
+  isEncryptedToken(value) ? value.slice(PREFIX.length).split(':')[0] : null;
+
+/**
+ * Whether a stored value should be re-sealed under the active master key
+ */
+export const needsReencryption = (value: string) => getTokenKeyId(value) !== loadKeyRing().activeKeyId;
+
+export const encryptToken = (plaintext: string): string => {
+  const { activeKeyId, keys } = loadKeyRing();
+
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  const wrapped = seal(keys.get(activeKeyId)!, dataKey);
+  const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  return PREFIX + [
+    activeKeyId,
+    Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]).toString('base64'),
+    sealed.iv.toString('base64'),
+    sealed.tag.toString('base64'),
+    sealed.ciphertext.toString('base64')
+  ].join(':');
+};
+
+export const decryptToken = (value: string): string => {
+  if (!isEncryptedToken(value)) {
+    // Rows written before encryption was rolled out, until the migration script has run
+    if (process.env.ALLOW_PLAINTEXT_ACCESS_TOKENS === 'true') {
+      return value;
+    }
+    throw new Error('Access token is stored unencrypted; run `npm run tokens:encrypt`');
+  }
+
+  const [keyId, wrappedDataKey, iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+  const masterKey = loadKeyRing().keys.get(keyId);
+  if (!masterKey) {
+    throw new Error(`Access token was encrypted with unknown key "${keyId}"`);
+  }
+
+  const wrapped = Buffer.from(wrappedDataKey, 'base64');
+  const dataKey = open(
+    masterKey,
+    wrapped.subarray(0, IV_BYTES),
+    wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+    wrapped.subarray(IV_BYTES + TAG_BYTES)
+  );
+
+  return open(
+    dataKey,
+    Buffer.from(iv, 'base64'),
+    Buffer.from(tag, 'base64'),
+    Buffer.from(ciphertext, 'base64')
+  ).toString('utf8');
+};
+
+/**
+ * The only way to read an item's access token; never pass the stored column to a provider directly
+ */
+export const getAccessToken = (item: { encryptedAccessToken: string }) => decryptToken(item.encryptedAccessToken);
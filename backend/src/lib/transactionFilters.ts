@@ -0,0 +1,196 @@
+import { Prisma } from '../../prisma/generated/prisma';
+
+/**
+ * The filters the transaction list and export share. They become a Prisma where
+ * clause for plain listings, and SQL conditions for full-text searches, which
+ * have to filter in the same query as the text match.
+ */
+export interface TransactionFilters {
+  category?: string;
+  accountId?: string;
+  merchantId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+  amountMin?: number;
+  amountMax?: number;
+  type?: 'income' | 'expense';
+  tagIds?: string[];
+  tagMatch?: 'any' | 'all';
+  hasAttachment?: boolean;
+  includeClosed?: boolean;
+}
+
+type FilterQuery = Record<string, unknown>;
+
+const text = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+const date = (value: unknown) => text(value) ? new Date(value as string) : undefined;
+
+const number = (value: unknown) => text(value) ? parseFloat(value as string) : undefined;
+
+/**
+ * Read the filters from a request's query string: category, accountId, merchantId,
+ * dateFrom, dateTo, amountMin, amountMax, type (income, expense or all), tags
+ * (comma-separated ids), tagMatch (any or all), hasAttachment and includeClosed
+ */
+export const parseTransactionFilters = (query: FilterQuery): TransactionFilters => {
+  const filters: TransactionFilters = {
+    category: text(query.category),
+    accountId: text(query.accountId),
+    merchantId: text(query.merchantId),
+    dateFrom: date(query.dateFrom),
+    dateTo: date(query.dateTo),
+    amountMin: number(query.amountMin),
+    amountMax: number(query.amountMax),
+    includeClosed: query.includeClosed === 'true'
+  };
+
+  if (query.type === 'income' || query.type === 'expense') {
+    filters.type = query.type;
+  }
+
+  const tagIds = (text(query.tags) || '').split(',').map(id => id.trim()).filter(Boolean);
+  if (tagIds.length > 0) {
+    filters.tagIds = tagIds;
+    filters.tagMatch = query.tagMatch === 'all' ? 'all' : 'any';
+  }
+
+  if (query.hasAttachment === 'true' || query.hasAttachment === 'false') {
+    filters.hasAttachment = query.hasAttachment === 'true';
+  }
+
+  return filters;
+};
+
+/**
+ * The filters as a where clause for a user's transactions
+ */
+export const transactionWhere = (userId: string, filters: TransactionFilters) => {
+  const where: any = { userId };
+
+  if (!filters.includeClosed) {
+    where.account = { isActive: true };
+  }
+
+  if (filters.category) {
+    // Split transactions are listed under the categories they were split into
+    where.OR = [
+      { primaryCategory: filters.category, splits: { none: {} } },
+      { splits: { some: { category: filters.category } } }
+    ];
+  }
+
+  if (filters.accountId) {
+    where.accountId = filters.accountId;
+  }
+
+  if (filters.merchantId) {
+    where.merchantId = filters.merchantId;
+  }
+
+  if (filters.dateFrom || filters.dateTo) {
+    where.date = {};
+    if (filters.dateFrom) where.date.gte = filters.dateFrom;
+    if (filters.dateTo) where.date.lte = filters.dateTo;
+  }
+
+  if (filters.amountMin !== undefined || filters.amountMax !== undefined) {
+    where.amount = {};
+    if (filters.amountMin !== undefined) where.amount.gte = filters.amountMin;
+    if (filters.amountMax !== undefined) where.amount.lte = filters.amountMax;
+  }
+
+  if (filters.type === 'income') {
+    where.amount = { ...where.amount, lt: 0 };
+  } else if (filters.type === 'expense') {
+    where.amount = { ...where.amount, gt: 0 };
+  }
+
+  if (filters.tagIds) {
+    if (filters.tagMatch === 'all') {
+      where.AND = filters.tagIds.map(tagId => ({ tags: { some: { tagId } } }));
+    } else {
+      where.tags = { some: { tagId: { in: filters.tagIds } } };
+    }
+  }
+
+  if (filters.hasAttachment === true) {
+    where.attachments = { some: {} };
+  } else if (filters.hasAttachment === false) {
+    where.attachments = { none: {} };
+  }
+
+  return where as Prisma.TransactionWhereInput;
+};
+
+/**
+ * The same filters as SQL conditions on a user's transactions, aliased as t
+ */
+export const transactionFilterSql = (userId: string, filters: TransactionFilters) => {
+  const conditions = [Prisma.sql`t."userId" = ${userId}`];
+
+  if (!filters.includeClosed) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "public"."accounts" AS a WHERE a."id" = t."accountId" AND a."isActive"
+    )`);
+  }
+
+  if (filters.category) {
+    conditions.push(Prisma.sql`(
+      (t."primaryCategory" = ${filters.category}
+        AND NOT EXISTS (SELECT 1 FROM "public"."transaction_splits" AS s WHERE s."transactionId" = t."id"))
+      OR EXISTS (
+        SELECT 1 FROM "public"."transaction_splits" AS s
+        WHERE s."transactionId" = t."id" AND s."category" = ${filters.category}
+      )
+    )`);
+  }
+
+  if (filters.accountId) {
+    conditions.push(Prisma.sql`t."accountId" = ${filters.accountId}`);
+  }
+
+  if (filters.merchantId) {
+    conditions.push(Prisma.sql`t."merchantId" = ${filters.merchantId}`);
+  }
+
+  if (filters.dateFrom) {
+    conditions.push(Prisma.sql`t."date" >= ${filters.dateFrom}`);
+  }
+  if (filters.dateTo) {
+    conditions.push(Prisma.sql`t."date" <= ${filters.dateTo}`);
+  }
+
+  if (filters.amountMin !== undefined) {
+    conditions.push(Prisma.sql`t."amount" >= ${filters.amountMin}`);
+  }
+  if (filters.amountMax !== undefined) {
+    conditions.push(Prisma.sql`t."amount" <= ${filters.amountMax}`);
+  }
+
+  if (filters.type === 'income') {
+    conditions.push(Prisma.sql`t."amount" < 0`);
+  } else if (filters.type === 'expense') {
+    conditions.push(Prisma.sql`t."amount" > 0`);
+  }
+
+  if (filters.tagIds) {
+    const tagged = (tagIds: string[]) => Prisma.sql`EXISTS (
+      SELECT 1 FROM "public"."transaction_tags" AS tt
+      WHERE tt."transactionId" = t."id" AND tt."tagId" IN (${Prisma.join(tagIds)})
+    )`;
+    if (filters.tagMatch === 'all') {
+      filters.tagIds.forEach(tagId => conditions.push(tagged([tagId])));
+    } else {
+      conditions.push(tagged(filters.tagIds));
+    }
+  }
+
+  if (filters.hasAttachment !== undefined) {
+    conditions.push(Prisma.sql`${Prisma.raw(filters.hasAttachment ? 'EXISTS' : 'NOT EXISTS')} (
+      SELECT 1 FROM "public"."attachments" AS f WHERE f."transactionId" = t."id"
+    )`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+};
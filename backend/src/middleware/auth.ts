@@ -11,6 +11,7 @@ declare global {
         email: string;
         fullName: string;
       };
+      rawBody?: Buffer; // Unparsed JSON body, kept for webhook signature checks
     }
   }
 }
@@ -0,0 +1,14 @@
+import { Readable } from 'stream';
+
+/**
+ * Where attachment files live. The database only keeps each file's key, so local
+ * disk can be swapped for object storage without touching the routes.
+ */
+export interface AttachmentStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Throws if there is no file under the key
+  get(key: string): Promise<Readable>;
+  // Does nothing if the file is already gone
+  delete(key: string): Promise<void>;
+}
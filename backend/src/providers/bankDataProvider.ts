@@ -0,0 +1,180 @@
+/**
+ * Provider-neutral shapes for everything we pull from a bank data aggregator.
+ * The sync pipeline and routes only talk to a BankDataProvider, so Plaid can be
+ * swapped for the offline fixture provider (or another aggregator).
+ */
+
+export interface ProviderItem {
+  itemId: string;
+  institutionId: string | null;
+  institutionName: string | null;
+  errorCode: string | null;
+  consentExpirationTime: string | null;
+}
+
+export interface ProviderAccount {
+  accountId: string;
+  name: string;
+  officialName: string | null;
+  type: string;
+  subtype: string | null;
+  mask: string | null;
+  balances: {
+    current: number | null;
+    available: number | null;
+    limit: number | null;
+  };
+}
+
+export interface ProviderTransaction {
+  transactionId: string;
+  accountId: string;
+  name: string;
+  merchantName: string | null;
+  amount: number; // Positive for expenses, negative for income
+  date: string; // YYYY-MM-DD
+  authorizedDate: string | null;
+  categories: string[];
+  pending: boolean;
+  pendingTransactionId: string | null;
+  location: {
+    city: string | null;
+    region: string | null;
+    country: string | null;
+  };
+}
+
+export interface TransactionSyncPage {
+  added: ProviderTransaction[];
+  modified: ProviderTransaction[];
+  removed: string[]; // transaction ids
+  nextCursor: string;
+  hasMore: boolean;
+}
+
+export interface ProviderSecurity {
+  securityId: string;
+  name: string | null;
+  tickerSymbol: string | null;
+  type: string | null; // equity, etf, mutual fund, fixed income, cash, cryptocurrency...
+  isCashEquivalent: boolean;
+  closePrice: number | null;
+  closePriceAsOf: string | null; // YYYY-MM-DD
+  isoCurrencyCode: string | null;
+}
+
+export interface ProviderHolding {
+  accountId: string;
+  securityId: string;
+  quantity: number;
+  institutionPrice: number;
+  institutionPriceAsOf: string | null;
+  institutionValue: number;
+  costBasis: number | null; // Total cost of the position, not per share
+  isoCurrencyCode: string | null;
+}
+
+export interface ProviderInvestmentTransaction {
+  investmentTransactionId: string;
+  accountId: string;
+  securityId: string | null;
+  name: string;
+  type: string; // buy, sell, cash, fee, transfer, cancel
+  subtype: string | null;
+  amount: number; // Positive when cash leaves the account
+  quantity: number;
+  price: number;
+  fees: number | null;
+  date: string; // YYYY-MM-DD
+  isoCurrencyCode: string | null;
+}
+
+export interface ProviderLiability {
+  accountId: string;
+  type: 'credit' | 'student' | 'mortgage';
+  aprs: Array<{
+    type: string; // purchase_apr, balance_transfer_apr, cash_apr, special
+    percentage: number;
+    balanceSubjectToApr: number | null;
+  }>;
+  interestRatePercentage: number | null; // Loans only
+  interestRateType: string | null; // fixed or variable, mortgages only
+  lastStatementBalance: number | null;
+  lastStatementIssueDate: string | null;
+  lastPaymentAmount: number | null;
+  lastPaymentDate: string | null;
+  minimumPaymentAmount: number | null;
+  nextPaymentDueDate: string | null;
+  isOverdue: boolean | null;
+  originationPrincipalAmount: number | null;
+  originationDate: string | null;
+  payoffDate: string | null; // Expected payoff for student loans, maturity for mortgages
+}
+
+export interface WebhookVerificationKey {
+  alg: string;
+  crv: string;
+  kid: string;
+  kty: string;
+  use: string;
+  x: string;
+  y: string;
+  created_at: number;
+  expired_at: number | null;
+}
+
+export interface LinkTokenOptions {
+  userId: string;
+  accessToken?: string; // Set to open Link in update mode for an existing item
+  webhook?: string;
+  includeInvestments?: boolean; // Also request investments where the institution supports it
+  includeLiabilities?: boolean; // Also request liabilities where the institution supports it
+}
+
+export interface BankDataProvider {
+  readonly name: string;
+
+  createLinkToken(options: LinkTokenOptions): Promise<{ linkToken: string; expiration: string }>;
+  exchangePublicToken(publicToken: string): Promise<{ accessToken: string; itemId: string }>;
+  getItem(accessToken: string): Promise<ProviderItem>;
+  getAccounts(accessToken: string): Promise<ProviderAccount[]>;
+  // One page of transactions in a date range, newest first
+  getTransactions(accessToken: string, startDate: string, endDate: string, count: number, offset?: number): Promise<{
+    accounts: ProviderAccount[];
+    transactions: ProviderTransaction[];
+    totalTransactions: number;
+  }>;
+  syncTransactions(accessToken: string, cursor: string | undefined, options: {
+    count: number;
+    daysRequested: number;
+  }): Promise<TransactionSyncPage>;
+  getInvestmentHoldings(accessToken: string): Promise<{
+    holdings: ProviderHolding[];
+    securities: ProviderSecurity[];
+  }>;
+  // Returns every investment transaction in the range, paging internally
+  getInvestmentTransactions(accessToken: string, startDate: string, endDate: string): Promise<{
+    transactions: ProviderInvestmentTransaction[];
+    securities: ProviderSecurity[];
+  }>;
+  getLiabilities(accessToken: string): Promise<ProviderLiability[]>;
+  removeItem(accessToken: string): Promise<void>;
+  getWebhookVerificationKey(keyId: string): Promise<WebhookVerificationKey>;
+}
+
+/**
+ * Error raised by providers, carrying the aggregator's error code
+ * (e.g. ITEM_LOGIN_REQUIRED) so callers don't depend on the HTTP client's error shape
+ */
+export class BankDataProviderError extends Error {
+  constructor(public errorCode: string, message: string) {
+    super(message);
+    this.name = 'BankDataProviderError';
+  }
+}
+
+/**
+ * Read the provider error code off any thrown value
+ */
+export const getProviderErrorCode = (error: unknown): string | undefined =>
+  error instanceof BankDataProviderError ? error.errorCode : undefined;
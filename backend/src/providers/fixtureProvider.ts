@@ -0,0 +1,312 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  BankDataProvider,
+  BankDataProviderError,
+  LinkTokenOptions,
+  ProviderAccount,
+  ProviderHolding,
+  ProviderInvestmentTransaction,
+  ProviderLiability,
+  ProviderSecurity,
+  ProviderTransaction
+} from './bankDataProvider';
+
+type TransactionFixture = Pick<ProviderTransaction, 'transactionId' | 'accountId' | 'name' | 'amount' | 'date'>
+  & Partial<ProviderTransaction>;
+
+type AccountFixture = Pick<ProviderAccount, 'accountId' | 'name' | 'type'>
+  & Partial<Omit<ProviderAccount, 'balances'>>
+  & { balances?: Partial<ProviderAccount['balances']> };
+
+type LiabilityFixture = Pick<ProviderLiability, 'accountId' | 'type'> & Partial<ProviderLiability>;
+
+interface FixtureScenario {
+  institution: { id: string; name: string };
+  accounts: AccountFixture[];
+  // Each sync consumes one update; within an update `added` is paged by the requested count
+  updates: Array<{
+    added?: TransactionFixture[];
+    modified?: TransactionFixture[];
+    removed?: string[];
+  }>;
+  // Once this many updates have been consumed the item needs the user to log in again
+  loginRequiredAfterUpdate?: number;
+  // Older transactions the sync feed never returns, only reachable through getTransactions
+  history?: TransactionFixture[];
+  // Present for brokerage scenarios; security ids are shared across scenarios like Plaid's
+  investments?: {
+    securities: ProviderSecurity[];
+    holdings: ProviderHolding[];
+    transactions: ProviderInvestmentTransaction[];
+  };
+  // Present for scenarios with credit cards or loans
+  liabilities?: LiabilityFixture[];
+}
+
+const PUBLIC_TOKEN_PREFIX = 'public-fixture-';
+const ACCESS_TOKEN_PREFIX = 'access-fixture-';
+const ITEM_ID_PREFIX = 'item-fixture-';
+
+/**
+ * Deterministic offline provider backed by JSON scenarios in fixtures/bank.
+ *
+ * Public tokens look like `public-fixture-<scenario>` with an optional `.<tag>`
+ * suffix so the same scenario can be linked more than once. Account and
+ * transaction ids are prefixed with `<scenario>[.<tag>]/` to keep linked copies
+ * apart. Cursors encode `<update index>:<offset>`, so sync progress lives
+ * entirely in our database.
+ */
+export class FixtureProvider implements BankDataProvider {
+  readonly name = 'fixture';
+  private scenarios: Map<string, FixtureScenario> = new Map();
+  private repairedTokens: Set<string> = new Set();
+
+  constructor(private fixturesDir: string = process.env.BANK_FIXTURES_DIR || path.resolve(__dirname, '../../fixtures/bank')) {}
+
+  async createLinkToken({ userId, accessToken }: LinkTokenOptions) {
+    if (accessToken) {
+      // There is no Link UI offline, so asking for an update-mode token counts as the user re-authenticating
+      this.parseToken(accessToken, ACCESS_TOKEN_PREFIX);
+      this.repairedTokens.add(accessToken);
+    }
+
+    return {
+      linkToken: `link-fixture-${userId}-${Date.now()}`,
+      expiration: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString()
+    };
+  }
+
+  async exchangePublicToken(publicToken: string) {
+    const { namespace } = this.parseToken(publicToken, PUBLIC_TOKEN_PREFIX);
+
+    return {
+      accessToken: `${ACCESS_TOKEN_PREFIX}${namespace}`,
+      itemId: `${ITEM_ID_PREFIX}${namespace}`
+    };
+  }
+
+  async getItem(accessToken: string) {
+    const { scenario, namespace } = this.parseToken(accessToken, ACCESS_TOKEN_PREFIX);
+    const fixture = this.loadScenario(scenario);
+
+    return {
+      itemId: `${ITEM_ID_PREFIX}${namespace}`,
+      institutionId: fixture.institution.id,
+      institutionName: fixture.institution.name,
+      errorCode: null,
+      consentExpirationTime: null
+    };
+  }
+
+  async getAccounts(accessToken: string) {
+    const { scenario, namespace } = this.parseToken(accessToken, ACCESS_TOKEN_PREFIX);
+    return this.loadScenario(scenario).accounts.map(a => toAccount(a, namespace));
+  }
+
+  async getTransactions(accessToken: string, startDate: string, endDate: string, count: number, offset: number = 0) {
+    const { scenario, namespace } = this.parseToken(accessToken, ACCESS_TOKEN_PREFIX);
+    const fixture = this.loadScenario(scenario);
+
+    // Replay every update on top of the history to get the final state of the item
+    const transactions = new Map<string, ProviderTransaction>();
+    (fixture.history || []).forEach(t => transactions.set(t.transactionId, toTransaction(t, namespace)));
+    for (const update of fixture.updates) {
+      [...(update.added || []), ...(update.modified || [])].forEach(t => transactions.set(t.transactionId, toTransaction(t, namespace)));
+      (update.removed || []).forEach(id => transactions.delete(id));
+    }
+
+    const inRange = Array.from(transactions.values())
+      .filter(t => t.date >= startDate && t.date <= endDate)
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    return {
+      accounts: fixture.accounts.map(a => toAccount(a, namespace)),
+      transactions: inRange.slice(offset, offset + count),
+      totalTransactions: inRange.length
+    };
+  }
+
+  async syncTransactions(accessToken: string, cursor: string | undefined, options: {
+    count: number;
+    daysRequested: number;
+  }) {
+    const { scenario, namespace } = this.parseToken(accessToken, ACCESS_TOKEN_PREFIX);
+    const fixture = this.loadScenario(scenario);
+    const [updateIndex, offset] = (cursor || '0:0').split(':').map(n => parseInt(n, 10) || 0);
+
+    if (fixture.loginRequiredAfterUpdate !== undefined &&
+        updateIndex >= fixture.loginRequiredAfterUpdate &&
+        !this.repairedTokens.has(accessToken)) {
+      throw new BankDataProviderError(
+        'ITEM_LOGIN_REQUIRED',
+        'ITEM_LOGIN_REQUIRED: the login details of this item have changed'
+      );
+    }
+
+    const update = fixture.updates[updateIndex];
+    if (!update) {
+      return { added: [], modified: [], removed: [], nextCursor: `${updateIndex}:0`, hasMore: false };
+    }
+
+    const added = update.added || [];
+    const page = added.slice(offset, offset + options.count).map(t => toTransaction(t, namespace));
+    const isFirstPage = offset === 0;
+    const hasMore = offset + options.count < added.length;
+
+    return {
+      added: page,
+      modified: isFirstPage ? (update.modified || []).map(t => toTransaction(t, namespace)) : [],
+      removed: isFirstPage ? (update.removed || []).map(id => `${namespace}/${id}`) : [],
+      nextCursor: hasMore ? `${updateIndex}:${offset + options.count}` : `${updateIndex + 1}:0`,
+      hasMore
+    };
+  }
+
+  async getInvestmentHoldings(accessToken: string) {
+    const { namespace, investments } = this.loadInvestments(accessToken);
+
+    return {
+      holdings: investments.holdings.map(h => ({ ...h, accountId: `${namespace}/${h.accountId}` })),
+      securities: investments.securities
+    };
+  }
+
+  async getInvestmentTransactions(accessToken: string, startDate: string, endDate: string) {
+    const { namespace, investments } = this.loadInvestments(accessToken);
+
+    return {
+      transactions: investments.transactions
+        .filter(t => t.date >= startDate && t.date <= endDate)
+        .map(t => ({
+          ...t,
+          investmentTransactionId: `${namespace}/${t.investmentTransactionId}`,
+          accountId: `${namespace}/${t.accountId}`
+        })),
+      securities: investments.securities
+    };
+  }
+
+  async getLiabilities(accessToken: string) {
+    const { scenario, namespace } = this.parseToken(accessToken, ACCESS_TOKEN_PREFIX);
+    const { liabilities } = this.loadScenario(scenario);
+
+    if (!liabilities) {
+      throw new BankDataProviderError(
+        'PRODUCTS_NOT_SUPPORTED',
+        `PRODUCTS_NOT_SUPPORTED: fixture scenario ${scenario} has no liabilities`
+      );
+    }
+
+    return liabilities.map(l => toLiability(l, namespace));
+  }
+
+  async removeItem(accessToken: string) {
+    this.parseToken(accessToken, ACCESS_TOKEN_PREFIX);
+    this.repairedTokens.delete(accessToken);
+  }
+
+  async getWebhookVerificationKey(keyId: string): Promise<never> {
+    throw new BankDataProviderError(
+      'INVALID_FIELD',
+      `The fixture provider has no webhook key ${keyId}; cache a local key instead`
+    );
+  }
+
+  private parseToken(token: string, prefix: string) {
+    if (!token.startsWith(prefix)) {
+      throw new BankDataProviderError('INVALID_ACCESS_TOKEN', `INVALID_ACCESS_TOKEN: ${token} is not a fixture token`);
+    }
+
+    const namespace = token.slice(prefix.length);
+    const [scenario] = namespace.split('.');
+    this.loadScenario(scenario);
+    return { scenario, namespace };
+  }
+
+  private loadInvestments(accessToken: string) {
+    const { scenario, namespace } = this.parseToken(accessToken, ACCESS_TOKEN_PREFIX);
+    const { investments } = this.loadScenario(scenario);
+
+    if (!investments) {
+      throw new BankDataProviderError(
+        'PRODUCTS_NOT_SUPPORTED',
+        `PRODUCTS_NOT_SUPPORTED: fixture scenario ${scenario} has no investments`
+      );
+    }
+
+    return { namespace, investments };
+  }
+
+  private loadScenario(scenario: string): FixtureScenario {
+    const cached = this.scenarios.get(scenario);
+    if (cached) {
+      return cached;
+    }
+
+    const file = path.join(this.fixturesDir, `${path.basename(scenario)}.json`);
+    if (!fs.existsSync(file)) {
+      throw new BankDataProviderError('INVALID_ACCESS_TOKEN', `INVALID_ACCESS_TOKEN: unknown fixture scenario ${scenario}`);
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as FixtureScenario;
+    this.scenarios.set(scenario, fixture);
+    return fixture;
+  }
+}
+
+function toAccount(fixture: AccountFixture, namespace: string): ProviderAccount {
+  return {
+    accountId: `${namespace}/${fixture.accountId}`,
+    name: fixture.name,
+    officialName: fixture.officialName || null,
+    type: fixture.type,
+    subtype: fixture.subtype || null,
+    mask: fixture.mask || null,
+    balances: {
+      current: fixture.balances?.current ?? null,
+      available: fixture.balances?.available ?? null,
+      limit: fixture.balances?.limit ?? null
+    }
+  };
+}
+
+function toTransaction(fixture: TransactionFixture, namespace: string): ProviderTransaction {
+  return {
+    transactionId: `${namespace}/${fixture.transactionId}`,
+    accountId: `${namespace}/${fixture.accountId}`,
+    name: fixture.name,
+    merchantName: fixture.merchantName || null,
+    amount: fixture.amount,
+    date: fixture.date,
+    authorizedDate: fixture.authorizedDate || null,
+    categories: fixture.categories || [],
+    pending: fixture.pending || false,
+    pendingTransactionId: fixture.pendingTransactionId ? `${namespace}/${fixture.pendingTransactionId}` : null,
+    location: {
+      city: fixture.location?.city || null,
+      region: fixture.location?.region || null,
+      country: fixture.location?.country || null
+    }
+  };
+}
+
+function toLiability(fixture: LiabilityFixture, namespace: string): ProviderLiability {
+  return {
+    accountId: `${namespace}/${fixture.accountId}`,
+    type: fixture.type,
+    aprs: fixture.aprs || [],
+    interestRatePercentage: fixture.interestRatePercentage ?? null,
+    interestRateType: fixture.interestRateType ?? null,
+    lastStatementBalance: fixture.lastStatementBalance ?? null,
+    lastStatementIssueDate: fixture.lastStatementIssueDate ?? null,
+    lastPaymentAmount: fixture.lastPaymentAmount ?? null,
+    lastPaymentDate: fixture.lastPaymentDate ?? null,
+    minimumPaymentAmount: fixture.minimumPaymentAmount ?? null,
+    nextPaymentDueDate: fixture.nextPaymentDueDate ?? null,
+    isOverdue: fixture.isOverdue ?? null,
+    originationPrincipalAmount: fixture.originationPrincipalAmount ?? null,
+    originationDate: fixture.originationDate ?? null,
+    payoffDate: fixture.payoffDate ?? null
+  };
+}
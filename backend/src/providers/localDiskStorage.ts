@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { AttachmentStorage } from './attachmentStorage';
+
+/**
+ * Keeps attachments as files under a directory, one path segment per part of the key
+ */
+export class LocalDiskStorage implements AttachmentStorage {
+  readonly name = 'local disk';
+
+  constructor(private readonly rootDir = process.env.ATTACHMENT_DIR || path.resolve(__dirname, '../../uploads/attachments')) {}
+
+  async put(key: string, data: Buffer) {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data, { flag: 'wx' });
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    // Fail here rather than mid-response if the file is missing
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+    // Keys are generated by us, but never let one point outside the storage directory
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid attachment key ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,388 @@
+import {
+  AccountBase,
+  Configuration,
+  CountryCode,
+  CreditCardLiability,
+  Holding,
+  InvestmentTransaction,
+  MortgageLiability,
+  PlaidApi,
+  PlaidEnvironments,
+  Products,
+  Security,
+  StudentLoan,
+  Transaction as PlaidTransaction
+} from 'plaid';
+import {
+  BankDataProvider,
+  BankDataProviderError,
+  LinkTokenOptions,
+  ProviderAccount,
+  ProviderHolding,
+  ProviderInvestmentTransaction,
+  ProviderLiability,
+  ProviderSecurity,
+  ProviderTransaction
+} from './bankDataProvider';
+
+// /investments/transactions/get page size (Plaid's maximum)
+const INVESTMENT_TRANSACTIONS_PAGE_SIZE = 500;
+
+export class PlaidProvider implements BankDataProvider {
+  readonly name = 'plaid';
+  private client: PlaidApi;
+
+  constructor() {
+    const configuration = new Configuration({
+      basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments || 'sandbox'],
+      baseOptions: {
+        headers: {
+          'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID,
+          'PLAID-SECRET': process.env.PLAID_SECRET,
+        },
+      },
+    });
+    this.client = new PlaidApi(configuration);
+  }
+
+  async createLinkToken({ userId, accessToken, webhook, includeInvestments, includeLiabilities }: LinkTokenOptions) {
+    const optionalProducts = [
+      ...(includeInvestments ? [Products.Investments] : []),
+      ...(includeLiabilities ? [Products.Liabilities] : [])
+    ];
+
+    const response = await this.call(() => this.client.linkTokenCreate({
+      user: {
+        client_user_id: userId,
+      },
+      client_name: 'My Money App',
+      // Passing the existing access token (and no products) puts Link in update mode
+      ...(accessToken
+        ? { access_token: accessToken }
+        : {
+            products: [Products.Transactions, Products.Auth],
+            // Optional products don't hide institutions that lack them
+            ...(optionalProducts.length > 0 && { optional_products: optionalProducts })
+          }),
+      country_codes: [CountryCode.Us],
+      language: 'en',
+      webhook,
+    }));
+
+    return { linkToken: response.data.link_token, expiration: response.data.expiration };
+  }
+
+  async exchangePublicToken(publicToken: string) {
+    const response = await this.call(() => this.client.itemPublicTokenExchange({
+      public_token: publicToken,
+    }));
+
+    return { accessToken: response.data.access_token, itemId: response.data.item_id };
+  }
+
+  async getItem(accessToken: string) {
+    const itemResponse = await this.call(() => this.client.itemGet({
+      access_token: accessToken,
+    }));
+    const item = itemResponse.data.item;
+
+    let institutionName = item.institution_name || null;
+    if (!institutionName && item.institution_id) {
+      const institutionResponse = await this.call(() => this.client.institutionsGetById({
+        institution_id: item.institution_id!,
+        country_codes: [CountryCode.Us],
+      }));
+      institutionName = institutionResponse.data.institution.name;
+    }
+
+    return {
+      itemId: item.item_id,
+      institutionId: item.institution_id || null,
+      institutionName,
+      errorCode: item.error?.error_code || null,
+      consentExpirationTime: item.consent_expiration_time
+    };
+  }
+
+  async getAccounts(accessToken: string) {
+    const response = await this.call(() => this.client.accountsGet({
+      access_token: accessToken,
+    }));
+
+    return response.data.accounts.map(toProviderAccount);
+  }
+
+  async getTransactions(accessToken: string, startDate: string, endDate: string, count: number, offset: number = 0) {
+    const response = await this.call(() => this.client.transactionsGet({
+      access_token: accessToken,
+      start_date: startDate,
+      end_date: endDate,
+      options: {
+        count,
+        offset,
+      },
+    }));
+
+    return {
+      accounts: response.data.accounts.map(toProviderAccount),
+      transactions: response.data.transactions.map(toProviderTransaction),
+      totalTransactions: response.data.total_transactions
+    };
+  }
+
+  async syncTransactions(accessToken: string, cursor: string | undefined, options: {
+    count: number;
+    daysRequested: number;
+  }) {
+    const response = await this.call(() => this.client.transactionsSync({
+      access_token: accessToken,
+      cursor,
+      count: options.count,
+      options: {
+        days_requested: options.daysRequested
+      }
+    }));
+
+    return {
+      added: response.data.added.map(toProviderTransaction),
+      modified: response.data.modified.map(toProviderTransaction),
+      removed: response.data.removed
+        .map(t => t.transaction_id)
+        .filter((id): id is string => !!id),
+      nextCursor: response.data.next_cursor,
+      hasMore: response.data.has_more
+    };
+  }
+
+  async getInvestmentHoldings(accessToken: string) {
+    const response = await this.call(() => this.client.investmentsHoldingsGet({
+      access_token: accessToken,
+    }));
+
+    return {
+      holdings: response.data.holdings.map(toProviderHolding),
+      securities: response.data.securities.map(toProviderSecurity)
+    };
+  }
+
+  async getInvestmentTransactions(accessToken: string, startDate: string, endDate: string) {
+    const transactions: ProviderInvestmentTransaction[] = [];
+    const securities = new Map<string, ProviderSecurity>();
+    let total = Infinity;
+
+    while (transactions.length < total) {
+      const response = await this.call(() => this.client.investmentsTransactionsGet({
+        access_token: accessToken,
+        start_date: startDate,
+        end_date: endDate,
+        options: {
+          count: INVESTMENT_TRANSACTIONS_PAGE_SIZE,
+          offset: transactions.length,
+        },
+      }));
+
+      total = response.data.total_investment_transactions;
+      transactions.push(...response.data.investment_transactions.map(toProviderInvestmentTransaction));
+      response.data.securities.forEach(security => securities.set(security.security_id, toProviderSecurity(security)));
+
+      if (response.data.investment_transactions.length === 0) break;
+    }
+
+    return { transactions, securities: Array.from(securities.values()) };
+  }
+
+  async getLiabilities(accessToken: string) {
+    const response = await this.call(() => this.client.liabilitiesGet({
+      access_token: accessToken,
+    }));
+    const { credit, student, mortgage } = response.data.liabilities;
+
+    return [
+      ...(credit || []).filter(l => l.account_id).map(toCreditLiability),
+      ...(student || []).filter(l => l.account_id).map(toStudentLoanLiability),
+      ...(mortgage || []).map(toMortgageLiability)
+    ];
+  }
+
+  async removeItem(accessToken: string) {
+    await this.call(() => this.client.itemRemove({
+      access_token: accessToken,
+    }));
+  }
+
+  async getWebhookVerificationKey(keyId: string) {
+    const response = await this.call(() => this.client.webhookVerificationKeyGet({ key_id: keyId }));
+    return response.data.key;
+  }
+
+  /**
+   * Run a Plaid call, turning Plaid API errors into BankDataProviderErrors
+   */
+  private async call<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error: any) {
+      const plaidError = error.response?.data;
+      if (plaidError?.error_code) {
+        throw new BankDataProviderError(
+          plaidError.error_code,
+          `${plaidError.error_code}: ${plaidError.error_message || error.message}`
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+function toProviderAccount(account: AccountBase): ProviderAccount {
+  return {
+    accountId: account.account_id,
+    name: account.name,
+    officialName: account.official_name || null,
+    type: account.type,
+    subtype: account.subtype || null,
+    mask: account.mask || null,
+    balances: {
+      current: account.balances.current ?? null,
+      available: account.balances.available ?? null,
+      limit: account.balances.limit ?? null
+    }
+  };
+}
+
+function toProviderTransaction(transaction: PlaidTransaction): ProviderTransaction {
+  return {
+    transactionId: transaction.transaction_id,
+    accountId: transaction.account_id,
+    name: transaction.name,
+    merchantName: transaction.merchant_name || null,
+    amount: transaction.amount,
+    date: transaction.date,
+    authorizedDate: transaction.authorized_date || null,
+    categories: transaction.category || [],
+    pending: transaction.pending,
+    pendingTransactionId: transaction.pending_transaction_id || null,
+    location: {
+      city: transaction.location?.city || null,
+      region: transaction.location?.region || null,
+      country: transaction.location?.country || null
+    }
+  };
+}
+
+function toProviderSecurity(security: Security): ProviderSecurity {
+  return {
+    securityId: security.security_id,
+    name: security.name,
+    tickerSymbol: security.ticker_symbol,
+    type: security.type,
+    isCashEquivalent: security.is_cash_equivalent || false,
+    closePrice: security.close_price,
+    closePriceAsOf: security.close_price_as_of,
+    isoCurrencyCode: security.iso_currency_code
+  };
+}
+
+function toProviderHolding(holding: Holding): ProviderHolding {
+  return {
+    accountId: holding.account_id,
+    securityId: holding.security_id,
+    quantity: holding.quantity,
+    institutionPrice: holding.institution_price,
+    institutionPriceAsOf: holding.institution_price_as_of || null,
+    institutionValue: holding.institution_value,
+    costBasis: holding.cost_basis,
+    isoCurrencyCode: holding.iso_currency_code
+  };
+}
+
+function toProviderInvestmentTransaction(transaction: InvestmentTransaction): ProviderInvestmentTransaction {
+  return {
+    investmentTransactionId: transaction.investment_transaction_id,
+    accountId: transaction.account_id,
+    securityId: transaction.security_id,
+    name: transaction.name,
+    type: transaction.type,
+    subtype: transaction.subtype || null,
+    amount: transaction.amount,
+    quantity: transaction.quantity,
+    price: transaction.price,
+    fees: transaction.fees,
+    date: transaction.date,
+    isoCurrencyCode: transaction.iso_currency_code
+  };
+}
+
+const emptyLiability = {
+  aprs: [],
+  interestRatePercentage: null,
+  interestRateType: null,
+  lastStatementBalance: null,
+  lastStatementIssueDate: null,
+  lastPaymentAmount: null,
+  lastPaymentDate: null,
+  minimumPaymentAmount: null,
+  nextPaymentDueDate: null,
+  isOverdue: null,
+  originationPrincipalAmount: null,
+  originationDate: null,
+  payoffDate: null
+};
+
+function toCreditLiability(liability: CreditCardLiability): ProviderLiability {
+  return {
+    ...emptyLiability,
+    accountId: liability.account_id!,
+    type: 'credit',
+    aprs: liability.aprs.map(apr => ({
+      type: apr.apr_type,
+      percentage: apr.apr_percentage,
+      balanceSubjectToApr: apr.balance_subject_to_apr
+    })),
+    lastStatementBalance: liability.last_statement_balance,
+    lastStatementIssueDate: liability.last_statement_issue_date,
+    lastPaymentAmount: liability.last_payment_amount,
+    lastPaymentDate: liability.last_payment_date,
+    minimumPaymentAmount: liability.minimum_payment_amount,
+    nextPaymentDueDate: liability.next_payment_due_date,
+    isOverdue: liability.is_overdue
+  };
+}
+
+function toStudentLoanLiability(loan: StudentLoan): ProviderLiability {
+  return {
+    ...emptyLiability,
+    accountId: loan.account_id!,
+    type: 'student',
+    interestRatePercentage: loan.interest_rate_percentage,
+    lastStatementBalance: loan.last_statement_balance ?? null,
+    lastStatementIssueDate: loan.last_statement_issue_date,
+    lastPaymentAmount: loan.last_payment_amount,
+    lastPaymentDate: loan.last_payment_date,
+    minimumPaymentAmount: loan.minimum_payment_amount,
+    nextPaymentDueDate: loan.next_payment_due_date,
+    isOverdue: loan.is_overdue,
+    originationPrincipalAmount: loan.origination_principal_amount,
+    originationDate: loan.origination_date,
+    payoffDate: loan.expected_payoff_date
+  };
+}
+
+function toMortgageLiability(mortgage: MortgageLiability): ProviderLiability {
+  return {
+    ...emptyLiability,
+    accountId: mortgage.account_id,
+    type: 'mortgage',
+    interestRatePercentage: mortgage.interest_rate.percentage,
+    interestRateType: mortgage.interest_rate.type,
+    lastPaymentAmount: mortgage.last_payment_amount,
+    lastPaymentDate: mortgage.last_payment_date,
+    // Mortgages have no minimum, the scheduled monthly payment is what's due
+    minimumPaymentAmount: mortgage.next_monthly_payment,
+    nextPaymentDueDate: mortgage.next_payment_due_date,
+    isOverdue: mortgage.past_due_amount !== null ? mortgage.past_due_amount > 0 : null,
+    originationPrincipalAmount: mortgage.origination_principal_amount,
+    originationDate: mortgage.origination_date,
+    payoffDate: mortgage.maturity_date
+  };
+}
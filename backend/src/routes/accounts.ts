@@ -1,84 +1,89 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
+import { getAccessToken } from '../lib/tokenEncryption';
 import { authenticateToken } from '../middleware/auth';
-import { Configuration, PlaidApi, PlaidEnvironments, CountryCode } from 'plaid';
+import { BalanceHistoryService, BalanceInterval, BALANCE_INTERVALS } from '../services/balanceHistoryService';
+import { LiabilityService } from '../services/liabilityService';
+import { ManualEntryService, MANUAL_ACCOUNT_TYPES } from '../services/manualEntryService';
+import { TransactionSyncService } from '../services/transactionSyncService';
 
 const accountsRouter = Router();
 
-// Plaid client setup (for manual sync)
-const configuration = new Configuration({
-  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments || 'sandbox'],
-  baseOptions: {
-    headers: {
-      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID,
-      'PLAID-SECRET': process.env.PLAID_SECRET,
-    },
-  },
-});
-const plaidClient = new PlaidApi(configuration);
-
 accountsRouter.use(authenticateToken);
 
 /**
- * GET /api/accounts
- * Get cached account information with fallback to Plaid
+ * GET /api/accounts?includeClosed=true
+ * Get cached account information with fallback to Plaid. Closed accounts are
+ * only listed when asked for and never count towards the summary.
  */
 accountsRouter.get('/', async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
+    const includeClosed = req.query.includeClosed === 'true';
     console.log(`Getting accounts for user: ${userId}`);
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
       select: {
-        plaidItemId: true,
-        plaidInstitutionName: true,
-        plaidAccessToken: true,
-        lastSyncAt: true,
-        syncStatus: true
+        syncStatus: true,
+        plaidItems: { orderBy: { createdAt: 'asc' } }
       }
     });
 
-    if (!user?.plaidItemId) {
+    if (!user || user.plaidItems.length === 0) {
       console.log('User has no Plaid connection');
+
+      // Manual accounts don't need a bank connection
+      const manualAccounts = await prisma.account.findMany({
+        where: { userId, itemId: null },
+        orderBy: { createdAt: 'asc' }
+      });
+
       return res.json({
-        accounts: [],
-        institution: null,
+        accounts: visibleAccounts(manualAccounts, includeClosed).map(formatAccountForFrontend),
+        institutions: [],
         connected: false,
-        syncStatus: 'NEVER_SYNCED'
+        syncStatus: 'NEVER_SYNCED',
+        summary: calculateAccountSummary(manualAccounts)
       });
     }
 
+    const institutions = user.plaidItems.map(item => TransactionSyncService.formatItem(item));
+
     // Get accounts from database
     const cachedAccounts = await prisma.account.findMany({
-      where: { userId, isActive: true },
+      where: { userId },
+      include: { item: { select: { institutionName: true } } },
       orderBy: { createdAt: 'asc' }
     });
 
     console.log(`Found ${cachedAccounts.length} cached accounts`);
 
-    // If no cached accounts but user is connected, sync from Plaid
-    if (cachedAccounts.length === 0 && user.plaidAccessToken) {
-      console.log('No cached accounts found, syncing from Plaid...');
+    // Sync from Plaid for any linked item that has no cached accounts yet
+    const itemsWithoutAccounts = user.plaidItems.filter(
+      item => !cachedAccounts.some(account => account.itemId === item.id)
+    );
+
+    if (itemsWithoutAccounts.length > 0) {
+      console.log(`No cached accounts for ${itemsWithoutAccounts.length} items, syncing from Plaid...`);
       
       try {
-        await syncAccountsFromPlaid(userId, user.plaidAccessToken);
+        for (const item of itemsWithoutAccounts) {
+          await TransactionSyncService.syncAccounts(userId, item.id, getAccessToken(item));
+        }
         
         // Get the newly synced accounts
         const newlySyncedAccounts = await prisma.account.findMany({
-          where: { userId, isActive: true },
+          where: { userId },
+          include: { item: { select: { institutionName: true } } },
           orderBy: { createdAt: 'asc' }
         });
 
         console.log(`Synced ${newlySyncedAccounts.length} accounts from Plaid`);
         
         return res.json({
-          accounts: newlySyncedAccounts.map(formatAccountForFrontend),
-          institution: {
-            name: user.plaidInstitutionName || 'Connected Bank',
-            item_id: user.plaidItemId,
-            connected_at: user.lastSyncAt
-          },
+          accounts: visibleAccounts(newlySyncedAccounts, includeClosed).map(formatAccountForFrontend),
+          institutions,
           connected: true,
           syncStatus: user.syncStatus,
           summary: calculateAccountSummary(newlySyncedAccounts)
@@ -87,39 +92,25 @@ accountsRouter.get('/', async (req: Request, res: Response) => {
       } catch (syncError: any) {
         console.error('Failed to sync accounts from Plaid:', syncError);
         
-        // Return error but still show connection status
+        // Return what we have but still show connection status
         return res.json({
-          accounts: [],
-          institution: {
-            name: user.plaidInstitutionName || 'Connected Bank',
-            item_id: user.plaidItemId,
-            connected_at: user.lastSyncAt
-          },
+          accounts: visibleAccounts(cachedAccounts, includeClosed).map(formatAccountForFrontend),
+          institutions,
           connected: true,
           syncStatus: 'ERROR',
+          summary: calculateAccountSummary(cachedAccounts),
           error: 'Failed to sync accounts. Please try refreshing.'
         });
       }
     }
 
     // Return cached accounts
-    const totalBalance = cachedAccounts.reduce((sum, acc) => sum + acc.currentBalance, 0);
-    const totalAvailable = cachedAccounts.reduce((sum, acc) => sum + (acc.availableBalance || 0), 0);
-
     res.json({
-      accounts: cachedAccounts.map(formatAccountForFrontend),
-      institution: {
-        name: user.plaidInstitutionName || 'Connected Bank',
-        item_id: user.plaidItemId,
-        connected_at: user.lastSyncAt
-      },
+      accounts: visibleAccounts(cachedAccounts, includeClosed).map(formatAccountForFrontend),
+      institutions,
       connected: true,
       syncStatus: user.syncStatus,
-      summary: {
-        totalAccounts: cachedAccounts.length,
-        totalBalance,
-        totalAvailable
-      }
+      summary: calculateAccountSummary(cachedAccounts)
     });
 
   } catch (error: any) {
@@ -137,26 +128,34 @@ accountsRouter.post('/sync', async (req: Request, res: Response) => {
     const userId = req.user!.id;
     console.log(`Manual account sync requested for user: ${userId}`);
 
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: {
-        plaidAccessToken: true,
-        plaidItemId: true
-      }
+    const items = await prisma.plaidItem.findMany({
+      where: { userId },
+      select: { id: true, encryptedAccessToken: true }
     });
 
-    if (!user?.plaidAccessToken) {
+    if (items.length === 0) {
       return res.status(400).json({ 
         error: 'No bank account connected' 
       });
     }
 
-    const result = await syncAccountsFromPlaid(userId, user.plaidAccessToken);
+    let newAccounts = 0;
+    let updatedAccounts = 0;
+    let closedAccounts = 0;
+
+    for (const item of items) {
+      const result = await TransactionSyncService.syncAccounts(userId, item.id, getAccessToken(item));
+      newAccounts += result.newAccounts;
+      updatedAccounts += result.updatedAccounts;
+      closedAccounts += result.closedAccounts;
+    }
     
     res.json({
       success: true,
-      message: `Synced ${result.newAccounts} new and updated ${result.updatedAccounts} accounts`,
-      ...result
+      message: `Synced ${newAccounts} new and updated ${updatedAccounts} accounts`,
+      newAccounts,
+      updatedAccounts,
+      closedAccounts
     });
 
   } catch (error: any) {
@@ -168,57 +167,129 @@ accountsRouter.post('/sync', async (req: Request, res: Response) => {
   }
 });
 
-// Helper function to sync accounts from Plaid
-async function syncAccountsFromPlaid(userId: string, accessToken: string) {
-  const accountsResponse = await plaidClient.accountsGet({
-    access_token: accessToken,
-  });
+/**
+ * POST /api/accounts/manual
+ * Track an account that isn't connected through a bank (cash, a car loan, ...)
+ */
+accountsRouter.post('/manual', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { name, type, subtype, mask, currentBalance = 0, creditLimit } = req.body;
 
-  let newAccounts = 0;
-  let updatedAccounts = 0;
+    if (!name || !type) {
+      return res.status(400).json({ error: 'Name and type are required' });
+    }
 
-  for (const plaidAccount of accountsResponse.data.accounts) {
-    const existingAccount = await prisma.account.findUnique({
-      where: { plaidAccountId: plaidAccount.account_id }
+    if (!MANUAL_ACCOUNT_TYPES.includes(type)) {
+      return res.status(400).json({ error: `type must be one of ${MANUAL_ACCOUNT_TYPES.join(', ')}` });
+    }
+
+    const balance = parseFloat(currentBalance);
+    const limit = creditLimit !== undefined && creditLimit !== null ? parseFloat(creditLimit) : null;
+    if (isNaN(balance) || (limit !== null && isNaN(limit))) {
+      return res.status(400).json({ error: 'Balances must be numbers' });
+    }
+
+    const account = await ManualEntryService.createAccount(userId, {
+      name,
+      type,
+      subtype,
+      mask,
+      currentBalance: balance,
+      creditLimit: limit
     });
 
-    const accountData = {
-      name: plaidAccount.name,
-      officialName: plaidAccount.official_name || null,
-      type: plaidAccount.type,
-      subtype: plaidAccount.subtype || 'unknown',
-      mask: plaidAccount.mask || null,
-      currentBalance: plaidAccount.balances.current || 0,
-      availableBalance: plaidAccount.balances.available || null,
-      creditLimit: plaidAccount.balances.limit || null,
-      lastUpdatedAt: new Date()
-    };
-
-    if (existingAccount) {
-      await prisma.account.update({
-        where: { id: existingAccount.id },
-        data: accountData
-      });
-      updatedAccounts++;
-    } else {
-      await prisma.account.create({
-        data: {
-          plaidAccountId: plaidAccount.account_id,
-          userId,
-          ...accountData
-        }
+    res.status(201).json({ account: formatAccountForFrontend(account) });
+  } catch (error: any) {
+    console.error('Error creating manual account:', error);
+    res.status(500).json({ error: 'Failed to create account' });
+  }
+});
+
+/**
+ * GET /api/accounts/liabilities/summary
+ * Balances, minimum payments and upcoming due dates across credit cards and loans
+ */
+accountsRouter.get('/liabilities/summary', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const summary = await LiabilityService.getSummary(userId);
+    res.json(summary);
+  } catch (error: any) {
+    console.error('Error fetching liability summary:', error);
+    res.status(500).json({ error: 'Failed to fetch liability summary' });
+  }
+});
+
+/**
+ * GET /api/accounts/:id/liability
+ * APRs, statement, payment and loan details for a credit or loan account
+ */
+accountsRouter.get('/:id/liability', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const result = await LiabilityService.getAccountLiability(userId, req.params.id);
+
+    if (!result) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    if (!result.liability) {
+      return res.status(404).json({
+        error: 'No liability details for this account',
+        account: result.account
       });
-      newAccounts++;
     }
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error fetching account liability:', error);
+    res.status(500).json({ error: 'Failed to fetch account liability' });
   }
+});
 
-  return { newAccounts, updatedAccounts };
-}
+/**
+ * GET /api/accounts/:id/balance-history?from&to&interval
+ * Daily, weekly or monthly closing balances (defaults to the last 90 days by day)
+ */
+accountsRouter.get('/:id/balance-history', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { from, to, interval = 'day' } = req.query;
+
+    if (!BALANCE_INTERVALS.includes(interval as BalanceInterval)) {
+      return res.status(400).json({ error: `interval must be one of ${BALANCE_INTERVALS.join(', ')}` });
+    }
+
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 90 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+
+    const history = await BalanceHistoryService.getBalanceHistory(userId, req.params.id, {
+      from: fromDate,
+      to: toDate,
+      interval: interval as BalanceInterval
+    });
+
+    if (!history) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    res.json(history);
+  } catch (error: any) {
+    console.error('Error fetching balance history:', error);
+    res.status(500).json({ error: 'Failed to fetch balance history' });
+  }
+});
 
 // Helper function to format account for frontend (matching Plaid format)
 function formatAccountForFrontend(account: any) {
   return {
-    account_id: account.plaidAccountId,
+    // Manual accounts have no Plaid id
+    account_id: account.plaidAccountId || account.id,
     name: account.name,
     official_name: account.officialName,
     balances: {
@@ -228,12 +299,23 @@ function formatAccountForFrontend(account: any) {
     },
     type: account.type,
     subtype: account.subtype,
-    mask: account.mask
+    mask: account.mask,
+    itemId: account.itemId,
+    institution_name: account.item?.institutionName || null,
+    source: account.source,
+    isActive: account.isActive,
+    closedAt: account.closedAt
   };
 }
 
-// Helper function to calculate account summary
-function calculateAccountSummary(accounts: any[]) {
+// Helper function to hide closed accounts unless they were asked for
+function visibleAccounts<T extends { isActive: boolean }>(accounts: T[], includeClosed: boolean) {
+  return includeClosed ? accounts : accounts.filter(account => account.isActive);
+}
+
+// Helper function to calculate account summary (closed accounts don't count)
+function calculateAccountSummary(allAccounts: any[]) {
+  const accounts = allAccounts.filter(account => account.isActive);
   return {
     totalAccounts: accounts.length,
     totalBalance: accounts.reduce((sum, acc) => sum + acc.currentBalance, 0),
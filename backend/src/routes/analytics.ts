@@ -54,6 +54,29 @@ router.get('/merchants', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/analytics/tags
+ * Spending by tag, optionally between dateFrom and dateTo
+ */
+router.get('/tags', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { dateFrom, dateTo } = req.query;
+
+    const from = dateFrom ? new Date(dateFrom as string) : undefined;
+    const to = dateTo ? new Date(dateTo as string) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+
+    const tags = await AnalyticsService.getTagSpending(userId, { from, to });
+    res.json({ tags });
+  } catch (error: any) {
+    console.error('Error fetching tag spending:', error);
+    res.status(500).json({ error: 'Failed to fetch tag spending' });
+  }
+});
+
 /**
  * GET /api/analytics/day-of-week
  * Get spending patterns by day of week
@@ -71,14 +94,17 @@ router.get('/day-of-week', async (req: Request, res: Response) => {
 
 /**
  * GET /api/analytics/monthly-summary
- * Get monthly spending summary for a year
+ * Get monthly spending summary for a year.
+ * Transfers between accounts are left out unless includeTransfers=true.
  */
 router.get('/monthly-summary', async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const year = parseInt(req.query.year as string) || new Date().getFullYear();
     
-    const summary = await AnalyticsService.getMonthlySummary(userId, year);
+    const includeTransfers = req.query.includeTransfers === 'true';
+
+    const summary = await AnalyticsService.getMonthlySummary(userId, year, { includeTransfers });
     res.json({ summary });
   } catch (error: any) {
     console.error('Error fetching monthly summary:', error);
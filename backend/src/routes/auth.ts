@@ -73,10 +73,17 @@ router.get('/me', authenticateToken, async (req: Request, res: Response) => {
         fullName: true,
         createdAt: true,
         updatedAt: true,
-        plaidAccessToken: false, // Don't send token to frontend
-        plaidItemId: true,
-        plaidInstitutionId: true,
-        plaidInstitutionName: true,
+        plaidItems: {
+          select: {
+            id: true,
+            plaidItemId: true,
+            institutionId: true,
+            institutionName: true,
+            syncStatus: true,
+            lastSyncAt: true
+            // Don't send access tokens to frontend
+          }
+        },
         lastSyncAt: true,
         syncStatus: true
       }
@@ -0,0 +1,320 @@
+import express, { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { AMOUNT_SIGNS, DATE_FORMATS, StatementParseError } from '../lib/statementParser';
+import { authenticateToken } from '../middleware/auth';
+import { ImportRow, StatementImportService } from '../services/statementImportService';
+
+const router = Router();
+router.use(authenticateToken);
+
+// Statements are uploaded as the raw request body
+const statementBody = express.text({
+  type: ['text/*', 'application/csv', 'application/x-ofx', 'application/vnd.intu.qfx', 'application/octet-stream'],
+  limit: '10mb'
+});
+
+/**
+ * GET /api/imports/profiles
+ * Saved CSV column mapping profiles
+ */
+router.get('/profiles', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const profiles = await prisma.importProfile.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' }
+    });
+    res.json({ profiles });
+  } catch (error: any) {
+    console.error('Error fetching import profiles:', error);
+    res.status(500).json({ error: 'Failed to fetch import profiles' });
+  }
+});
+
+/**
+ * POST /api/imports/profiles
+ * Save how to read a bank's CSV export
+ */
+router.post('/profiles', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const profile = parseProfile(req.body);
+    if ('error' in profile) {
+      return res.status(400).json({ error: profile.error });
+    }
+
+    const existing = await prisma.importProfile.findFirst({
+      where: { userId, name: profile.name }
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: `You already have a profile called ${profile.name}` });
+    }
+
+    const created = await prisma.importProfile.create({
+      data: { userId, ...profile }
+    });
+
+    res.status(201).json({ profile: created });
+  } catch (error: any) {
+    console.error('Error creating import profile:', error);
+    res.status(500).json({ error: 'Failed to create import profile' });
+  }
+});
+
+/**
+ * PUT /api/imports/profiles/:id
+ * Replace a profile's mapping
+ */
+router.put('/profiles/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const existing = await prisma.importProfile.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Import profile not found' });
+    }
+
+    const profile = parseProfile({ ...existing, ...req.body });
+    if ('error' in profile) {
+      return res.status(400).json({ error: profile.error });
+    }
+
+    const updated = await prisma.importProfile.update({
+      where: { id },
+      data: profile
+    });
+
+    res.json({ profile: updated });
+  } catch (error: any) {
+    console.error('Error updating import profile:', error);
+    res.status(500).json({ error: 'Failed to update import profile' });
+  }
+});
+
+/**
+ * DELETE /api/imports/profiles/:id
+ */
+router.delete('/profiles/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { count } = await prisma.importProfile.deleteMany({
+      where: { id: req.params.id, userId }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Import profile not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting import profile:', error);
+    res.status(500).json({ error: 'Failed to delete import profile' });
+  }
+});
+
+/**
+ * GET /api/imports
+ * Previous imports, newest first
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const imports = await prisma.statementImport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+    res.json({ imports: imports.map(StatementImportService.formatImport) });
+  } catch (error: any) {
+    console.error('Error fetching imports:', error);
+    res.status(500).json({ error: 'Failed to fetch imports' });
+  }
+});
+
+/**
+ * POST /api/imports/preview?format&fileName&profileId&accountId
+ * Upload a CSV, OFX or QFX statement as the request body and get the parsed rows
+ * back with likely duplicates flagged. Duplicates are checked against accountId
+ * when given, otherwise against all of the user's transactions.
+ */
+router.post('/preview', statementBody, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { format, fileName, profileId, accountId } = req.query as Record<string, string | undefined>;
+
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      return res.status(400).json({ error: 'Upload the statement file as the request body' });
+    }
+
+    if (accountId) {
+      const account = await prisma.account.findFirst({ where: { id: accountId, userId } });
+      if (!account) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+    }
+
+    const statementImport = await StatementImportService.createPreview(userId, {
+      content: req.body,
+      format: format ? format.toLowerCase() : undefined,
+      fileName,
+      profileId,
+      accountId
+    });
+
+    res.status(201).json(formatPreview(statementImport));
+  } catch (error: any) {
+    if (error instanceof StatementParseError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error previewing import:', error);
+    res.status(500).json({ error: 'Failed to read statement' });
+  }
+});
+
+/**
+ * GET /api/imports/:id
+ * An import with its rows
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const statementImport = await prisma.statementImport.findFirst({
+      where: { id: req.params.id, userId }
+    });
+
+    if (!statementImport) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    res.json(formatPreview(statementImport));
+  } catch (error: any) {
+    console.error('Error fetching import:', error);
+    res.status(500).json({ error: 'Failed to fetch import' });
+  }
+});
+
+/**
+ * POST /api/imports/:id/commit
+ * Write a previewed import into { accountId }. Rows flagged as duplicates are
+ * skipped unless includeDuplicates is true.
+ */
+router.post('/:id/commit', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { accountId, includeDuplicates = false } = req.body;
+
+    if (!accountId) {
+      return res.status(400).json({ error: 'accountId is required' });
+    }
+
+    const statementImport = await prisma.statementImport.findFirst({
+      where: { id: req.params.id, userId }
+    });
+
+    if (!statementImport) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    if (statementImport.status === 'COMMITTED') {
+      return res.status(409).json({ error: 'This import has already been committed' });
+    }
+
+    const account = await prisma.account.findFirst({
+      where: { id: accountId, userId }
+    });
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    const committed = await StatementImportService.commit(statementImport, account, {
+      includeDuplicates: includeDuplicates === true
+    });
+
+    // Another request committed it since we looked
+    if (!committed) {
+      return res.status(409).json({ error: 'This import has already been committed' });
+    }
+
+    res.json({
+      success: true,
+      message: `Imported ${committed.importedCount} transactions`,
+      import: StatementImportService.formatImport(committed)
+    });
+  } catch (error: any) {
+    console.error('Error committing import:', error);
+    res.status(500).json({ error: 'Failed to import transactions' });
+  }
+});
+
+// Helper function to validate a CSV mapping profile
+function parseProfile(body: any) {
+  const {
+    name,
+    delimiter = ',',
+    dateColumn,
+    dateFormat = 'YYYY-MM-DD',
+    descriptionColumn,
+    merchantColumn = null,
+    amountColumn = null,
+    amountSign = 'expense_negative',
+    debitColumn = null,
+    creditColumn = null
+  } = body;
+
+  if (!name || !dateColumn || !descriptionColumn) {
+    return { error: 'name, dateColumn and descriptionColumn are required' };
+  }
+
+  if (!amountColumn && !(debitColumn && creditColumn)) {
+    return { error: 'Map either amountColumn or both debitColumn and creditColumn' };
+  }
+
+  if (!DATE_FORMATS.includes(dateFormat)) {
+    return { error: `dateFormat must be one of ${DATE_FORMATS.join(', ')}` };
+  }
+
+  if (!AMOUNT_SIGNS.includes(amountSign)) {
+    return { error: `amountSign must be one of ${AMOUNT_SIGNS.join(', ')}` };
+  }
+
+  if (typeof delimiter !== 'string' || delimiter.length !== 1) {
+    return { error: 'delimiter must be a single character' };
+  }
+
+  return {
+    name: String(name),
+    delimiter,
+    dateColumn: String(dateColumn),
+    dateFormat,
+    descriptionColumn: String(descriptionColumn),
+    merchantColumn: merchantColumn ? String(merchantColumn) : null,
+    amountColumn: amountColumn ? String(amountColumn) : null,
+    amountSign,
+    debitColumn: debitColumn ? String(debitColumn) : null,
+    creditColumn: creditColumn ? String(creditColumn) : null
+  };
+}
+
+// Helper function to format an import with its rows for review
+function formatPreview(statementImport: any) {
+  const rows = statementImport.rows as ImportRow[];
+  return {
+    import: StatementImportService.formatImport(statementImport),
+    rows: rows.map(row => ({
+      index: row.index,
+      date: row.date,
+      name: row.name,
+      merchantName: row.merchantName,
+      amount: row.amount,
+      duplicateOf: row.duplicateOf
+    }))
+  };
+}
+
+export default router;
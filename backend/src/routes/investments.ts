@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { InvestmentService } from '../services/investmentService';
+
+const router = Router();
+router.use(authenticateToken);
+
+/**
+ * GET /api/investments
+ * Current positions with unrealized gain/loss, optionally for one account
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const accountId = req.query.accountId as string | undefined;
+
+    const positions = await InvestmentService.getPositions(userId, accountId);
+    res.json(positions);
+  } catch (error: any) {
+    console.error('Error fetching investment positions:', error);
+    res.status(500).json({ error: 'Failed to fetch investment positions' });
+  }
+});
+
+/**
+ * GET /api/investments/allocation
+ * Portfolio value by asset type
+ */
+router.get('/allocation', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const allocation = await InvestmentService.getAllocation(userId);
+    res.json(allocation);
+  } catch (error: any) {
+    console.error('Error fetching investment allocation:', error);
+    res.status(500).json({ error: 'Failed to fetch investment allocation' });
+  }
+});
+
+/**
+ * GET /api/investments/accounts
+ * Unrealized gain/loss per investment account
+ */
+router.get('/accounts', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const accounts = await InvestmentService.getAccountPerformance(userId);
+    res.json({ accounts });
+  } catch (error: any) {
+    console.error('Error fetching investment accounts:', error);
+    res.status(500).json({ error: 'Failed to fetch investment accounts' });
+  }
+});
+
+/**
+ * GET /api/investments/transactions
+ * Buys, sells, dividends and fees, newest first
+ */
+router.get('/transactions', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { accountId, page = '1', limit = '50' } = req.query;
+
+    const result = await InvestmentService.getTransactions(userId, {
+      accountId: accountId as string | undefined,
+      page: Math.max(parseInt(page as string) || 1, 1),
+      limit: Math.min(Math.max(parseInt(limit as string) || 50, 1), 200)
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error fetching investment transactions:', error);
+    res.status(500).json({ error: 'Failed to fetch investment transactions' });
+  }
+});
+
+export default router;
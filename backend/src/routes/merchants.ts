@@ -0,0 +1,179 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { authenticateToken } from '../middleware/auth';
+import { MerchantService } from '../services/merchantService';
+
+const router = Router();
+router.use(authenticateToken);
+
+/**
+ * GET /api/merchants
+ * The user's merchants with their aliases and transaction counts
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const merchants = await MerchantService.getMerchants(userId);
+    res.json({ merchants });
+  } catch (error: any) {
+    console.error('Error fetching merchants:', error);
+    res.status(500).json({ error: 'Failed to fetch merchants' });
+  }
+});
+
+/**
+ * PUT /api/merchants/:id
+ * Rename a merchant or change its default category, website or logo. Renaming onto
+ * another merchant's name is refused; merge the two instead.
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const existing = await prisma.merchant.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+
+    const merchant = parseMerchant({ ...existing, ...req.body });
+    if ('error' in merchant) {
+      return res.status(400).json({ error: merchant.error });
+    }
+
+    const clash = await prisma.merchant.findFirst({
+      where: { userId, name: merchant.name, id: { not: id } }
+    });
+
+    if (clash) {
+      return res.status(409).json({ error: `You already have a merchant called ${merchant.name}`, merchantId: clash.id });
+    }
+
+    const updated = await MerchantService.updateMerchant(existing, merchant);
+    res.json({ merchant: updated });
+  } catch (error: any) {
+    console.error('Error updating merchant:', error);
+    res.status(500).json({ error: 'Failed to update merchant' });
+  }
+});
+
+/**
+ * POST /api/merchants/:id/merge
+ * Merge other merchants (merchantIds) into this one
+ */
+router.post('/:id/merge', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { merchantIds } = req.body;
+
+    if (!Array.isArray(merchantIds) || merchantIds.length === 0 || merchantIds.includes(id)) {
+      return res.status(400).json({ error: 'merchantIds must list the other merchants to merge into this one' });
+    }
+
+    const [target, sources] = await Promise.all([
+      prisma.merchant.findFirst({ where: { id, userId } }),
+      prisma.merchant.findMany({ where: { id: { in: merchantIds }, userId } })
+    ]);
+
+    if (!target || sources.length !== new Set(merchantIds).size) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+
+    const { _count, ...merged } = await MerchantService.mergeMerchants(target, sources);
+    res.json({ merchant: { ...merged, transactionCount: _count.transactions } });
+  } catch (error: any) {
+    console.error('Error merging merchants:', error);
+    res.status(500).json({ error: 'Failed to merge merchants' });
+  }
+});
+
+/**
+ * POST /api/merchants/:id/aliases
+ * Add an alias rule (pattern): transaction names that clean up to the pattern, or
+ * start with it, resolve to this merchant. Existing transactions are moved.
+ */
+router.post('/:id/aliases', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { pattern } = req.body;
+
+    if (typeof pattern !== 'string' || !pattern.trim()) {
+      return res.status(400).json({ error: 'pattern is required' });
+    }
+
+    const merchant = await prisma.merchant.findFirst({
+      where: { id: req.params.id, userId }
+    });
+
+    if (!merchant) {
+      return res.status(404).json({ error: 'Merchant not found' });
+    }
+
+    const alias = await MerchantService.addAlias(merchant, pattern);
+    if (!alias) {
+      return res.status(400).json({ error: 'pattern has no merchant name left once cleaned' });
+    }
+
+    res.status(201).json({ alias });
+  } catch (error: any) {
+    console.error('Error adding merchant alias:', error);
+    res.status(500).json({ error: 'Failed to add merchant alias' });
+  }
+});
+
+/**
+ * DELETE /api/merchants/:id/aliases/:aliasId
+ * Remove an alias rule; the transactions it covered are resolved again
+ */
+router.delete('/:id/aliases/:aliasId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const alias = await prisma.merchantAlias.findFirst({
+      where: { id: req.params.aliasId, merchantId: req.params.id, userId }
+    });
+
+    if (!alias) {
+      return res.status(404).json({ error: 'Alias not found' });
+    }
+
+    await MerchantService.removeAlias(alias);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing merchant alias:', error);
+    res.status(500).json({ error: 'Failed to remove merchant alias' });
+  }
+});
+
+// Helper function to validate a merchant's name, default category and links
+function parseMerchant(body: any): { error: string } | {
+  name: string;
+  defaultCategory: string | null;
+  website: string | null;
+  logoUrl: string | null;
+} {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  if (name.length > 100) {
+    return { error: 'Merchant names are limited to 100 characters' };
+  }
+
+  const defaultCategory = typeof body.defaultCategory === 'string' ? body.defaultCategory.trim() || null : null;
+
+  const website = body.website || null;
+  const logoUrl = body.logoUrl || null;
+  for (const [field, value] of [['website', website], ['logoUrl', logoUrl]]) {
+    if (value !== null && (typeof value !== 'string' || !/^https?:\/\/\S+$/.test(value))) {
+      return { error: `${field} must be an http or https URL` };
+    }
+  }
+
+  return { name, defaultCategory, website, logoUrl };
+}
+
+export default router;
@@ -1,24 +1,40 @@
 import { Router, Request, Response } from 'express';
-import { Configuration, PlaidApi, Products, PlaidEnvironments, CountryCode } from 'plaid';
+import { getBankDataProvider } from '../lib/bankDataProvider';
 import { prisma } from '../lib/prisma';
+import { encryptToken, getAccessToken } from '../lib/tokenEncryption';
+import { getProviderErrorCode } from '../providers/bankDataProvider';
+import { PlaidItem } from '../../prisma/generated/prisma';
 import { authenticateToken } from '../middleware/auth';
+import { AttachmentService } from '../services/attachmentService';
 import { TransactionSyncService } from '../services/transactionSyncService';
+import { INVESTMENTS_ENABLED } from '../services/investmentService';
+import { LIABILITIES_ENABLED } from '../services/liabilityService';
+import { PlaidWebhookService } from '../services/plaidWebhookService';
+import { SyncJobService } from '../services/syncJobService';
 
 const router = Router();
 
-// Plaid client setup
-const configuration = new Configuration({
-  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments || 'sandbox'],
-  baseOptions: {
-    headers: {
-      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID,
-      'PLAID-SECRET': process.env.PLAID_SECRET,
-    },
-  },
+// Plaid webhook receiver (authenticated by Plaid's signed JWT rather than a user token)
+router.post('/webhook', async (req: Request, res: Response) => {
+  const verified = await PlaidWebhookService.verifyWebhook(
+    req.header('Plaid-Verification'),
+    req.rawBody
+  );
+
+  if (!verified) {
+    return res.status(401).json({ error: 'Invalid webhook signature' });
+  }
+
+  try {
+    const result = await PlaidWebhookService.handleWebhook(req.body);
+    res.json({ received: true, ...result });
+  } catch (error: any) {
+    console.error('Error handling Plaid webhook:', error);
+    res.status(500).json({ error: 'Failed to handle webhook' });
+  }
 });
-const plaidClient = new PlaidApi(configuration);
 
-// Protect all routes with authentication
+// Protect all other routes with authentication
 router.use(authenticateToken);
 
 // Create link token
@@ -26,23 +42,20 @@ router.post('/create_link_token', async (req: Request, res: Response) => {
   try {
     console.log('Creating link token for user:', req.user!.id);
     
-    const response = await plaidClient.linkTokenCreate({
-      user: {
-        client_user_id: req.user!.id,
-      },
-      client_name: 'My Money App',
-      products: [Products.Transactions, Products.Auth],
-      country_codes: [CountryCode.Us],
-      language: 'en',
+    const { linkToken, expiration } = await getBankDataProvider().createLinkToken({
+      userId: req.user!.id,
+      webhook: process.env.PLAID_WEBHOOK_URL,
+      includeInvestments: INVESTMENTS_ENABLED,
+      includeLiabilities: LIABILITIES_ENABLED,
     });
     
     console.log('Link token created successfully');
-    res.json(response.data);
+    res.json({ link_token: linkToken, expiration });
   } catch (error: any) {
-    console.error('Error creating link token:', error.response?.data || error.message);
+    console.error('Error creating link token:', error.message);
     res.status(500).json({
       error: 'Failed to create link token',
-      details: error.response?.data || error.message
+      details: error.message
     });
   }
 });
@@ -59,68 +72,74 @@ router.post('/exchange_public_token', async (req: Request, res: Response) => {
 
   try {
     // Exchange token
-    const response = await plaidClient.itemPublicTokenExchange({
-      public_token: public_token,
-    });
-    const { access_token, item_id } = response.data;
+    const provider = getBankDataProvider();
+    const { accessToken, itemId: item_id } = await provider.exchangePublicToken(public_token);
     console.log('Token exchanged successfully, item_id:', item_id);
 
     // Get institution info
-    const itemResponse = await plaidClient.itemGet({
-      access_token: access_token,
-    });
-    
-    const institutionResponse = await plaidClient.institutionsGetById({
-      institution_id: itemResponse.data.item.institution_id!,
-      country_codes: [CountryCode.Us],
-    });
-
-    console.log('Institution info retrieved:', institutionResponse.data.institution.name);
-
-    // Update user with new Plaid connection
-    const updatedUser = await prisma.user.update({
-      where: { id: req.user!.id },
-      data: {
-        plaidAccessToken: access_token,
+    const providerItem = await provider.getItem(accessToken);
+
+    console.log('Institution info retrieved:', providerItem.institutionName);
+
+    // Store the item, re-linking the same item just refreshes its token
+    const encryptedAccessToken = encryptToken(accessToken);
+    const item = await prisma.plaidItem.upsert({
+      where: { plaidItemId: item_id },
+      update: {
+        encryptedAccessToken,
+        institutionId: providerItem.institutionId,
+        institutionName: providerItem.institutionName,
+        syncStatus: 'NEVER_SYNCED',
+        errorCode: null
+      },
+      create: {
         plaidItemId: item_id,
-        plaidInstitutionId: itemResponse.data.item.institution_id!,
-        plaidInstitutionName: institutionResponse.data.institution.name,
-        syncStatus: 'NEVER_SYNCED', // Reset sync status
+        userId: req.user!.id,
+        encryptedAccessToken,
+        institutionId: providerItem.institutionId,
+        institutionName: providerItem.institutionName,
       },
     });
 
-    console.log('User updated with Plaid connection');
+    console.log('Plaid item stored for user');
 
-    // Trigger initial sync in the background
-    console.log('Starting initial sync...');
-    TransactionSyncService.syncUserTransactions(req.user!.id)
-      .then(result => {
-        console.log('Initial sync completed:', result);
-      })
-      .catch(error => {
-        console.error('Initial sync failed:', error);
-      });
+    // Queue the initial sync for the worker
+    await SyncJobService.enqueueItem(item.id, 'link');
 
     res.json({ 
       success: true, 
       item_id,
-      institution_name: institutionResponse.data.institution.name,
-      user: {
-        id: updatedUser.id,
-        email: updatedUser.email,
-        fullName: updatedUser.fullName,
-        plaidItemId: updatedUser.plaidItemId,
-        plaidInstitutionName: updatedUser.plaidInstitutionName,
-        // Don't send access token to frontend
-        plaidAccessToken: updatedUser.plaidAccessToken ? 'CONNECTED' : null
-      }
+      institution_name: providerItem.institutionName,
+      // Don't send access token to frontend
+      item: TransactionSyncService.formatItem(item)
     });
   } catch (error: any) {
     console.error('Error exchanging public token:', error);
     res.status(500).json({ 
       error: 'Failed to exchange public token',
-      details: error.response?.data || error.message
+      details: error.message
+    });
+  }
+});
+
+// List linked institutions
+router.get('/items', async (req: Request, res: Response) => {
+  try {
+    const items = await prisma.plaidItem.findMany({
+      where: { userId: req.user!.id },
+      include: { _count: { select: { accounts: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      items: items.map(item => ({
+        ...TransactionSyncService.formatItem(item),
+        accountCount: item._count.accounts
+      }))
     });
+  } catch (error: any) {
+    console.error('Error fetching Plaid items:', error);
+    res.status(500).json({ error: 'Failed to fetch linked institutions' });
   }
 });
 
@@ -129,68 +148,45 @@ router.get('/accounts', async (req: Request, res: Response) => {
   try {
     console.log('Getting Plaid accounts for user:', req.user!.id);
     
-    const user = await prisma.user.findUnique({
-      where: { id: req.user!.id },
-      select: { 
-        id: true, 
-        plaidAccessToken: true, 
-        plaidItemId: true,
-        plaidInstitutionName: true
-      }
+    const items = await prisma.plaidItem.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { createdAt: 'asc' }
     });
 
-    if (!user || !user.plaidAccessToken) {
+    if (items.length === 0) {
       return res.json({ 
         accounts: [],
-        institution: null,
+        institutions: [],
         connected: false
       });
     }
 
-    // Get fresh account data from Plaid
-    const accountsResponse = await plaidClient.accountsGet({
-      access_token: user.plaidAccessToken,
-    });
-
-    // Update our cached account data
-    for (const plaidAccount of accountsResponse.data.accounts) {
-      await prisma.account.upsert({
-        where: { plaidAccountId: plaidAccount.account_id },
-        update: {
-          currentBalance: plaidAccount.balances.current || 0,
-          availableBalance: plaidAccount.balances.available,
-          creditLimit: plaidAccount.balances.limit,
-          lastUpdatedAt: new Date()
-        },
-        create: {
-          plaidAccountId: plaidAccount.account_id,
-          userId: user.id,
-          name: plaidAccount.name,
-          officialName: plaidAccount.official_name,
-          type: plaidAccount.type,
-          subtype: plaidAccount.subtype || 'unknown',
-          mask: plaidAccount.mask,
-          currentBalance: plaidAccount.balances.current || 0,
-          availableBalance: plaidAccount.balances.available,
-          creditLimit: plaidAccount.balances.limit
-        }
-      });
+    const accounts = [];
+    for (const item of items) {
+      // Refresh our cached accounts with what the provider reports now
+      const { accounts: providerAccounts } = await TransactionSyncService.syncAccounts(
+        item.userId,
+        item.id,
+        getAccessToken(item)
+      );
+
+      accounts.push(...providerAccounts.map(account => ({
+        ...account,
+        item_id: item.plaidItemId,
+        institution_name: item.institutionName
+      })));
     }
 
     res.json({
-      accounts: accountsResponse.data.accounts,
-      institution: {
-        name: user.plaidInstitutionName || 'Connected Bank',
-        item_id: user.plaidItemId,
-        connected_at: new Date().toISOString()
-      },
+      accounts,
+      institutions: items.map(item => TransactionSyncService.formatItem(item)),
       connected: true
     });
   } catch (error: any) {
     console.error('Error fetching Plaid accounts:', error);
     res.status(500).json({ 
       error: 'Failed to fetch accounts',
-      details: error.response?.data || error.message
+      details: error.message
     });
   }
 });
@@ -200,16 +196,12 @@ router.get('/transactions', async (req: Request, res: Response) => {
   try {
     console.log('Getting Plaid transactions for user:', req.user!.id);
     
-    const user = await prisma.user.findUnique({
-      where: { id: req.user!.id },
-      select: { 
-        id: true, 
-        plaidAccessToken: true, 
-        plaidItemId: true 
-      }
+    const items = await prisma.plaidItem.findMany({
+      where: { userId: req.user!.id },
+      select: { id: true, encryptedAccessToken: true }
     });
 
-    if (!user || !user.plaidAccessToken) {
+    if (items.length === 0) {
       return res.status(404).json({ 
         error: 'No bank account connected. Please connect your bank first.' 
       });
@@ -218,30 +210,41 @@ router.get('/transactions', async (req: Request, res: Response) => {
     const startDate = '2023-01-01';
     const endDate = new Date().toISOString().slice(0, 10);
 
-    const response = await plaidClient.transactionsGet({
-      access_token: user.plaidAccessToken,
-      start_date: startDate,
-      end_date: endDate,
-      options: {
-        count: 250,
-        offset: 0,
-      },
-    });
+    const accounts = [];
+    const transactions = [];
+    let totalTransactions = 0;
+
+    for (const item of items) {
+      try {
+        const response = await getBankDataProvider().getTransactions(getAccessToken(item), startDate, endDate, 250);
+
+        accounts.push(...response.accounts);
+        transactions.push(...response.transactions);
+        totalTransactions += response.totalTransactions;
+      } catch (error) {
+        const errorCode = getProviderErrorCode(error);
+        if (TransactionSyncService.itemStatusForError(errorCode) === 'TOKEN_EXPIRED') {
+          await prisma.plaidItem.update({
+            where: { id: item.id },
+            data: { syncStatus: 'TOKEN_EXPIRED', errorCode }
+          });
+        }
+        throw error;
+      }
+    }
 
-    res.json(response.data);
+    res.json({
+      accounts,
+      transactions,
+      total_transactions: totalTransactions
+    });
   } catch (error: any) {
     console.error('Error fetching transactions:', error);
     
-    if (error.error_code === 'INVALID_ACCESS_TOKEN') {
-      // Update user status
-      await prisma.user.update({
-        where: { id: req.user!.id },
-        data: { syncStatus: 'TOKEN_EXPIRED' }
-      });
-      
+    if (TransactionSyncService.itemStatusForError(getProviderErrorCode(error)) === 'TOKEN_EXPIRED') {
       return res.status(401).json({ 
         error: 'Connection expired. Please reconnect your bank account.',
-        reconnect_required: true
+        updateRequired: true
       });
     }
     
@@ -249,71 +252,82 @@ router.get('/transactions', async (req: Request, res: Response) => {
   }
 });
 
-// Disconnect bank account
+// Disconnect every linked bank
 router.delete('/disconnect', async (req: Request, res: Response) => {
   try {
-    console.log('Disconnecting bank for user:', req.user!.id);
+    console.log('Disconnecting all banks for user:', req.user!.id);
     
-    const user = await prisma.user.findUnique({
-      where: { id: req.user!.id },
-      select: { 
-        id: true, 
-        plaidAccessToken: true, 
-        plaidItemId: true 
-      }
+    const items = await prisma.plaidItem.findMany({
+      where: { userId: req.user!.id }
     });
 
-    if (!user || !user.plaidAccessToken) {
+    if (items.length === 0) {
       return res.status(404).json({ 
         error: 'No bank account connected.' 
       });
     }
 
-    // Remove item from Plaid (this will revoke the access token)
-    try {
-      await plaidClient.itemRemove({
-        access_token: user.plaidAccessToken,
-      });
-      console.log('Item removed from Plaid successfully');
-    } catch (plaidError: any) {
-      console.warn('Error removing item from Plaid:', plaidError.message);
-      // Continue with database cleanup even if Plaid removal fails
+    for (const item of items) {
+      await removeItem(item);
     }
 
-    // Remove all user's accounts and transactions
-    await prisma.transaction.deleteMany({
-      where: { userId: req.user!.id }
-    });
-    
-    await prisma.account.deleteMany({
-      where: { userId: req.user!.id }
-    });
-
-    // Remove Plaid credentials from user
-    const updatedUser = await prisma.user.update({
+    await prisma.user.update({
       where: { id: req.user!.id },
       data: {
-        plaidAccessToken: null,
-        plaidItemId: null,
-        plaidInstitutionId: null,
-        plaidInstitutionName: null,
         lastSyncAt: null,
         syncStatus: 'NEVER_SYNCED',
       },
     });
 
-    console.log('User Plaid connection removed successfully');
+    console.log('User Plaid connections removed successfully');
 
     res.json({ 
       success: true, 
-      message: 'Bank account disconnected successfully',
-      user: {
-        id: updatedUser.id,
-        email: updatedUser.email,
-        fullName: updatedUser.fullName,
-        plaidItemId: null,
-        plaidAccessToken: null
-      }
+      message: 'Bank accounts disconnected successfully',
+      removedItems: items.map(item => item.plaidItemId)
+    });
+  } catch (error: any) {
+    console.error('Error disconnecting bank accounts:', error);
+    res.status(500).json({ error: 'Failed to disconnect bank accounts' });
+  }
+});
+
+// Disconnect a single linked bank
+router.delete('/disconnect/:itemId', async (req: Request, res: Response) => {
+  try {
+    console.log(`Disconnecting item ${req.params.itemId} for user:`, req.user!.id);
+    
+    const item = await prisma.plaidItem.findFirst({
+      where: { id: req.params.itemId, userId: req.user!.id }
+    });
+
+    if (!item) {
+      return res.status(404).json({ 
+        error: 'Linked institution not found.' 
+      });
+    }
+
+    await removeItem(item);
+
+    const remainingItems = await prisma.plaidItem.count({
+      where: { userId: req.user!.id }
+    });
+
+    if (remainingItems === 0) {
+      await prisma.user.update({
+        where: { id: req.user!.id },
+        data: {
+          lastSyncAt: null,
+          syncStatus: 'NEVER_SYNCED',
+        },
+      });
+    }
+
+    res.json({ 
+      success: true, 
+      message: `${item.institutionName || 'Bank account'} disconnected successfully`,
+      item_id: item.plaidItemId,
+      remainingItems
     });
   } catch (error: any) {
     console.error('Error disconnecting bank account:', error);
@@ -324,57 +338,192 @@ router.delete('/disconnect', async (req: Request, res: Response) => {
 // Refresh/Update connection (for when access token expires)
 router.post('/refresh', async (req: Request, res: Response) => {
   try {
-    console.log('Refreshing connection for user:', req.user!.id);
+    console.log('Refreshing connections for user:', req.user!.id);
     
-    const user = await prisma.user.findUnique({
-      where: { id: req.user!.id },
-      select: { 
-        id: true, 
-        plaidAccessToken: true, 
-        plaidItemId: true 
-      }
+    const items = await prisma.plaidItem.findMany({
+      where: { userId: req.user!.id },
+      orderBy: { createdAt: 'asc' }
     });
 
-    if (!user || !user.plaidAccessToken) {
+    if (items.length === 0) {
       return res.status(404).json({ 
         error: 'No bank account connected.' 
       });
     }
 
-    // Test the connection
-    const accountsResponse = await plaidClient.accountsGet({
-      access_token: user.plaidAccessToken,
+    const results = [];
+    for (const item of items) {
+      try {
+        // Test the connection
+        const providerAccounts = await getBankDataProvider().getAccounts(getAccessToken(item));
+
+        const updatedItem = await prisma.plaidItem.update({
+          where: { id: item.id },
+          data: {
+            syncStatus: 'SYNCED',
+            errorCode: item.errorCode === 'PENDING_EXPIRATION' ? item.errorCode : null
+          }
+        });
+
+        results.push({
+          ...TransactionSyncService.formatItem(updatedItem),
+          healthy: true,
+          accounts_count: providerAccounts.length
+        });
+      } catch (error: any) {
+        console.error(`Error refreshing item ${item.plaidItemId}:`, error.message);
+
+        // Login problems are fixed through Link update mode, keeping the item's history
+        const errorCode = getProviderErrorCode(error);
+        const syncStatus = TransactionSyncService.itemStatusForError(errorCode);
+        await prisma.plaidItem.update({
+          where: { id: item.id },
+          data: { syncStatus, errorCode: errorCode || null }
+        });
+
+        results.push({
+          ...TransactionSyncService.formatItem(item),
+          syncStatus,
+          errorCode: errorCode || null,
+          healthy: false,
+          updateRequired: syncStatus === 'TOKEN_EXPIRED'
+        });
+      }
+    }
+
+    const allHealthy = results.every(result => result.healthy);
+
+    res.json({ 
+      success: allHealthy, 
+      message: allHealthy ? 'All connections are healthy' : 'Some connections need attention',
+      items: results
     });
+  } catch (error: any) {
+    console.error('Error refreshing connections:', error);
+    res.status(500).json({ error: 'Failed to refresh connections' });
+  }
+});
 
-    // Update sync status
-    await prisma.user.update({
-      where: { id: req.user!.id },
-      data: { syncStatus: 'SYNCED' }
+// Create a link token in update mode so the user can re-authenticate an existing item
+router.post('/items/:itemId/update_link_token', async (req: Request, res: Response) => {
+  try {
+    const item = await prisma.plaidItem.findFirst({
+      where: { id: req.params.itemId, userId: req.user!.id }
     });
 
-    res.json({ 
-      success: true, 
-      message: 'Connection is healthy',
-      accounts_count: accountsResponse.data.accounts.length
+    if (!item) {
+      return res.status(404).json({ error: 'Linked institution not found.' });
+    }
+
+    console.log(`Creating update mode link token for item ${item.plaidItemId}`);
+
+    // Passing the existing access token puts Link in update mode
+    const { linkToken, expiration } = await getBankDataProvider().createLinkToken({
+      userId: req.user!.id,
+      accessToken: getAccessToken(item),
+      webhook: process.env.PLAID_WEBHOOK_URL,
+    });
+
+    res.json({
+      link_token: linkToken,
+      expiration,
+      item: TransactionSyncService.formatItem(item)
     });
   } catch (error: any) {
-    console.error('Error refreshing connection:', error);
-    
-    // If token is invalid, user needs to reconnect
-    if (error.error_code === 'INVALID_ACCESS_TOKEN') {
-      await prisma.user.update({
-        where: { id: req.user!.id },
-        data: { syncStatus: 'TOKEN_EXPIRED' }
+    console.error('Error creating update mode link token:', error.message);
+    res.status(500).json({
+      error: 'Failed to create link token',
+      details: error.message
+    });
+  }
+});
+
+// Called after Link update mode succeeds: the access token is unchanged, so just
+// confirm the item is healthy again and resume syncing from the existing cursor
+router.post('/items/:itemId/update_complete', async (req: Request, res: Response) => {
+  try {
+    const item = await prisma.plaidItem.findFirst({
+      where: { id: req.params.itemId, userId: req.user!.id }
+    });
+
+    if (!item) {
+      return res.status(404).json({ error: 'Linked institution not found.' });
+    }
+
+    const providerItem = await getBankDataProvider().getItem(getAccessToken(item));
+
+    if (providerItem.errorCode) {
+      const syncStatus = TransactionSyncService.itemStatusForError(providerItem.errorCode);
+      await prisma.plaidItem.update({
+        where: { id: item.id },
+        data: { syncStatus, errorCode: providerItem.errorCode }
       });
-      
-      return res.status(401).json({ 
-        error: 'Connection expired. Please reconnect your bank account.',
-        reconnect_required: true
+
+      return res.status(409).json({
+        error: 'Connection still needs attention.',
+        errorCode: providerItem.errorCode,
+        updateRequired: syncStatus === 'TOKEN_EXPIRED'
       });
     }
-    
-    res.status(500).json({ error: 'Failed to refresh connection' });
+
+    const consentExpiration = providerItem.consentExpirationTime;
+    const updatedItem = await prisma.plaidItem.update({
+      where: { id: item.id },
+      data: {
+        syncStatus: 'SYNCED',
+        errorCode: null,
+        consentExpiresAt: consentExpiration ? new Date(consentExpiration) : null
+      }
+    });
+
+    console.log(`Item ${item.plaidItemId} restored after update mode`);
+
+    // Accounts and transactions are kept, the sync just continues from the saved cursor
+    await SyncJobService.enqueueItem(item.id, 'update_mode');
+
+    res.json({
+      success: true,
+      message: `${item.institutionName || 'Bank account'} reconnected successfully`,
+      item: TransactionSyncService.formatItem(updatedItem)
+    });
+  } catch (error: any) {
+    console.error('Error completing update mode:', error.message);
+    res.status(500).json({
+      error: 'Failed to complete reconnection',
+      details: error.message
+    });
   }
 });
 
+// Helper function to revoke an item with the provider and remove its cached data
+async function removeItem(item: PlaidItem) {
+  // Remove item from the provider (this will revoke the access token)
+  try {
+    await getBankDataProvider().removeItem(getAccessToken(item));
+    console.log(`Item ${item.plaidItemId} removed from provider successfully`);
+  } catch (plaidError: any) {
+    console.warn('Error removing item from Plaid:', plaidError.message);
+    // Continue with database cleanup even if Plaid removal fails
+  }
+
+  // Remove the item's accounts and transactions, then the files attached to them
+  const attachments = await prisma.attachment.findMany({
+    where: { transaction: { account: { itemId: item.id } } },
+    select: { storageKey: true }
+  });
+  await prisma.transaction.deleteMany({
+    where: { account: { itemId: item.id } }
+  });
+  
+  await prisma.account.deleteMany({
+    where: { itemId: item.id }
+  });
+
+  await prisma.plaidItem.delete({
+    where: { id: item.id }
+  });
+
+  await AttachmentService.deleteFiles(attachments);
+}
+
 export default router;
\ No newline at end of file
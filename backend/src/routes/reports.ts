@@ -0,0 +1,41 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { parseReportMonth, ReportService } from '../services/reportService';
+
+const router = Router();
+router.use(authenticateToken);
+
+/**
+ * GET /api/reports/monthly.pdf
+ * Monthly statement as a PDF: balances, income vs expenses, spending by category,
+ * budgets, savings goals and top merchants. month=YYYY-MM, defaulting to last month.
+ */
+router.get('/monthly.pdf', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const month = (req.query.month as string) || previousMonth();
+
+    if (!parseReportMonth(month)) {
+      return res.status(400).json({ error: 'month must be a YYYY-MM month that has started' });
+    }
+
+    const statement = await ReportService.getMonthlyStatement(userId, month);
+    const pdf = ReportService.renderMonthlyStatement(statement);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="statement-${month}.pdf"`);
+    res.send(pdf);
+
+  } catch (error: any) {
+    console.error('Error generating monthly statement:', error);
+    res.status(500).json({ error: 'Failed to generate monthly statement' });
+  }
+});
+
+// Helper function to get the last complete month as YYYY-MM
+function previousMonth() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+}
+
+export default router;
@@ -0,0 +1,240 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { authenticateToken } from '../middleware/auth';
+import { TagService } from '../services/tagService';
+
+const router = Router();
+router.use(authenticateToken);
+
+// Most transactions one bulk tag request can touch
+const MAX_BULK_TRANSACTIONS = 1000;
+
+/**
+ * GET /api/tags
+ * The user's tags with transaction counts
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const tags = await TagService.getTags(userId);
+    res.json({ tags });
+  } catch (error: any) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+/**
+ * POST /api/tags
+ * Create a tag
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const tag = parseTag(req.body);
+    if ('error' in tag) {
+      return res.status(400).json({ error: tag.error });
+    }
+
+    const existing = await prisma.tag.findFirst({
+      where: { userId, name: tag.name }
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: `You already have a tag called ${tag.name}` });
+    }
+
+    const created = await prisma.tag.create({
+      data: { userId, ...tag }
+    });
+
+    res.status(201).json({ tag: created });
+  } catch (error: any) {
+    console.error('Error creating tag:', error);
+    res.status(500).json({ error: 'Failed to create tag' });
+  }
+});
+
+/**
+ * PUT /api/tags/:id
+ * Rename a tag or change its color. Renaming onto another tag's name is refused;
+ * merge the two instead.
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { id } = req.params;
+
+    const existing = await prisma.tag.findFirst({
+      where: { id, userId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    const tag = parseTag({ ...existing, ...req.body });
+    if ('error' in tag) {
+      return res.status(400).json({ error: tag.error });
+    }
+
+    const clash = await prisma.tag.findFirst({
+      where: { userId, name: tag.name, id: { not: id } }
+    });
+
+    if (clash) {
+      return res.status(409).json({ error: `You already have a tag called ${tag.name}`, tagId: clash.id });
+    }
+
+    const updated = await prisma.tag.update({
+      where: { id },
+      data: tag
+    });
+
+    res.json({ tag: updated });
+  } catch (error: any) {
+    console.error('Error updating tag:', error);
+    res.status(500).json({ error: 'Failed to update tag' });
+  }
+});
+
+/**
+ * POST /api/tags/:id/merge
+ * Merge other tags (tagIds) into this one
+ */
+router.post('/:id/merge', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { id } = req.params;
+    const { tagIds } = req.body;
+
+    if (!Array.isArray(tagIds) || tagIds.length === 0 || tagIds.includes(id)) {
+      return res.status(400).json({ error: 'tagIds must list the other tags to merge into this one' });
+    }
+
+    const [target, sources] = await Promise.all([
+      prisma.tag.findFirst({ where: { id, userId } }),
+      prisma.tag.findMany({ where: { id: { in: tagIds }, userId } })
+    ]);
+
+    if (!target || sources.length !== new Set(tagIds).size) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    const { _count, ...merged } = await TagService.mergeTags(target, sources);
+    res.json({ tag: { ...merged, transactionCount: _count.transactions } });
+  } catch (error: any) {
+    console.error('Error merging tags:', error);
+    res.status(500).json({ error: 'Failed to merge tags' });
+  }
+});
+
+/**
+ * DELETE /api/tags/:id
+ * Delete a tag; its transactions are kept
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { count } = await prisma.tag.deleteMany({
+      where: { id: req.params.id, userId }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting tag:', error);
+    res.status(500).json({ error: 'Failed to delete tag' });
+  }
+});
+
+/**
+ * POST /api/tags/:id/transactions
+ * Tag one or many transactions (transactionIds)
+ */
+router.post('/:id/transactions', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const target = await findTagAndTransactions(userId, req, res);
+    if (!target) return;
+
+    const tagged = await TagService.attachTag(target.tag, target.transactionIds);
+    res.json({ success: true, tagged });
+  } catch (error: any) {
+    console.error('Error tagging transactions:', error);
+    res.status(500).json({ error: 'Failed to tag transactions' });
+  }
+});
+
+/**
+ * DELETE /api/tags/:id/transactions
+ * Take the tag off one or many transactions (transactionIds)
+ */
+router.delete('/:id/transactions', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const target = await findTagAndTransactions(userId, req, res);
+    if (!target) return;
+
+    const untagged = await TagService.detachTag(target.tag, target.transactionIds);
+    res.json({ success: true, untagged });
+  } catch (error: any) {
+    console.error('Error untagging transactions:', error);
+    res.status(500).json({ error: 'Failed to untag transactions' });
+  }
+});
+
+// Helper function to validate a tag's name and color
+function parseTag(body: any): { error: string } | { name: string; color: string | null } {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  if (name.length > 50) {
+    return { error: 'Tag names are limited to 50 characters' };
+  }
+
+  const color = body.color || null;
+  if (color !== null && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+    return { error: 'color must be a hex color like #3366ff' };
+  }
+
+  return { name, color };
+}
+
+// Helper function to load the tag and check the transactions of a bulk tag request,
+// answering the request itself when something is wrong
+async function findTagAndTransactions(userId: string, req: Request, res: Response) {
+  const { transactionIds } = req.body;
+
+  if (!Array.isArray(transactionIds) || transactionIds.length === 0 || transactionIds.some(id => typeof id !== 'string')) {
+    res.status(400).json({ error: 'transactionIds must be a list of transaction ids' });
+    return null;
+  }
+  if (transactionIds.length > MAX_BULK_TRANSACTIONS) {
+    res.status(400).json({ error: `At most ${MAX_BULK_TRANSACTIONS} transactions can be tagged at once` });
+    return null;
+  }
+
+  const tag = await prisma.tag.findFirst({
+    where: { id: req.params.id, userId }
+  });
+
+  if (!tag) {
+    res.status(404).json({ error: 'Tag not found' });
+    return null;
+  }
+
+  const foreign = await TagService.findForeignTransactions(userId, transactionIds);
+  if (foreign.length > 0) {
+    res.status(404).json({ error: 'Transaction not found', transactionIds: foreign });
+    return null;
+  }
+
+  return { tag, transactionIds: Array.from(new Set<string>(transactionIds)) };
+}
+
+export default router;
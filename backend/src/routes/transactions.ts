@@ -1,120 +1,97 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
 import { prisma } from '../lib/prisma';
+import { parseSearchQuery } from '../lib/searchQuery';
+import { parseTransactionFilters, TransactionFilters, transactionWhere } from '../lib/transactionFilters';
 import { authenticateToken } from '../middleware/auth';
+import { Prisma } from '../../prisma/generated/prisma';
 import { TransactionSyncService } from '../services/transactionSyncService';
+import { SyncJobService } from '../services/syncJobService';
 import { SmartCategorizationService } from '../services/smartCategorizationService';
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  AttachmentError,
+  AttachmentService,
+  MAX_ATTACHMENT_BYTES
+} from '../services/attachmentService';
+import { BackfillService, countBackfillWindows, MAX_BACKFILL_MONTHS } from '../services/backfillService';
+import { ManualEntryService } from '../services/manualEntryService';
+import { AnalyticsService } from '../services/analyticsService';
+import { EXPORT_FORMATS, ExportFormat, TransactionExportService } from '../services/transactionExportService';
+import { SearchOrder, SearchSummary, TransactionSearchService } from '../services/transactionSearchService';
+import { SplitInput, TransactionSplitService } from '../services/transactionSplitService';
+import { TransferService } from '../services/transferService';
 
 const router = Router();
 router.use(authenticateToken);
 
+// Receipts and documents are uploaded as the raw request body
+const attachmentBody = express.raw({ type: ATTACHMENT_CONTENT_TYPES, limit: MAX_ATTACHMENT_BYTES });
+
+// What the list returns with each transaction
+const listInclude = {
+  account: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      subtype: true,
+      mask: true
+    }
+  },
+  merchant: {
+    select: { id: true, name: true, logoUrl: true }
+  },
+  splits: {
+    select: { id: true, amount: true, category: true, note: true },
+    orderBy: { amount: 'desc' }
+  },
+  tags: {
+    select: { tag: { select: { id: true, name: true, color: true } } }
+  },
+  _count: { select: { attachments: true } }
+} satisfies Prisma.TransactionInclude;
+
 /**
  * GET /api/transactions
- * Get cached transactions with filtering and pagination
+ * Get cached transactions with filtering and pagination.
+ * Transactions on closed accounts are hidden unless includeClosed=true.
+ * tags=id1,id2 keeps transactions with any of the tags, or all of them with tagMatch=all.
+ * search is a full-text search of name, merchant, notes and categories ("a phrase",
+ * -excluded, this OR that). Results come most relevant first, unless sort=date, each
+ * with a snippet highlighting the matches.
  */
 router.get('/', async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
-    const {
-      page = '1',
-      limit = '50',
-      category,
-      accountId,
-      search,
-      dateFrom,
-      dateTo,
-      amountMin,
-      amountMax,
-      type // 'income', 'expense', or 'all'
-    } = req.query;
+    const { page = '1', limit = '50' } = req.query;
 
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
     const skip = (pageNum - 1) * limitNum;
 
-    // Build where clause
-    const where: any = { userId };
-
-    if (category) {
-      where.primaryCategory = category;
-    }
-
-    if (accountId) {
-      where.accountId = accountId;
-    }
-
-    if (search) {
-      where.name = {
-        contains: search as string,
-        mode: 'insensitive'
-      };
-    }
-
-    if (dateFrom || dateTo) {
-      where.date = {};
-      if (dateFrom) where.date.gte = new Date(dateFrom as string);
-      if (dateTo) where.date.lte = new Date(dateTo as string);
-    }
+    const filters = parseTransactionFilters(req.query);
+    const tsquery = typeof req.query.search === 'string' ? parseSearchQuery(req.query.search) : null;
 
-    if (amountMin || amountMax) {
-      where.amount = {};
-      if (amountMin) where.amount.gte = parseFloat(amountMin as string);
-      if (amountMax) where.amount.lte = parseFloat(amountMax as string);
-    }
+    const { transactions, summary, ranks } = tsquery
+      ? await findSearchResults(userId, tsquery, filters, req.query.sort === 'date' ? 'date' : 'relevance', skip, limitNum)
+      : await findTransactions(transactionWhere(userId, filters), skip, limitNum);
+    const totalCount = summary.count;
 
-    if (type === 'income') {
-      where.amount = { ...where.amount, lt: 0 };
-    } else if (type === 'expense') {
-      where.amount = { ...where.amount, gt: 0 };
-    }
-
-    // Get transactions with account info
-    const [transactions, totalCount] = await Promise.all([
-      prisma.transaction.findMany({
-        where,
-        include: {
-          account: {
-            select: {
-              id: true,
-              name: true,
-              type: true,
-              subtype: true,
-              mask: true
-            }
-          }
-        },
-        orderBy: { date: 'desc' },
-        skip,
-        take: limitNum
-      }),
-      prisma.transaction.count({ where })
-    ]);
-
-    // Calculate summary stats for the filtered results
-    const summaryStats = await prisma.transaction.aggregate({
-      where,
-      _sum: {
-        amount: true
-      },
-      _count: {
-        id: true
-      }
-    });
-
-    const totalAmount = summaryStats._sum.amount || 0;
-    const income = await prisma.transaction.aggregate({
-      where: { ...where, amount: { lt: 0 } },
-      _sum: { amount: true },
-      _count: { id: true }
-    });
-
-    const expenses = await prisma.transaction.aggregate({
-      where: { ...where, amount: { gt: 0 } },
-      _sum: { amount: true },
-      _count: { id: true }
-    });
+    const snippets = tsquery
+      ? await TransactionSearchService.snippets(transactions.map(transaction => transaction.id), tsquery)
+      : null;
 
     res.json({
-      transactions,
+      transactions: transactions.map(({ _count, ...transaction }) => ({
+        ...transaction,
+        tags: transaction.tags.map(link => link.tag),
+        attachmentCount: _count.attachments,
+        ...(snippets && {
+          snippet: snippets.get(transaction.id) ?? null,
+          searchRank: ranks?.get(transaction.id) ?? null
+        })
+      })),
       pagination: {
         currentPage: pageNum,
         totalPages: Math.ceil(totalCount / limitNum),
@@ -123,13 +100,13 @@ router.get('/', async (req: Request, res: Response) => {
         hasPrev: pageNum > 1
       },
       summary: {
-        totalTransactions: summaryStats._count.id || 0,
-        totalAmount,
-        income: Math.abs(income._sum.amount || 0),
-        incomeCount: income._count.id,
-        expenses: expenses._sum.amount || 0,
-        expenseCount: expenses._count.id,
-        netAmount: Math.abs(income._sum.amount || 0) - (expenses._sum.amount || 0)
+        totalTransactions: summary.count,
+        totalAmount: summary.totalAmount,
+        income: summary.income,
+        incomeCount: summary.incomeCount,
+        expenses: summary.expenses,
+        expenseCount: summary.expenseCount,
+        netAmount: summary.income - summary.expenses
       }
     });
 
@@ -140,47 +117,57 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/transactions/categories
- * Get spending by category (cached)
+ * GET /api/transactions/export?format=csv|ofx|qif|json
+ * Download transactions with notes and categories, using the same filters as
+ * the list. The file is streamed, so multi-year exports don't build up in memory.
  */
-router.get('/categories', async (req: Request, res: Response) => {
+router.get('/export', async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
-    const { dateFrom, dateTo } = req.query;
+    const format = ((req.query.format as string) || 'csv').toLowerCase() as ExportFormat;
 
-    const where: any = {
-      userId,
-      amount: { gt: 0 }, // Only expenses
-      primaryCategory: { not: null }
-    };
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const filters = parseTransactionFilters(req.query);
+    const tsquery = typeof req.query.search === 'string' ? parseSearchQuery(req.query.search) : null;
+    const fileName = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Type', TransactionExportService.contentType(format));
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    const count = tsquery
+      ? await TransactionExportService.streamSearchResults(userId, tsquery, filters, format, res)
+      : await TransactionExportService.streamTransactions(transactionWhere(userId, filters), format, res);
+    console.log(`Exported ${count} transactions as ${format} for user ${userId}`);
 
-    if (dateFrom || dateTo) {
-      where.date = {};
-      if (dateFrom) where.date.gte = new Date(dateFrom as string);
-      if (dateTo) where.date.lte = new Date(dateTo as string);
+  } catch (error: any) {
+    console.error('Error exporting transactions:', error);
+    // Part of the file may already be on its way, so all we can do is cut it short
+    if (res.headersSent) {
+      return res.destroy();
     }
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({ error: 'Failed to export transactions' });
+  }
+});
 
-    const categorySpending = await prisma.transaction.groupBy({
-      by: ['primaryCategory'],
-      where,
-      _sum: {
-        amount: true
-      },
-      _count: {
-        id: true
-      },
-      orderBy: {
-        _sum: {
-          amount: 'desc'
-        }
-      }
-    });
+/**
+ * GET /api/transactions/categories
+ * Get spending by category (cached).
+ * Transfers between accounts are left out unless includeTransfers=true.
+ */
+router.get('/categories', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { dateFrom, dateTo } = req.query;
 
-    const result = categorySpending.map(item => ({
-      category: item.primaryCategory,
-      amount: item._sum.amount || 0,
-      transactionCount: item._count.id
-    }));
+    const result = await AnalyticsService.getCategorySpending(userId, {
+      from: dateFrom ? new Date(dateFrom as string) : undefined,
+      to: dateTo ? new Date(dateTo as string) : undefined,
+      includeTransfers: req.query.includeTransfers === 'true'
+    });
 
     res.json(result);
 
@@ -192,7 +179,8 @@ router.get('/categories', async (req: Request, res: Response) => {
 
 /**
  * GET /api/transactions/monthly-trends
- * Get monthly income vs expenses trends
+ * Get monthly income vs expenses trends.
+ * Transfers between accounts are left out unless includeTransfers=true.
  */
 router.get('/monthly-trends', async (req: Request, res: Response) => {
   try {
@@ -203,26 +191,9 @@ router.get('/monthly-trends', async (req: Request, res: Response) => {
     const startDate = new Date();
     startDate.setMonth(startDate.getMonth() - monthsBack);
 
-    // Get monthly aggregated data using raw SQL for better performance
-    const monthlyData = await prisma.$queryRaw`
-      SELECT 
-        DATE_TRUNC('month', date) as month,
-        SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END) as expenses,
-        SUM(CASE WHEN amount < 0 THEN ABS(amount) ELSE 0 END) as income,
-        COUNT(*) as transaction_count
-      FROM transactions 
-      WHERE "userId" = ${userId} AND date >= ${startDate}
-      GROUP BY DATE_TRUNC('month', date)
-      ORDER BY month ASC
-    `;
-
-    const formattedData = (monthlyData as any[]).map(item => ({
-      month: new Date(item.month).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-      expenses: parseFloat(item.expenses) || 0,
-      income: parseFloat(item.income) || 0,
-      transactionCount: parseInt(item.transaction_count),
-      netAmount: (parseFloat(item.income) || 0) - (parseFloat(item.expenses) || 0)
-    }));
+    const formattedData = await AnalyticsService.getMonthlyTrends(userId, startDate, {
+      includeTransfers: req.query.includeTransfers === 'true'
+    });
 
     res.json(formattedData);
 
@@ -234,39 +205,26 @@ router.get('/monthly-trends', async (req: Request, res: Response) => {
 
 /**
  * POST /api/transactions/sync
- * Trigger manual sync
+ * Queue a manual sync for every linked item
  */
 router.post('/sync', async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const { force = false } = req.body;
 
-    // Check if sync is already in progress
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { syncStatus: true }
-    });
+    // Items that already have a queued job reuse it, so repeated clicks don't pile up work
+    const jobs = await SyncJobService.enqueueUser(userId, 'manual', { fullResync: force });
 
-    if (user?.syncStatus === 'SYNCING') {
-      return res.status(409).json({
-        error: 'Sync already in progress',
-        status: 'SYNCING'
+    if (jobs.length === 0) {
+      return res.status(404).json({
+        error: 'No bank account connected. Please connect your bank first.'
       });
     }
 
-    // Start sync (run in background)
-    const syncPromise = force
-      ? TransactionSyncService.fullResync(userId)
-      : TransactionSyncService.syncUserTransactions(userId);
-
-    // Don't await - let it run in background
-    syncPromise.catch(error => {
-      console.error(`Background sync failed for user ${userId}:`, error);
-    });
-
-    res.json({
-      message: 'Sync started',
-      status: 'SYNCING'
+    res.status(202).json({
+      message: 'Sync queued',
+      status: 'SYNCING',
+      jobs: jobs.map(job => ({ id: job.id, itemId: job.itemId, status: job.status }))
     });
 
   } catch (error: any) {
@@ -275,6 +233,50 @@ router.post('/sync', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/transactions/backfill
+ * Queue a backfill of history back to startDate, one month at a time
+ */
+router.post('/backfill', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { startDate, itemId } = req.body;
+
+    const start = new Date(startDate);
+    if (!startDate || isNaN(start.getTime())) {
+      return res.status(400).json({ error: 'startDate is required (YYYY-MM-DD)' });
+    }
+
+    const today = new Date();
+    if (start >= today) {
+      return res.status(400).json({ error: 'startDate must be in the past' });
+    }
+    if (countBackfillWindows(start, today) > MAX_BACKFILL_MONTHS) {
+      return res.status(400).json({ error: `Backfills can go back at most ${MAX_BACKFILL_MONTHS} months` });
+    }
+
+    const backfills = await BackfillService.requestBackfill(userId, start, itemId);
+
+    if (backfills.length === 0) {
+      return res.status(404).json({
+        error: itemId ? 'Linked institution not found' : 'No bank account connected. Please connect your bank first.'
+      });
+    }
+
+    for (const backfill of backfills) {
+      await SyncJobService.enqueueBackfill(backfill);
+    }
+
+    res.status(202).json({
+      message: 'Backfill queued',
+      backfills: backfills.map(BackfillService.formatBackfill)
+    });
+  } catch (error: any) {
+    console.error('Error starting backfill:', error);
+    res.status(500).json({ error: 'Failed to start backfill' });
+  }
+});
+
 /**
  * GET /api/transactions/sync-status
  * Get current sync status
@@ -283,13 +285,49 @@ router.get('/sync-status', async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const status = await TransactionSyncService.getSyncStatus(userId);
-    res.json(status);
+    const activeJobs = await SyncJobService.getActiveJobs(userId);
+    const backfills = await BackfillService.getBackfillProgress(userId);
+
+    res.json({
+      ...status,
+      backfills,
+      jobs: activeJobs.map(job => ({
+        id: job.id,
+        itemId: job.itemId,
+        backfillId: job.backfillId,
+        status: job.status,
+        attempts: job.attempts,
+        nextRunAt: job.nextRunAt,
+        lastError: job.lastError
+      }))
+    });
   } catch (error: any) {
     console.error('Error fetching sync status:', error);
     res.status(500).json({ error: 'Failed to fetch sync status' });
   }
 });
 
+/**
+ * GET /api/transactions/sync-history
+ * Recent sync runs with counts and failure details
+ */
+router.get('/sync-history', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { itemId, limit = '20' } = req.query;
+
+    const history = await TransactionSyncService.getSyncHistory(userId, {
+      itemId: itemId as string | undefined,
+      limit: Math.min(Math.max(parseInt(limit as string) || 20, 1), 100)
+    });
+
+    res.json(history);
+  } catch (error: any) {
+    console.error('Error fetching sync history:', error);
+    res.status(500).json({ error: 'Failed to fetch sync history' });
+  }
+});
+
 /**
  * GET /api/transactions/categories/debug
  * Debug endpoint to see all Plaid categories in your data
@@ -648,9 +686,9 @@ router.post('/debug/enhanced-recategorize', async (req: Request, res: Response)
     const userId = req.user!.id;
     console.log(`Enhanced re-categorizing transactions for user ${userId}`);
 
-    // Get all transactions for this user
+    // Get all transactions for this user, leaving the ones they categorized themselves alone
     const transactions = await prisma.transaction.findMany({
-      where: { userId }
+      where: { userId, categoryOverridden: false }
     });
 
     console.log(`Found ${transactions.length} transactions to re-categorize`);
@@ -947,7 +985,7 @@ router.put('/:id/category', async (req: Request, res: Response) => {
     // Update transaction category
     const updatedTransaction = await prisma.transaction.update({
       where: { id },
-      data: { primaryCategory: category }
+      data: { primaryCategory: category, categoryOverridden: true }
     });
 
     // Learn from this correction
@@ -991,6 +1029,7 @@ router.get('/:id/suggestions', async (req: Request, res: Response) => {
 
     // Get smart categorization suggestions
     const suggestions = await SmartCategorizationService.getSuggestions(
+      userId,
       transaction.name,
       transaction.merchantName || undefined
     );
@@ -1040,6 +1079,327 @@ router.put('/:id/notes', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/transactions/:id/attachments
+ * Receipts and documents uploaded to a transaction
+ */
+router.get('/:id/attachments', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId },
+      include: { attachments: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    res.json({ attachments: transaction.attachments.map(AttachmentService.formatAttachment) });
+  } catch (error: any) {
+    console.error('Error fetching attachments:', error);
+    res.status(500).json({ error: 'Failed to fetch attachments' });
+  }
+});
+
+/**
+ * POST /api/transactions/:id/attachments?fileName=receipt.jpg
+ * Upload a receipt or document as the request body, with its Content-Type
+ */
+router.post('/:id/attachments', attachmentBody, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(415).json({ error: `Attachments must be one of ${ATTACHMENT_CONTENT_TYPES.join(', ')}` });
+    }
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId }
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    const attachment = await AttachmentService.create(transaction, {
+      data: req.body,
+      contentType: (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase(),
+      fileName: req.query.fileName as string | undefined
+    });
+
+    res.status(201).json({ attachment: AttachmentService.formatAttachment(attachment) });
+  } catch (error: any) {
+    if (error instanceof AttachmentError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error uploading attachment:', error);
+    res.status(500).json({ error: 'Failed to upload attachment' });
+  }
+});
+
+/**
+ * GET /api/transactions/:id/attachments/:attachmentId
+ * Download an attachment; shown inline unless download=true
+ */
+router.get('/:id/attachments/:attachmentId', async (req: Request, res: Response) => {
+  try {
+    const { id, attachmentId } = req.params;
+    const userId = req.user!.id;
+
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, transactionId: id, userId }
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const file = await AttachmentService.open(attachment);
+    const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('Content-Length', attachment.size);
+    res.setHeader('Content-Disposition', `${disposition}; filename="${attachment.fileName}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    await pipeline(file, res);
+  } catch (error: any) {
+    console.error('Error downloading attachment:', error);
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    res.status(500).json({ error: 'Failed to download attachment' });
+  }
+});
+
+/**
+ * DELETE /api/transactions/:id/attachments/:attachmentId
+ */
+router.delete('/:id/attachments/:attachmentId', async (req: Request, res: Response) => {
+  try {
+    const { id, attachmentId } = req.params;
+    const userId = req.user!.id;
+
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, transactionId: id, userId }
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    await AttachmentService.delete(attachment);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting attachment:', error);
+    res.status(500).json({ error: 'Failed to delete attachment' });
+  }
+});
+
+/**
+ * PUT /api/transactions/:id/splits
+ * Split a transaction across categories. The splits must add up to the
+ * transaction's amount; an empty list removes the split.
+ */
+router.put('/:id/splits', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const splits = parseSplits(req.body);
+    if ('error' in splits) {
+      return res.status(400).json({ error: splits.error });
+    }
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId }
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    const invalid = TransactionSplitService.checkSplits(transaction, splits);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const saved = await TransactionSplitService.replaceSplits(transaction, splits);
+    res.json({ success: true, transaction: { id: transaction.id, amount: transaction.amount, splits: saved } });
+  } catch (error: any) {
+    console.error('Error updating transaction splits:', error);
+    res.status(500).json({ error: 'Failed to update transaction splits' });
+  }
+});
+
+/**
+ * POST /api/transactions/transfers
+ * Link two transactions as a transfer between the user's own accounts
+ */
+router.post('/transfers', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { transactionIds } = req.body;
+
+    if (!Array.isArray(transactionIds) || transactionIds.length !== 2 || transactionIds[0] === transactionIds[1]) {
+      return res.status(400).json({ error: 'transactionIds must be two different transaction ids' });
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: { id: { in: transactionIds }, userId }
+    });
+
+    if (transactions.length !== 2) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    const [first, second] = transactions;
+    if (first.accountId === second.accountId) {
+      return res.status(400).json({ error: 'A transfer moves money between two different accounts' });
+    }
+    if (Math.sign(first.amount) === Math.sign(second.amount)) {
+      return res.status(400).json({ error: 'A transfer needs money leaving one account and arriving in the other' });
+    }
+
+    const transfer = await TransferService.linkTransactions(first, second);
+    res.status(201).json({ transferGroupId: transfer[0].transferGroupId, transactions: transfer });
+  } catch (error: any) {
+    console.error('Error linking transfer:', error);
+    res.status(500).json({ error: 'Failed to link transfer' });
+  }
+});
+
+/**
+ * DELETE /api/transactions/transfers/:groupId
+ * Unlink a transfer so both sides count as income and spending again
+ */
+router.delete('/transfers/:groupId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    const count = await TransferService.unlinkGroup(userId, req.params.groupId);
+    if (count === 0) {
+      return res.status(404).json({ error: 'Transfer not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error unlinking transfer:', error);
+    res.status(500).json({ error: 'Failed to unlink transfer' });
+  }
+});
+
+/**
+ * POST /api/transactions
+ * Enter a transaction by hand (cash spending, accounts without a bank connection)
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { accountId, name } = req.body;
+
+    if (!accountId || !name) {
+      return res.status(400).json({ error: 'accountId and name are required' });
+    }
+
+    const input = parseManualTransaction(req.body);
+    if ('error' in input) {
+      return res.status(400).json({ error: input.error });
+    }
+    if (input.amount === undefined || !input.date) {
+      return res.status(400).json({ error: 'amount and date are required' });
+    }
+
+    const account = await prisma.account.findFirst({
+      where: { id: accountId, userId }
+    });
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    const transaction = await ManualEntryService.createTransaction(userId, account, {
+      ...input,
+      accountId,
+      name,
+      amount: input.amount,
+      date: input.date
+    });
+
+    res.status(201).json({ transaction });
+  } catch (error: any) {
+    console.error('Error creating transaction:', error);
+    res.status(500).json({ error: 'Failed to create transaction' });
+  }
+});
+
+/**
+ * PUT /api/transactions/:id
+ * Edit a manually entered transaction; synced ones belong to the bank
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const input = parseManualTransaction(req.body);
+    if ('error' in input) {
+      return res.status(400).json({ error: input.error });
+    }
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId }
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    if (transaction.source !== 'manual') {
+      return res.status(409).json({ error: 'Only manually entered transactions can be edited' });
+    }
+
+    const updatedTransaction = await ManualEntryService.updateTransaction(transaction, input);
+    res.json({ success: true, transaction: updatedTransaction });
+  } catch (error: any) {
+    console.error('Error updating transaction:', error);
+    res.status(500).json({ error: 'Failed to update transaction' });
+  }
+});
+
+/**
+ * DELETE /api/transactions/:id
+ * Delete a manually entered transaction
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId }
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    if (transaction.source !== 'manual') {
+      return res.status(409).json({ error: 'Only manually entered transactions can be deleted' });
+    }
+
+    await ManualEntryService.deleteTransaction(transaction);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting transaction:', error);
+    res.status(500).json({ error: 'Failed to delete transaction' });
+  }
+});
+
 /**
  * POST /api/transactions/debug/recategorize
  * Enhanced re-categorization for your specific bank format
@@ -1049,8 +1409,9 @@ router.post('/debug/recategorize', async (req: Request, res: Response) => {
     const userId = req.user!.id;
     console.log(`Enhanced re-categorizing transactions for user ${userId}`);
 
+    // Categories the user picked themselves are kept
     const transactions = await prisma.transaction.findMany({
-      where: { userId }
+      where: { userId, categoryOverridden: false }
     });
 
     console.log(`Found ${transactions.length} transactions to re-categorize`);
@@ -1202,4 +1563,128 @@ router.post('/debug/recategorize', async (req: Request, res: Response) => {
   }
 });
 
+// Helper function to fetch a page of transactions, newest first, with what all the
+// filtered transactions add up to
+async function findTransactions(where: Prisma.TransactionWhereInput, skip: number, take: number) {
+  const [transactions, all, income, expenses] = await Promise.all([
+    prisma.transaction.findMany({
+      where,
+      include: listInclude,
+      orderBy: { date: 'desc' },
+      skip,
+      take
+    }),
+    prisma.transaction.aggregate({ where, _sum: { amount: true }, _count: { id: true } }),
+    prisma.transaction.aggregate({ where: { AND: [where, { amount: { lt: 0 } }] }, _sum: { amount: true }, _count: { id: true } }),
+    prisma.transaction.aggregate({ where: { AND: [where, { amount: { gt: 0 } }] }, _sum: { amount: true }, _count: { id: true } })
+  ]);
+
+  const summary: SearchSummary = {
+    count: all._count.id,
+    totalAmount: all._sum.amount || 0,
+    income: Math.abs(income._sum.amount || 0),
+    incomeCount: income._count.id,
+    expenses: expenses._sum.amount || 0,
+    expenseCount: expenses._count.id
+  };
+  return { transactions, summary, ranks: null };
+}
+
+// Helper function to fetch a page of search results, most relevant or newest first,
+// with what all the matches add up to
+async function findSearchResults(
+  userId: string,
+  tsquery: string,
+  filters: TransactionFilters,
+  order: SearchOrder,
+  skip: number,
+  take: number
+) {
+  const [matches, summary] = await Promise.all([
+    TransactionSearchService.search(userId, tsquery, filters, { order, skip, take }),
+    TransactionSearchService.summarize(userId, tsquery, filters)
+  ]);
+
+  const rows = await prisma.transaction.findMany({
+    where: { id: { in: matches.map(match => match.id) } },
+    include: listInclude
+  });
+  const byId = new Map(rows.map(row => [row.id, row]));
+
+  return {
+    transactions: matches.map(match => byId.get(match.id)).filter((row): row is typeof rows[number] => !!row),
+    summary,
+    ranks: new Map(matches.map(match => [match.id, match.rank]))
+  };
+}
+
+// Helper function to validate the editable fields of a manual transaction
+function parseManualTransaction(body: Record<string, unknown>): { error: string } | {
+  name?: string;
+  merchantName?: string | null;
+  amount?: number;
+  date?: Date;
+  category?: string | null;
+  notes?: string | null;
+} {
+  const { name, merchantName, amount, date, category, notes } = body;
+
+  const parsedAmount = amount !== undefined ? parseFloat(String(amount)) : undefined;
+  if (parsedAmount !== undefined && isNaN(parsedAmount)) {
+    return { error: 'amount must be a number' };
+  }
+
+  if (date !== undefined && typeof date !== 'string' && typeof date !== 'number') {
+    return { error: 'Invalid date' };
+  }
+  const parsedDate = date !== undefined ? new Date(date) : undefined;
+  if (parsedDate && isNaN(parsedDate.getTime())) {
+    return { error: 'Invalid date' };
+  }
+
+  if (name !== undefined && (typeof name !== 'string' || !name)) {
+    return { error: 'name cannot be empty' };
+  }
+
+  if (!isOptionalText(merchantName) || !isOptionalText(category) || !isOptionalText(notes)) {
+    return { error: 'merchantName, category and notes must be text' };
+  }
+
+  return { name, merchantName, amount: parsedAmount, date: parsedDate, category, notes };
+}
+
+// Helper function to validate the shape of each split; the amounts are checked against the transaction later
+function parseSplits(body: Record<string, unknown>): { error: string } | SplitInput[] {
+  if (!Array.isArray(body.splits)) {
+    return { error: 'splits must be an array' };
+  }
+
+  const splits: SplitInput[] = [];
+  for (const split of body.splits as unknown[]) {
+    if (typeof split !== 'object' || split === null) {
+      return { error: 'Each split needs a numeric amount' };
+    }
+
+    const { amount, category, note } = split as Record<string, unknown>;
+    const parsedAmount = parseFloat(String(amount));
+    if (isNaN(parsedAmount)) {
+      return { error: 'Each split needs a numeric amount' };
+    }
+    if (typeof category !== 'string' || !category.trim()) {
+      return { error: 'Each split needs a category' };
+    }
+    if (!isOptionalText(note)) {
+      return { error: 'A split note must be text' };
+    }
+    splits.push({ amount: parsedAmount, category: category.trim(), note: note || null });
+  }
+
+  return splits;
+}
+
+// Helper function to check a field that may be left out, cleared with null or set to text
+function isOptionalText(value: unknown): value is string | null | undefined {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
 export default router;
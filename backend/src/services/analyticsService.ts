@@ -1,6 +1,98 @@
 import { prisma } from '../lib/prisma';
+import { Prisma } from '../../prisma/generated/prisma';
+
+// Closed accounts keep their transactions but are left out of analytics
+const OPEN_ACCOUNTS = { account: { isActive: true } };
+
+// Transfers between the user's own accounts are neither income nor spending
+const EXCLUDE_TRANSFERS = { transferGroupId: null };
+
+const SPLITS = { select: { amount: true, category: true } };
+
+// A split transaction counts toward each of its splits' categories instead of its own
+const categoryParts = (transaction: {
+  amount: number;
+  primaryCategory: string | null;
+  splits: Array<{ amount: number; category: string }>;
+}) => transaction.splits.length > 0
+  ? transaction.splits
+  : [{ amount: transaction.amount, category: transaction.primaryCategory || 'Other' }];
+
+const dateRange = (range: { from?: Date; to?: Date }) =>
+  range.from || range.to ? { date: { gte: range.from, lte: range.to } } : {};
 
 export class AnalyticsService {
+  /**
+   * Get monthly income vs expenses from startDate, optionally up to endDate.
+   * Transfers are left out unless includeTransfers is set.
+   */
+  static async getMonthlyTrends(userId: string, startDate: Date, options: { endDate?: Date; includeTransfers?: boolean } = {}) {
+    // Raw SQL so the grouping by month happens in the database
+    const monthlyData = await prisma.$queryRaw<any[]>`
+      SELECT 
+        DATE_TRUNC('month', date) as month,
+        SUM(CASE WHEN amount > 0 THEN amount ELSE 0 END) as expenses,
+        SUM(CASE WHEN amount < 0 THEN ABS(amount) ELSE 0 END) as income,
+        COUNT(*) as transaction_count
+      FROM transactions 
+      WHERE "userId" = ${userId} AND date >= ${startDate}
+        ${options.endDate ? Prisma.sql`AND date <= ${options.endDate}` : Prisma.empty}
+        ${options.includeTransfers ? Prisma.empty : Prisma.sql`AND "transferGroupId" IS NULL`}
+        AND "accountId" IN (SELECT id FROM accounts WHERE "isActive" = true)
+      GROUP BY DATE_TRUNC('month', date)
+      ORDER BY month ASC
+    `;
+
+    return monthlyData.map(item => ({
+      month: new Date(item.month).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+      expenses: parseFloat(item.expenses) || 0,
+      income: parseFloat(item.income) || 0,
+      transactionCount: parseInt(item.transaction_count),
+      netAmount: (parseFloat(item.income) || 0) - (parseFloat(item.expenses) || 0)
+    }));
+  }
+
+  /**
+   * Get total spending per category, largest first. A split transaction counts
+   * toward its splits' categories. Transfers are left out unless includeTransfers is set.
+   */
+  static async getCategorySpending(userId: string, options: { from?: Date; to?: Date; includeTransfers?: boolean } = {}) {
+    const where: Prisma.TransactionWhereInput = {
+      userId,
+      ...OPEN_ACCOUNTS,
+      ...(!options.includeTransfers && EXCLUDE_TRANSFERS),
+      amount: { gt: 0 }, // Only expenses
+      ...dateRange(options)
+    };
+
+    const [wholeSpending, splitSpending] = await Promise.all([
+      prisma.transaction.groupBy({
+        by: ['primaryCategory'],
+        where: { ...where, primaryCategory: { not: null }, splits: { none: {} } },
+        _sum: { amount: true },
+        _count: { id: true }
+      }),
+      prisma.transactionSplit.groupBy({
+        by: ['category'],
+        where: { transaction: where },
+        _sum: { amount: true },
+        _count: { id: true }
+      })
+    ]);
+
+    const categorySpending = new Map<string, { category: string; amount: number; transactionCount: number }>();
+    const add = (category: string, amount: number, transactionCount: number) => {
+      const totals = categorySpending.get(category) || { category, amount: 0, transactionCount: 0 };
+      totals.amount += amount;
+      totals.transactionCount += transactionCount;
+      categorySpending.set(category, totals);
+    };
+    wholeSpending.forEach(item => add(item.primaryCategory!, item._sum.amount || 0, item._count.id));
+    splitSpending.forEach(item => add(item.category, item._sum.amount || 0, item._count.id));
+
+    return Array.from(categorySpending.values()).sort((a, b) => b.amount - a.amount);
+  }
+
   /**
    * Get spending trends over time
    */
@@ -11,6 +103,8 @@ export class AnalyticsService {
     const transactions = await prisma.transaction.findMany({
       where: {
         userId,
+        ...OPEN_ACCOUNTS,
+        ...EXCLUDE_TRANSFERS,
         date: { gte: startDate },
         amount: { gt: 0 } // Only expenses
       },
@@ -18,7 +112,8 @@ export class AnalyticsService {
         amount: true,
         date: true,
         primaryCategory: true,
-        merchantName: true
+        merchantName: true,
+        splits: SPLITS
       }
     });
 
@@ -30,8 +125,9 @@ export class AnalyticsService {
         monthlyData.set(month, {});
       }
       const monthData = monthlyData.get(month)!;
-      const category = transaction.primaryCategory || 'Other';
-      monthData[category] = (monthData[category] || 0) + transaction.amount;
+      categoryParts(transaction).forEach(part => {
+        monthData[part.category] = (monthData[part.category] || 0) + part.amount;
+      });
     });
 
     return Array.from(monthlyData.entries()).map(([month, data]) => ({
@@ -78,39 +174,49 @@ export class AnalyticsService {
   }
 
   /**
-   * Get top merchants analysis
+   * Get top merchants analysis, over all time unless a date range is given.
+   * Transactions are grouped by their canonical merchant, however the bank spelled it.
+   * Ones stored before merchants existed, still without one, are grouped by the
+   * provider's merchant name as before.
    */
-  static async getTopMerchants(userId: string, limit: number = 10) {
+  static async getTopMerchants(userId: string, limit: number = 10, range: { from?: Date; to?: Date } = {}) {
     const transactions = await prisma.transaction.findMany({
       where: {
         userId,
+        ...OPEN_ACCOUNTS,
+        ...EXCLUDE_TRANSFERS,
         amount: { gt: 0 },
-        merchantName: { not: null }
+        OR: [{ merchantId: { not: null } }, { merchantName: { not: null } }],
+        ...dateRange(range)
       },
       select: {
+        merchant: { select: { id: true, name: true } },
         merchantName: true,
         amount: true,
         primaryCategory: true,
-        date: true
+        date: true,
+        splits: SPLITS
       }
     });
 
     const merchantData = new Map();
     transactions.forEach(transaction => {
-      const merchant = transaction.merchantName!;
-      if (!merchantData.has(merchant)) {
-        merchantData.set(merchant, {
-          name: merchant,
+      const merchant = transaction.merchant;
+      const key = merchant ? merchant.id : `name:${transaction.merchantName}`;
+      if (!merchantData.has(key)) {
+        merchantData.set(key, {
+          merchantId: merchant ? merchant.id : null,
+          name: merchant ? merchant.name : transaction.merchantName,
           totalSpent: 0,
           transactionCount: 0,
           categories: new Set(),
           lastTransaction: transaction.date
         });
       }
-      const data = merchantData.get(merchant);
+      const data = merchantData.get(key);
       data.totalSpent += transaction.amount;
       data.transactionCount += 1;
-      data.categories.add(transaction.primaryCategory || 'Other');
+      categoryParts(transaction).forEach(part => data.categories.add(part.category));
       if (transaction.date > data.lastTransaction) {
         data.lastTransaction = transaction.date;
       }
@@ -126,6 +232,59 @@ export class AnalyticsService {
       .slice(0, limit);
   }
 
+  /**
+   * Get spending and income per tag, with each tag's spending by category. A
+   * transaction with several tags counts toward each of them.
+   */
+  static async getTagSpending(userId: string, range: { from?: Date; to?: Date } = {}) {
+    const [tags, links] = await Promise.all([
+      prisma.tag.findMany({ where: { userId } }),
+      prisma.transactionTag.findMany({
+        where: {
+          tag: { userId },
+          transaction: { ...OPEN_ACCOUNTS, ...EXCLUDE_TRANSFERS, ...dateRange(range) }
+        },
+        select: {
+          tagId: true,
+          transaction: { select: { amount: true, primaryCategory: true, splits: SPLITS } }
+        }
+      })
+    ]);
+
+    const tagData = new Map(tags.map(tag => [tag.id, {
+      tagId: tag.id,
+      name: tag.name,
+      color: tag.color,
+      totalSpent: 0,
+      income: 0,
+      transactionCount: 0,
+      categories: new Map<string, number>()
+    }]));
+
+    links.forEach(({ tagId, transaction }) => {
+      const data = tagData.get(tagId)!;
+      data.transactionCount += 1;
+      if (transaction.amount < 0) {
+        data.income += Math.abs(transaction.amount);
+      } else {
+        data.totalSpent += transaction.amount;
+        categoryParts(transaction).forEach(part => {
+          data.categories.set(part.category, (data.categories.get(part.category) || 0) + part.amount);
+        });
+      }
+    });
+
+    return Array.from(tagData.values())
+      .filter(tag => tag.transactionCount > 0)
+      .map(tag => ({
+        ...tag,
+        categories: Array.from(tag.categories.entries())
+          .map(([category, amount]) => ({ category, amount }))
+          .sort((a, b) => b.amount - a.amount)
+      }))
+      .sort((a, b) => b.totalSpent - a.totalSpent);
+  }
+
   /**
    * Get spending patterns by day of week
    */
@@ -133,6 +292,8 @@ export class AnalyticsService {
     const transactions = await prisma.transaction.findMany({
       where: {
         userId,
+        ...OPEN_ACCOUNTS,
+        ...EXCLUDE_TRANSFERS,
         amount: { gt: 0 }
       },
       select: {
@@ -169,21 +330,24 @@ export class AnalyticsService {
   }
 
   /**
-   * Get monthly spending summary
+   * Get monthly spending summary. Transfers are left out unless includeTransfers is set.
    */
-  static async getMonthlySummary(userId: string, year: number) {
+  static async getMonthlySummary(userId: string, year: number, options: { includeTransfers?: boolean } = {}) {
     const startDate = new Date(year, 0, 1);
     const endDate = new Date(year + 1, 0, 1);
 
     const transactions = await prisma.transaction.findMany({
       where: {
         userId,
+        ...OPEN_ACCOUNTS,
+        ...(!options.includeTransfers && EXCLUDE_TRANSFERS),
         date: { gte: startDate, lt: endDate }
       },
       select: {
         amount: true,
         date: true,
-        primaryCategory: true
+        primaryCategory: true,
+        splits: SPLITS
       }
     });
 
@@ -205,13 +369,14 @@ export class AnalyticsService {
     transactions.forEach(transaction => {
       const month = transaction.date.getMonth();
       const monthData = monthlyData.get(month)!;
-      const category = transaction.primaryCategory || 'Other';
       
       if (transaction.amount < 0) {
         monthData.income += Math.abs(transaction.amount);
       } else {
         monthData.expenses += transaction.amount;
-        monthData.categories.set(category, (monthData.categories.get(category) || 0) + transaction.amount);
+        categoryParts(transaction).forEach(part => {
+          monthData.categories.set(part.category, (monthData.categories.get(part.category) || 0) + part.amount);
+        });
       }
     });
 
@@ -233,13 +398,16 @@ export class AnalyticsService {
     const transactions = await prisma.transaction.findMany({
       where: {
         userId,
+        ...OPEN_ACCOUNTS,
+        ...EXCLUDE_TRANSFERS,
         date: { gte: sixMonthsAgo },
         amount: { gt: 0 }
       },
       select: {
         amount: true,
         date: true,
-        primaryCategory: true
+        primaryCategory: true,
+        splits: SPLITS
       }
     });
 
@@ -249,13 +417,14 @@ export class AnalyticsService {
 
     transactions.forEach(transaction => {
       const month = transaction.date.toISOString().substring(0, 7);
-      const category = transaction.primaryCategory || 'Other';
       
       if (!monthlyTotals.has(month)) {
         monthlyTotals.set(month, new Map());
       }
       const monthData = monthlyTotals.get(month);
-      monthData.set(category, (monthData.get(category) || 0) + transaction.amount);
+      categoryParts(transaction).forEach(part => {
+        monthData.set(part.category, (monthData.get(part.category) || 0) + part.amount);
+      });
     });
 
     // Calculate averages
@@ -287,19 +456,23 @@ export class AnalyticsService {
     const transactions = await prisma.transaction.findMany({
       where: {
         userId,
+        ...OPEN_ACCOUNTS,
+        ...EXCLUDE_TRANSFERS,
         date: { gte: startDate, lt: endDate },
         amount: { gt: 0 }
       },
       select: {
         amount: true,
-        primaryCategory: true
+        primaryCategory: true,
+        splits: SPLITS
       }
     });
 
     const categorySpending: Record<string, number> = {};
     transactions.forEach(transaction => {
-      const category = transaction.primaryCategory || 'Other';
-      categorySpending[category] = (categorySpending[category] || 0) + transaction.amount;
+      categoryParts(transaction).forEach(part => {
+        categorySpending[part.category] = (categorySpending[part.category] || 0) + part.amount;
+      });
     });
 
     return categorySpending;
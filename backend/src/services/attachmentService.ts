@@ -0,0 +1,129 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { getAttachmentStorage } from '../lib/attachmentStorage';
+import { prisma } from '../lib/prisma';
+import { Attachment, Transaction } from '../../prisma/generated/prisma';
+
+// Receipt photos and scanned or emailed documents
+export const ATTACHMENT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'application/pdf': 'pdf'
+};
+
+// How each allowed type starts, so a file can't claim to be something it isn't
+const SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  'image/jpeg': data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  'image/png': data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/webp': data => data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP',
+  'image/heic': data => data.toString('latin1', 4, 8) === 'ftyp'
+    && ['heic', 'heix', 'mif1', 'msf1'].includes(data.toString('latin1', 8, 12)),
+  'application/pdf': data => data.toString('latin1', 0, 5) === '%PDF-'
+};
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+export class AttachmentService {
+
+  /**
+   * Store an uploaded file against a transaction after checking its type, size
+   * and that its contents match the type it claims
+   */
+  static async create(transaction: Transaction, upload: { data: Buffer; contentType: string; fileName?: string }) {
+    const { data, contentType } = upload;
+
+    if (!ATTACHMENT_CONTENT_TYPES.includes(contentType)) {
+      throw new AttachmentError(`Attachments must be one of ${ATTACHMENT_CONTENT_TYPES.join(', ')}`);
+    }
+    if (data.length === 0) {
+      throw new AttachmentError('The file is empty');
+    }
+    if (data.length > MAX_ATTACHMENT_BYTES) {
+      throw new AttachmentError(`Attachments are limited to ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+    }
+    if (!SIGNATURES[contentType](data)) {
+      throw new AttachmentError(`The file is not a valid ${EXTENSIONS[contentType].toUpperCase()}`);
+    }
+
+    const existing = await prisma.attachment.count({ where: { transactionId: transaction.id } });
+    if (existing >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+      throw new AttachmentError(`A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`);
+    }
+
+    const storage = getAttachmentStorage();
+    const storageKey = `${transaction.userId}/${transaction.id}/${randomUUID()}`;
+    await storage.put(storageKey, data, contentType);
+
+    try {
+      return await prisma.attachment.create({
+        data: {
+          userId: transaction.userId,
+          transactionId: transaction.id,
+          fileName: this.cleanFileName(upload.fileName, contentType),
+          contentType,
+          size: data.length,
+          storageKey
+        }
+      });
+    } catch (error) {
+      // Don't leave a file behind that nothing points to
+      await storage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  static async open(attachment: Attachment) {
+    return getAttachmentStorage().get(attachment.storageKey);
+  }
+
+  static async delete(attachment: Attachment) {
+    await prisma.attachment.delete({ where: { id: attachment.id } });
+    await this.deleteFiles([attachment]);
+  }
+
+  /**
+   * Remove stored files once their rows are gone (deleted directly or along with
+   * their transaction). A failure only leaves an unreachable file, so it is logged
+   * rather than thrown.
+   */
+  static async deleteFiles(attachments: Array<Pick<Attachment, 'storageKey'>>) {
+    const storage = getAttachmentStorage();
+    for (const attachment of attachments) {
+      try {
+        await storage.delete(attachment.storageKey);
+      } catch (error) {
+        console.warn(`Failed to delete attachment file ${attachment.storageKey}:`, error);
+      }
+    }
+  }
+
+  static formatAttachment(attachment: Attachment) {
+    return {
+      id: attachment.id,
+      transactionId: attachment.transactionId,
+      fileName: attachment.fileName,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      createdAt: attachment.createdAt
+    };
+  }
+
+  // Keep the name safe to put in a Content-Disposition header
+  private static cleanFileName(fileName: string | undefined, contentType: string) {
+    const cleaned = path.basename(fileName || '').replace(/[^\w .()-]/g, '_').trim().slice(-100);
+    return cleaned || `attachment.${EXTENSIONS[contentType]}`;
+  }
+}
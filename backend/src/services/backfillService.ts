@@ -0,0 +1,194 @@
+import { getBankDataProvider } from '../lib/bankDataProvider';
+import { prisma } from '../lib/prisma';
+import { getAccessToken } from '../lib/tokenEncryption';
+import { ProviderTransaction } from '../providers/bankDataProvider';
+import { Backfill } from '../../prisma/generated/prisma';
+import { BalanceHistoryService } from './balanceHistoryService';
+import { TransactionSyncService } from './transactionSyncService';
+
+// /transactions/get page size (Plaid's maximum)
+const BACKFILL_PAGE_SIZE = 500;
+
+// Guards against typos like 0205-01-01 turning into thousands of windows
+export const MAX_BACKFILL_MONTHS = 120;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const startOfMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Number of calendar months the range touches, i.e. how many windows a backfill takes
+ */
+export const countBackfillWindows = (startDate: Date, endDate: Date) =>
+  (endDate.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + endDate.getUTCMonth() - startDate.getUTCMonth() + 1;
+
+export class BackfillService {
+
+  /**
+   * Start (or resume) a backfill back to startDate for each of the user's items, or just one.
+   * Each item only runs one backfill at a time; asking again returns the one in progress.
+   */
+  static async requestBackfill(userId: string, startDate: Date, itemId?: string) {
+    const items = await prisma.plaidItem.findMany({
+      where: { userId, ...(itemId && { id: itemId }) },
+      select: { id: true }
+    });
+
+    const backfills: Backfill[] = [];
+    for (const item of items) {
+      backfills.push(await this.requestItemBackfill(userId, item.id, startOfDay(startDate)));
+    }
+    return backfills;
+  }
+
+  private static async requestItemBackfill(userId: string, itemId: string, startDate: Date) {
+    const active = await prisma.backfill.findFirst({
+      where: { itemId, status: { in: ['QUEUED', 'RUNNING'] } }
+    });
+
+    if (active) {
+      return active;
+    }
+
+    // Pick up where a failed backfill over the same range stopped
+    const failed = await prisma.backfill.findFirst({
+      where: { itemId, status: 'FAILED', startDate },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (failed) {
+      return prisma.backfill.update({
+        where: { id: failed.id },
+        data: { status: 'QUEUED', lastError: null, finishedAt: null }
+      });
+    }
+
+    const endDate = startOfDay(new Date());
+    return prisma.backfill.create({
+      data: {
+        userId,
+        itemId,
+        startDate,
+        endDate,
+        windowEnd: endDate,
+        windowsTotal: countBackfillWindows(startDate, endDate)
+      }
+    });
+  }
+
+  /**
+   * Fetch and store the next monthly window. Progress is saved after every window,
+   * so a backfill interrupted by a restart carries on from the window it was on.
+   */
+  static async runWindow(backfillId: string): Promise<{ done: boolean }> {
+    const backfill = await prisma.backfill.findUnique({
+      where: { id: backfillId },
+      include: { item: true }
+    });
+
+    if (!backfill || backfill.status === 'SUCCEEDED' || backfill.status === 'FAILED') {
+      return { done: true };
+    }
+
+    if (backfill.status === 'QUEUED') {
+      await prisma.backfill.update({
+        where: { id: backfillId },
+        data: { status: 'RUNNING', startedAt: backfill.startedAt || new Date() }
+      });
+    }
+
+    const monthStart = startOfMonth(backfill.windowEnd);
+    const windowStart = monthStart > backfill.startDate ? monthStart : backfill.startDate;
+    const accessToken = getAccessToken(backfill.item);
+
+    const transactions: ProviderTransaction[] = [];
+    let total = Infinity;
+    while (transactions.length < total) {
+      const page = await getBankDataProvider().getTransactions(
+        accessToken,
+        toDateString(windowStart),
+        toDateString(backfill.windowEnd),
+        BACKFILL_PAGE_SIZE,
+        transactions.length
+      );
+
+      total = page.totalTransactions;
+      transactions.push(...page.transactions);
+      if (page.transactions.length === 0) break;
+    }
+
+    const inserted = await TransactionSyncService.insertMissingTransactions(backfill.userId, backfill.itemId, transactions);
+
+    const windowEnd = new Date(windowStart.getTime() - DAY_MS);
+    const done = windowEnd < backfill.startDate;
+
+    await prisma.backfill.update({
+      where: { id: backfillId },
+      data: {
+        windowEnd,
+        windowsCompleted: { increment: 1 },
+        transactionsAdded: { increment: inserted },
+        lastError: null,
+        ...(done && { status: 'SUCCEEDED', finishedAt: new Date() })
+      }
+    });
+
+    console.log(`Backfill ${backfillId}: ${toDateString(windowStart)} to ${toDateString(backfill.windowEnd)}, ${inserted} of ${transactions.length} transactions new`);
+
+    if (done) {
+      // Older transactions mean balance history can go further back too
+      try {
+        await BalanceHistoryService.backfillItem(backfill.itemId);
+      } catch (error) {
+        console.warn(`Balance backfill after history backfill ${backfillId} failed:`, error);
+      }
+    }
+
+    return { done };
+  }
+
+  /**
+   * Give up on a backfill; requesting the same range again resumes it
+   */
+  static async markFailed(backfillId: string, message: string) {
+    await prisma.backfill.updateMany({
+      where: { id: backfillId },
+      data: { status: 'FAILED', lastError: message, finishedAt: new Date() }
+    });
+  }
+
+  /**
+   * The most recent backfill for each of the user's items
+   */
+  static async getBackfillProgress(userId: string) {
+    const backfills = await prisma.backfill.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      distinct: ['itemId']
+    });
+
+    return backfills.map(this.formatBackfill);
+  }
+
+  static formatBackfill(backfill: Backfill) {
+    return {
+      id: backfill.id,
+      itemId: backfill.itemId,
+      status: backfill.status,
+      startDate: toDateString(backfill.startDate),
+      endDate: toDateString(backfill.endDate),
+      windowsCompleted: backfill.windowsCompleted,
+      windowsTotal: backfill.windowsTotal,
+      percentComplete: backfill.windowsTotal > 0
+        ? Math.min(Math.round((backfill.windowsCompleted / backfill.windowsTotal) * 100), 100)
+        : 100,
+      transactionsAdded: backfill.transactionsAdded,
+      lastError: backfill.lastError,
+      finishedAt: backfill.finishedAt
+    };
+  }
+}
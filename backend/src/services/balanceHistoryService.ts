@@ -0,0 +1,226 @@
+import { prisma } from '../lib/prisma';
+import { Prisma } from '../../prisma/generated/prisma';
+
+export type BalanceInterval = 'day' | 'week' | 'month';
+
+export const BALANCE_INTERVALS: BalanceInterval[] = ['day', 'week', 'month'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Credit cards and loans report what is owed, so a purchase raises the balance instead of lowering it
+const LIABILITY_ACCOUNT_TYPES = ['credit', 'loan'];
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const bucketStart = (date: Date, interval: BalanceInterval) => {
+  const day = startOfDay(date);
+  if (interval === 'week') {
+    // Weeks start on Monday
+    return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+  }
+  if (interval === 'month') {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+  return day;
+};
+
+const nextBucket = (start: Date, interval: BalanceInterval) => {
+  if (interval === 'week') {
+    return new Date(start.getTime() + 7 * DAY_MS);
+  }
+  if (interval === 'month') {
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+  return new Date(start.getTime() + DAY_MS);
+};
+
+export class BalanceHistoryService {
+
+  /**
+   * Record today's balance for an account; later syncs on the same day overwrite it
+   */
+  static async recordSnapshot(account: {
+    id: string;
+    userId: string;
+    currentBalance: number;
+    availableBalance: number | null;
+  }) {
+    const date = startOfDay(new Date());
+    const balances = {
+      currentBalance: account.currentBalance,
+      availableBalance: account.availableBalance,
+      source: 'sync'
+    };
+
+    return prisma.balanceSnapshot.upsert({
+      where: { accountId_date: { accountId: account.id, date } },
+      update: balances,
+      create: { userId: account.userId, accountId: account.id, date, ...balances }
+    });
+  }
+
+  /**
+   * Record today's balance for several accounts at once, e.g. inside a sync's database transaction
+   */
+  static async recordSnapshots(
+    accounts: Array<{ id: string; userId: string; currentBalance: number; availableBalance: number | null }>,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    if (accounts.length === 0) {
+      return;
+    }
+
+    const date = startOfDay(new Date());
+    await client.balanceSnapshot.deleteMany({
+      where: { accountId: { in: accounts.map(a => a.id) }, date }
+    });
+    await client.balanceSnapshot.createMany({
+      data: accounts.map(account => ({
+        userId: account.userId,
+        accountId: account.id,
+        date,
+        currentBalance: account.currentBalance,
+        availableBalance: account.availableBalance,
+        source: 'sync'
+      }))
+    });
+  }
+
+  /**
+   * Reconstruct daily closing balances back to the account's first transaction by
+   * undoing each day's posted transactions from the current balance. Days that
+   * already have a snapshot are left alone.
+   */
+  static async backfillAccount(accountId: string) {
+    const account = await prisma.account.findUnique({
+      where: { id: accountId },
+      select: { id: true, userId: true, type: true, currentBalance: true }
+    });
+
+    if (!account) {
+      return 0;
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: { accountId, pending: false },
+      select: { amount: true, date: true }
+    });
+
+    if (transactions.length === 0) {
+      return 0;
+    }
+
+    const dailyChange = new Map<number, number>();
+    let earliest = Infinity;
+    transactions.forEach(t => {
+      const day = startOfDay(t.date).getTime();
+      dailyChange.set(day, (dailyChange.get(day) || 0) + t.amount);
+      earliest = Math.min(earliest, day);
+    });
+
+    const direction = LIABILITY_ACCOUNT_TYPES.includes(account.type) ? -1 : 1;
+    const snapshots = [];
+    let balance = account.currentBalance;
+
+    // Walk back to the day before the first transaction, which gives the opening balance
+    for (let day = startOfDay(new Date()).getTime(); day >= earliest - DAY_MS; day -= DAY_MS) {
+      snapshots.push({
+        userId: account.userId,
+        accountId: account.id,
+        date: new Date(day),
+        currentBalance: round(balance),
+        source: 'backfill'
+      });
+      balance += direction * (dailyChange.get(day) || 0);
+    }
+
+    const { count } = await prisma.balanceSnapshot.createMany({
+      data: snapshots,
+      skipDuplicates: true
+    });
+
+    console.log(`Backfilled ${count} balance snapshots for account ${accountId}`);
+    return count;
+  }
+
+  /**
+   * Backfill every account linked through an item
+   */
+  static async backfillItem(itemId: string) {
+    const accounts = await prisma.account.findMany({
+      where: { itemId },
+      select: { id: true }
+    });
+
+    let count = 0;
+    for (const account of accounts) {
+      count += await this.backfillAccount(account.id);
+    }
+    return count;
+  }
+
+  /**
+   * Closing balance per day, week or month; each point carries the last known balance forward
+   */
+  static async getBalanceHistory(userId: string, accountId: string, options: {
+    from: Date;
+    to: Date;
+    interval: BalanceInterval;
+  }) {
+    const account = await prisma.account.findFirst({
+      where: { id: accountId, userId },
+      select: { id: true, name: true, mask: true, type: true, currentBalance: true }
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const from = startOfDay(options.from);
+    const to = startOfDay(options.to);
+
+    const [previous, inRange] = await Promise.all([
+      prisma.balanceSnapshot.findFirst({
+        where: { accountId, date: { lt: from } },
+        orderBy: { date: 'desc' }
+      }),
+      prisma.balanceSnapshot.findMany({
+        where: { accountId, date: { gte: from, lte: to } },
+        orderBy: { date: 'asc' }
+      })
+    ]);
+
+    const snapshots = previous ? [previous, ...inRange] : inRange;
+    const points = [];
+    let index = 0;
+    let latest = null;
+
+    for (let start = bucketStart(from, options.interval); start <= to; start = nextBucket(start, options.interval)) {
+      const end = Math.min(nextBucket(start, options.interval).getTime() - DAY_MS, to.getTime());
+      while (index < snapshots.length && snapshots[index].date.getTime() <= end) {
+        latest = snapshots[index++];
+      }
+
+      // Nothing to show until the first snapshot
+      if (!latest) continue;
+
+      points.push({
+        date: toDateString(start < from ? from : start),
+        currentBalance: latest.currentBalance,
+        availableBalance: latest.availableBalance
+      });
+    }
+
+    return {
+      account,
+      interval: options.interval,
+      from: toDateString(from),
+      to: toDateString(to),
+      points
+    };
+  }
+}
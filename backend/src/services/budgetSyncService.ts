@@ -1,6 +1,6 @@
 // src/services/budgetSyncService.ts
 import { prisma } from '../lib/prisma';
-import { Budget, BudgetPeriod } from '../../prisma/generated/prisma';
+import { Budget, BudgetPeriod, Prisma } from '../../prisma/generated/prisma';
 
 export class BudgetSyncService {
   /**
@@ -26,14 +26,14 @@ export class BudgetSyncService {
   }
 
   /**
-   * Calculate current spending for a budget based on its date range
+   * Calculate spending for a budget based on its date range, as of now unless
+   * another date is given (reports look back at earlier months)
    */
-  static async calculateBudgetSpending(budget: Budget): Promise<{
+  static async calculateBudgetSpending(budget: Budget, now: Date = new Date()): Promise<{
     spent: number;
     remaining: number;
     percentUsed: number;
   }> {
-    const now = new Date();
     const effectiveEndDate = budget.endDate || now;
     
     // Only calculate if we're within the budget period
@@ -45,23 +45,34 @@ export class BudgetSyncService {
       };
     }
 
-    // Get spending for this category in the budget period
-    const categorySpending = await prisma.transaction.aggregate({
-      where: {
-        userId: budget.userId,
-        primaryCategory: budget.category,
-        amount: { gt: 0 }, // Only expenses
-        date: {
-          gte: budget.startDate,
-          lte: effectiveEndDate
-        }
-      },
-      _sum: {
-        amount: true
+    const spendingFilter: Prisma.TransactionWhereInput = {
+      userId: budget.userId,
+      amount: { gt: 0 }, // Only expenses
+      transferGroupId: null, // Moving money between accounts isn't spending
+      date: {
+        gte: budget.startDate,
+        lte: effectiveEndDate
       }
-    });
+    };
+
+    // Get spending for this category in the budget period. A split transaction
+    // counts through its splits instead of its own category.
+    const [categorySpending, splitSpending] = await Promise.all([
+      prisma.transaction.aggregate({
+        where: { ...spendingFilter, primaryCategory: budget.category, splits: { none: {} } },
+        _sum: {
+          amount: true
+        }
+      }),
+      prisma.transactionSplit.aggregate({
+        where: { category: budget.category, transaction: spendingFilter },
+        _sum: {
+          amount: true
+        }
+      })
+    ]);
 
-    const spent = categorySpending._sum.amount || 0;
+    const spent = (categorySpending._sum.amount || 0) + (splitSpending._sum.amount || 0);
     const remaining = budget.amount - spent;
     const percentUsed = budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
 
@@ -0,0 +1,301 @@
+import { getBankDataProvider } from '../lib/bankDataProvider';
+import { prisma } from '../lib/prisma';
+import { ProviderSecurity } from '../providers/bankDataProvider';
+
+// Investments is an optional (separately billed) Plaid product
+export const INVESTMENTS_ENABLED = process.env.ENABLE_INVESTMENTS === 'true';
+
+// First sync pulls two years of investment activity, later syncs re-read a window
+// so late-posting trades and corrections are picked up
+const INITIAL_INVESTMENT_HISTORY_DAYS = 730;
+const INVESTMENT_RESYNC_DAYS = 30;
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class InvestmentService {
+
+  /**
+   * Sync holdings, securities and investment transactions for an item's investment accounts
+   */
+  static async syncItemInvestments(userId: string, itemId: string, accessToken: string) {
+    const investmentAccounts = await prisma.account.findMany({
+      where: { itemId, type: 'investment' },
+      select: { id: true, plaidAccountId: true }
+    });
+
+    if (investmentAccounts.length === 0) {
+      return { holdings: 0, investmentTransactions: 0 };
+    }
+
+    const accountMap = new Map(investmentAccounts.map(acc => [acc.plaidAccountId, acc.id]));
+    const provider = getBankDataProvider();
+
+    // Holdings are a snapshot, so anything not reported any more has been sold off
+    const { holdings, securities } = await provider.getInvestmentHoldings(accessToken);
+    const securityMap = await this.upsertSecurities(securities);
+
+    const heldIds: string[] = [];
+    for (const holding of holdings) {
+      const accountId = accountMap.get(holding.accountId);
+      const securityId = securityMap.get(holding.securityId);
+      if (!accountId || !securityId) {
+        console.warn(`Skipping holding of ${holding.securityId} in unknown account ${holding.accountId}`);
+        continue;
+      }
+
+      const holdingData = {
+        quantity: holding.quantity,
+        institutionPrice: holding.institutionPrice,
+        institutionPriceAsOf: holding.institutionPriceAsOf ? new Date(holding.institutionPriceAsOf) : null,
+        institutionValue: holding.institutionValue,
+        costBasis: holding.costBasis,
+        isoCurrencyCode: holding.isoCurrencyCode
+      };
+
+      const saved = await prisma.holding.upsert({
+        where: { accountId_securityId: { accountId, securityId } },
+        update: holdingData,
+        create: { userId, accountId, securityId, ...holdingData }
+      });
+      heldIds.push(saved.id);
+    }
+
+    await prisma.holding.deleteMany({
+      where: {
+        accountId: { in: investmentAccounts.map(acc => acc.id) },
+        id: { notIn: heldIds }
+      }
+    });
+
+    // Investment transactions
+    const latest = await prisma.investmentTransaction.findFirst({
+      where: { accountId: { in: investmentAccounts.map(acc => acc.id) } },
+      orderBy: { date: 'desc' },
+      select: { date: true }
+    });
+
+    const startDate = latest
+      ? new Date(Math.min(latest.date.getTime(), daysAgo(INVESTMENT_RESYNC_DAYS).getTime()))
+      : daysAgo(INITIAL_INVESTMENT_HISTORY_DAYS);
+
+    const activity = await provider.getInvestmentTransactions(
+      accessToken,
+      toDateString(startDate),
+      toDateString(new Date())
+    );
+    const activitySecurityMap = await this.upsertSecurities(activity.securities);
+
+    let investmentTransactions = 0;
+    for (const transaction of activity.transactions) {
+      const accountId = accountMap.get(transaction.accountId);
+      if (!accountId) continue;
+
+      const transactionData = {
+        securityId: transaction.securityId ? activitySecurityMap.get(transaction.securityId) || null : null,
+        name: transaction.name,
+        type: transaction.type,
+        subtype: transaction.subtype,
+        amount: transaction.amount,
+        quantity: transaction.quantity,
+        price: transaction.price,
+        fees: transaction.fees,
+        date: new Date(transaction.date),
+        isoCurrencyCode: transaction.isoCurrencyCode
+      };
+
+      await prisma.investmentTransaction.upsert({
+        where: { plaidInvestmentTransactionId: transaction.investmentTransactionId },
+        update: transactionData,
+        create: {
+          plaidInvestmentTransactionId: transaction.investmentTransactionId,
+          userId,
+          accountId,
+          ...transactionData
+        }
+      });
+      investmentTransactions++;
+    }
+
+    console.log(`Investment sync for item ${itemId}: ${heldIds.length} holdings, ${investmentTransactions} transactions`);
+    return { holdings: heldIds.length, investmentTransactions };
+  }
+
+  /**
+   * Upsert securities and map provider security ids to our ids
+   */
+  private static async upsertSecurities(securities: ProviderSecurity[]) {
+    const securityMap = new Map<string, string>();
+
+    for (const security of securities) {
+      const securityData = {
+        name: security.name,
+        tickerSymbol: security.tickerSymbol,
+        type: security.type,
+        isCashEquivalent: security.isCashEquivalent,
+        closePrice: security.closePrice,
+        closePriceAsOf: security.closePriceAsOf ? new Date(security.closePriceAsOf) : null,
+        isoCurrencyCode: security.isoCurrencyCode
+      };
+
+      const saved = await prisma.security.upsert({
+        where: { plaidSecurityId: security.securityId },
+        update: securityData,
+        create: { plaidSecurityId: security.securityId, ...securityData }
+      });
+      securityMap.set(security.securityId, saved.id);
+    }
+
+    return securityMap;
+  }
+
+  /**
+   * Current positions with unrealized gain/loss
+   */
+  static async getPositions(userId: string, accountId?: string) {
+    const holdings = await prisma.holding.findMany({
+      where: { userId, ...(accountId && { accountId }) },
+      include: {
+        security: true,
+        account: { select: { id: true, name: true, mask: true } }
+      },
+      orderBy: { institutionValue: 'desc' }
+    });
+
+    const positions = holdings.map(holding => {
+      const unrealizedGain = holding.costBasis !== null
+        ? round(holding.institutionValue - holding.costBasis)
+        : null;
+
+      return {
+        id: holding.id,
+        account: holding.account,
+        security: {
+          id: holding.security.id,
+          name: holding.security.name,
+          tickerSymbol: holding.security.tickerSymbol,
+          type: holding.security.type
+        },
+        quantity: holding.quantity,
+        price: holding.institutionPrice,
+        priceAsOf: holding.institutionPriceAsOf,
+        value: round(holding.institutionValue),
+        costBasis: holding.costBasis,
+        unrealizedGain,
+        unrealizedGainPercent: unrealizedGain !== null && holding.costBasis
+          ? round((unrealizedGain / holding.costBasis) * 100)
+          : null,
+        isoCurrencyCode: holding.isoCurrencyCode
+      };
+    });
+
+    return {
+      positions,
+      totalValue: round(positions.reduce((sum, p) => sum + p.value, 0))
+    };
+  }
+
+  /**
+   * Portfolio value grouped by asset type
+   */
+  static async getAllocation(userId: string) {
+    const holdings = await prisma.holding.findMany({
+      where: { userId },
+      select: {
+        institutionValue: true,
+        security: { select: { type: true, isCashEquivalent: true } }
+      }
+    });
+
+    const totalValue = holdings.reduce((sum, h) => sum + h.institutionValue, 0);
+    const byType = new Map<string, number>();
+    holdings.forEach(holding => {
+      const type = holding.security.isCashEquivalent ? 'cash' : holding.security.type || 'other';
+      byType.set(type, (byType.get(type) || 0) + holding.institutionValue);
+    });
+
+    return {
+      totalValue: round(totalValue),
+      allocation: Array.from(byType.entries())
+        .map(([type, value]) => ({
+          type,
+          value: round(value),
+          percentage: totalValue > 0 ? round((value / totalValue) * 100) : 0
+        }))
+        .sort((a, b) => b.value - a.value)
+    };
+  }
+
+  /**
+   * Value, cost basis and unrealized gain/loss per investment account
+   */
+  static async getAccountPerformance(userId: string) {
+    const accounts = await prisma.account.findMany({
+      where: { userId, type: 'investment' },
+      select: {
+        id: true,
+        name: true,
+        mask: true,
+        currentBalance: true,
+        holdings: { select: { institutionValue: true, costBasis: true } }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return accounts.map(account => {
+      const holdingsValue = account.holdings.reduce((sum, h) => sum + h.institutionValue, 0);
+      // Only positions with a known cost basis count towards gain/loss
+      const withCostBasis = account.holdings.filter(h => h.costBasis !== null);
+      const costBasis = withCostBasis.reduce((sum, h) => sum + h.costBasis!, 0);
+      const costedValue = withCostBasis.reduce((sum, h) => sum + h.institutionValue, 0);
+      const unrealizedGain = costedValue - costBasis;
+
+      return {
+        id: account.id,
+        name: account.name,
+        mask: account.mask,
+        balance: account.currentBalance,
+        holdingsValue: round(holdingsValue),
+        holdingsCount: account.holdings.length,
+        costBasis: round(costBasis),
+        unrealizedGain: round(unrealizedGain),
+        unrealizedGainPercent: costBasis > 0 ? round((unrealizedGain / costBasis) * 100) : null
+      };
+    });
+  }
+
+  /**
+   * Investment activity, newest first
+   */
+  static async getTransactions(userId: string, options: { accountId?: string; page: number; limit: number }) {
+    const where = { userId, ...(options.accountId && { accountId: options.accountId }) };
+
+    const [transactions, total] = await Promise.all([
+      prisma.investmentTransaction.findMany({
+        where,
+        include: {
+          security: { select: { name: true, tickerSymbol: true } },
+          account: { select: { name: true, mask: true } }
+        },
+        orderBy: { date: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit
+      }),
+      prisma.investmentTransaction.count({ where })
+    ]);
+
+    return {
+      transactions,
+      pagination: {
+        currentPage: options.page,
+        totalPages: Math.ceil(total / options.limit),
+        totalCount: total,
+        hasNext: options.page * options.limit < total,
+        hasPrev: options.page > 1
+      }
+    };
+  }
+}
@@ -0,0 +1,202 @@
+import { getBankDataProvider } from '../lib/bankDataProvider';
+import { prisma } from '../lib/prisma';
+import { Liability } from '../../prisma/generated/prisma';
+
+// Liabilities is an optional (separately billed) Plaid product
+export const LIABILITIES_ENABLED = process.env.ENABLE_LIABILITIES === 'true';
+
+// Account types Plaid reports liabilities for
+const LIABILITY_ACCOUNT_TYPES = ['credit', 'loan'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toDate = (value: string | null) => value ? new Date(value) : null;
+
+export class LiabilityService {
+
+  /**
+   * Sync APRs, statements, payments and loan terms for an item's credit and loan accounts
+   */
+  static async syncItemLiabilities(userId: string, itemId: string, accessToken: string) {
+    const liabilityAccounts = await prisma.account.findMany({
+      where: { itemId, type: { in: LIABILITY_ACCOUNT_TYPES } },
+      select: { id: true, plaidAccountId: true }
+    });
+
+    if (liabilityAccounts.length === 0) {
+      return { liabilities: 0 };
+    }
+
+    const accountMap = new Map(liabilityAccounts.map(acc => [acc.plaidAccountId, acc.id]));
+    const liabilities = await getBankDataProvider().getLiabilities(accessToken);
+
+    const syncedIds: string[] = [];
+    for (const liability of liabilities) {
+      const accountId = accountMap.get(liability.accountId);
+      if (!accountId) {
+        console.warn(`Skipping liability for unknown account ${liability.accountId}`);
+        continue;
+      }
+
+      const purchaseApr = liability.aprs.find(apr => apr.type === 'purchase_apr');
+      const liabilityData = {
+        type: liability.type,
+        aprs: liability.aprs,
+        purchaseApr: purchaseApr ? purchaseApr.percentage : null,
+        interestRatePercentage: liability.interestRatePercentage,
+        interestRateType: liability.interestRateType,
+        lastStatementBalance: liability.lastStatementBalance,
+        lastStatementIssueDate: toDate(liability.lastStatementIssueDate),
+        lastPaymentAmount: liability.lastPaymentAmount,
+        lastPaymentDate: toDate(liability.lastPaymentDate),
+        minimumPaymentAmount: liability.minimumPaymentAmount,
+        nextPaymentDueDate: toDate(liability.nextPaymentDueDate),
+        isOverdue: liability.isOverdue,
+        originationPrincipalAmount: liability.originationPrincipalAmount,
+        originationDate: toDate(liability.originationDate),
+        payoffDate: toDate(liability.payoffDate)
+      };
+
+      const saved = await prisma.liability.upsert({
+        where: { accountId },
+        update: liabilityData,
+        create: { userId, accountId, ...liabilityData }
+      });
+      syncedIds.push(saved.id);
+    }
+
+    // Paid off or closed accounts stop being reported
+    await prisma.liability.deleteMany({
+      where: {
+        accountId: { in: liabilityAccounts.map(acc => acc.id) },
+        id: { notIn: syncedIds }
+      }
+    });
+
+    console.log(`Liability sync for item ${itemId}: ${syncedIds.length} liabilities`);
+    return { liabilities: syncedIds.length };
+  }
+
+  /**
+   * Liability details for one of the user's accounts, or null if the account doesn't exist
+   */
+  static async getAccountLiability(userId: string, accountId: string) {
+    const account = await prisma.account.findFirst({
+      where: { id: accountId, userId },
+      select: {
+        id: true,
+        name: true,
+        mask: true,
+        type: true,
+        subtype: true,
+        currentBalance: true,
+        creditLimit: true,
+        liability: true
+      }
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const { liability, ...accountInfo } = account;
+    return {
+      account: accountInfo,
+      liability: liability ? this.formatLiability(liability) : null
+    };
+  }
+
+  /**
+   * Totals across all of the user's liabilities for payment planning
+   */
+  static async getSummary(userId: string) {
+    const liabilities = await prisma.liability.findMany({
+      where: { userId, account: { isActive: true } },
+      include: {
+        account: {
+          select: { id: true, name: true, mask: true, currentBalance: true, creditLimit: true }
+        }
+      },
+      orderBy: { nextPaymentDueDate: 'asc' }
+    });
+
+    const byType = new Map<string, { count: number; balance: number; minimumPayment: number }>();
+    let weightedRateSum = 0;
+    let ratedBalance = 0;
+
+    liabilities.forEach(liability => {
+      const balance = liability.account.currentBalance;
+      const totals = byType.get(liability.type) || { count: 0, balance: 0, minimumPayment: 0 };
+      totals.count++;
+      totals.balance += balance;
+      totals.minimumPayment += liability.minimumPaymentAmount || 0;
+      byType.set(liability.type, totals);
+
+      const rate = this.effectiveRate(liability);
+      if (rate !== null && balance > 0) {
+        weightedRateSum += rate * balance;
+        ratedBalance += balance;
+      }
+    });
+
+    const creditCards = liabilities.filter(l => l.type === 'credit' && l.account.creditLimit);
+    const creditBalance = creditCards.reduce((sum, l) => sum + l.account.currentBalance, 0);
+    const creditLimit = creditCards.reduce((sum, l) => sum + l.account.creditLimit!, 0);
+
+    const now = new Date();
+    const upcomingPayments = liabilities
+      .filter(l => l.nextPaymentDueDate && (l.nextPaymentDueDate >= now || l.isOverdue))
+      .map(l => ({
+        accountId: l.account.id,
+        accountName: l.account.name,
+        mask: l.account.mask,
+        type: l.type,
+        dueDate: l.nextPaymentDueDate,
+        minimumPayment: l.minimumPaymentAmount,
+        isOverdue: l.isOverdue === true
+      }));
+
+    return {
+      totalBalance: round(liabilities.reduce((sum, l) => sum + l.account.currentBalance, 0)),
+      totalMinimumPayment: round(liabilities.reduce((sum, l) => sum + (l.minimumPaymentAmount || 0), 0)),
+      weightedAverageRate: ratedBalance > 0 ? round(weightedRateSum / ratedBalance) : null,
+      creditUtilization: creditLimit > 0 ? round((creditBalance / creditLimit) * 100) : null,
+      overdueCount: liabilities.filter(l => l.isOverdue).length,
+      byType: Array.from(byType.entries()).map(([type, totals]) => ({
+        type,
+        count: totals.count,
+        balance: round(totals.balance),
+        minimumPayment: round(totals.minimumPayment)
+      })),
+      upcomingPayments
+    };
+  }
+
+  /**
+   * Purchase APR for cards, interest rate for loans
+   */
+  private static effectiveRate(liability: Liability) {
+    return liability.type === 'credit' ? liability.purchaseApr : liability.interestRatePercentage;
+  }
+
+  private static formatLiability(liability: Liability) {
+    return {
+      type: liability.type,
+      aprs: liability.aprs,
+      purchaseApr: liability.purchaseApr,
+      interestRatePercentage: liability.interestRatePercentage,
+      interestRateType: liability.interestRateType,
+      lastStatementBalance: liability.lastStatementBalance,
+      lastStatementIssueDate: liability.lastStatementIssueDate,
+      lastPaymentAmount: liability.lastPaymentAmount,
+      lastPaymentDate: liability.lastPaymentDate,
+      minimumPaymentAmount: liability.minimumPaymentAmount,
+      nextPaymentDueDate: liability.nextPaymentDueDate,
+      isOverdue: liability.isOverdue,
+      originationPrincipalAmount: liability.originationPrincipalAmount,
+      originationDate: liability.originationDate,
+      payoffDate: liability.payoffDate,
+      updatedAt: liability.updatedAt
+    };
+  }
+}
@@ -0,0 +1,196 @@
+import { prisma } from '../lib/prisma';
+import { Account, Prisma, Transaction } from '../../prisma/generated/prisma';
+import { AttachmentService } from './attachmentService';
+import { BalanceHistoryService } from './balanceHistoryService';
+import { BudgetSyncService } from './budgetSyncService';
+import { MerchantResolver, MerchantService } from './merchantService';
+import { TransactionSplitService } from './transactionSplitService';
+import { TransactionSyncService } from './transactionSyncService';
+import { spanOfDates, TransferService } from './transferService';
+
+// Same account types Plaid reports, so manual accounts group with synced ones
+export const MANUAL_ACCOUNT_TYPES = ['depository', 'credit', 'loan', 'investment', 'other'];
+
+// Credit cards and loans report what is owed, so a purchase raises the balance instead of lowering it
+const LIABILITY_ACCOUNT_TYPES = ['credit', 'loan'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export interface ManualAccountInput {
+  name: string;
+  type: string;
+  subtype?: string | null;
+  mask?: string | null;
+  currentBalance?: number;
+  creditLimit?: number | null;
+}
+
+export interface ManualTransactionInput {
+  accountId: string;
+  name: string;
+  merchantName?: string | null;
+  amount: number;
+  date: Date;
+  category?: string | null;
+  notes?: string | null;
+}
+
+export class ManualEntryService {
+
+  /**
+   * Create an account that isn't linked through a bank connection (cash, a car loan, ...)
+   */
+  static async createAccount(userId: string, input: ManualAccountInput) {
+    const account = await prisma.account.create({
+      data: {
+        userId,
+        source: 'manual',
+        name: input.name,
+        type: input.type,
+        subtype: input.subtype || 'manual',
+        mask: input.mask || null,
+        currentBalance: input.currentBalance || 0,
+        creditLimit: input.creditLimit ?? null
+      }
+    });
+
+    await BalanceHistoryService.recordSnapshot(account);
+    return account;
+  }
+
+  /**
+   * Enter a transaction by hand. It is categorized like a synced one unless a category
+   * is given, and moves the balance of manual accounts.
+   */
+  static async createTransaction(userId: string, account: Account, input: ManualTransactionInput) {
+    const resolveMerchant = await MerchantService.resolver(userId);
+    const merchant = resolveMerchant.resolve(input.name, input.merchantName);
+    const primaryCategory = input.category
+      || merchant?.defaultCategory
+      || await TransactionSyncService.categorize(userId, input.name, input.merchantName || null, [], input.amount);
+
+    const data: Prisma.TransactionUncheckedCreateInput = {
+      userId,
+      accountId: account.id,
+      source: 'manual',
+      name: input.name,
+      merchantName: input.merchantName || null,
+      merchantId: merchant ? merchant.id : null,
+      amount: input.amount,
+      date: input.date,
+      primaryCategory,
+      categoryOverridden: !!input.category,
+      categories: [],
+      notes: input.notes || null
+    };
+    const transaction = await prisma.$transaction(async tx => {
+      await resolveMerchant.save(tx, [data]);
+      return tx.transaction.create({ data });
+    });
+
+    await this.adjustBalance(account, input.amount);
+    await TransferService.detectTransfers(userId, spanOfDates([input.date]));
+    await BudgetSyncService.syncUserBudgets(userId);
+    return transaction;
+  }
+
+  /**
+   * Change a manually entered transaction. Editing the name or merchant resolves the
+   * merchant again and re-runs categorization unless the user picked the category.
+   */
+  static async updateTransaction(transaction: Transaction, input: Partial<Omit<ManualTransactionInput, 'accountId'>>) {
+    const name = input.name ?? transaction.name;
+    const merchantName = input.merchantName !== undefined ? input.merchantName : transaction.merchantName;
+    const amount = input.amount ?? transaction.amount;
+    const date = input.date ?? transaction.date;
+
+    const renamed = input.name !== undefined || input.merchantName !== undefined;
+    const assignment = { merchantId: transaction.merchantId };
+    let resolveMerchant: MerchantResolver | null = null;
+    let defaultCategory: string | null = null;
+    if (renamed) {
+      resolveMerchant = await MerchantService.resolver(transaction.userId);
+      const merchant = resolveMerchant.resolve(name, merchantName);
+      assignment.merchantId = merchant ? merchant.id : null;
+      defaultCategory = merchant ? merchant.defaultCategory : null;
+    }
+
+    let primaryCategory = transaction.primaryCategory;
+    let categoryOverridden = transaction.categoryOverridden;
+    if (input.category) {
+      primaryCategory = input.category;
+      categoryOverridden = true;
+    } else if (!categoryOverridden && renamed) {
+      primaryCategory = defaultCategory || await TransactionSyncService.categorize(transaction.userId, name, merchantName, [], amount);
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      await resolveMerchant?.save(tx, [assignment]);
+      return tx.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          name,
+          merchantName,
+          merchantId: assignment.merchantId,
+          amount,
+          date,
+          primaryCategory,
+          categoryOverridden,
+          ...(input.notes !== undefined && { notes: input.notes || null }),
+          // A new amount or date may no longer match the other side of a transfer
+          ...(transaction.transferGroupId && (amount !== transaction.amount || date.getTime() !== transaction.date.getTime()) && {
+            transferGroupId: null,
+            transferOverridden: false
+          })
+        }
+      });
+    });
+
+    if (amount !== transaction.amount) {
+      const account = await prisma.account.findUniqueOrThrow({ where: { id: transaction.accountId } });
+      await this.adjustBalance(account, amount - transaction.amount);
+      await TransactionSplitService.clearStaleSplits([transaction.id]);
+    }
+
+    await TransferService.detectTransfers(transaction.userId, spanOfDates([transaction.date, date]));
+    await BudgetSyncService.syncUserBudgets(transaction.userId);
+    return updated;
+  }
+
+  /**
+   * Delete a manually entered transaction, with its attachments, and undo its
+   * effect on the balance
+   */
+  static async deleteTransaction(transaction: Transaction) {
+    const attachments = await prisma.attachment.findMany({
+      where: { transactionId: transaction.id },
+      select: { storageKey: true }
+    });
+    await prisma.transaction.delete({ where: { id: transaction.id } });
+    await AttachmentService.deleteFiles(attachments);
+
+    const account = await prisma.account.findUniqueOrThrow({ where: { id: transaction.accountId } });
+    await this.adjustBalance(account, -transaction.amount);
+
+    await TransferService.detectTransfers(transaction.userId, spanOfDates([transaction.date]));
+    await BudgetSyncService.syncUserBudgets(transaction.userId);
+  }
+
+  /**
+   * Apply a transaction amount to a manual account's balance. Synced accounts are
+   * left alone since their balance comes from the bank.
+   */
+  private static async adjustBalance(account: Account, amount: number) {
+    if (account.source !== 'manual' || amount === 0) {
+      return;
+    }
+
+    const direction = LIABILITY_ACCOUNT_TYPES.includes(account.type) ? 1 : -1;
+    const updated = await prisma.account.update({
+      where: { id: account.id },
+      data: { currentBalance: round(account.currentBalance + direction * amount) }
+    });
+
+    await BalanceHistoryService.recordSnapshot(updated);
+  }
+}
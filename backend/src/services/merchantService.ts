@@ -0,0 +1,268 @@
+import { randomUUID } from 'crypto';
+import { cleanMerchantName, matchesMerchantPattern, merchantKey } from '../lib/merchantNames';
+import { prisma } from '../lib/prisma';
+import { Merchant, MerchantAlias, Prisma } from '../../prisma/generated/prisma';
+
+export type ResolvedMerchant = Pick<Merchant, 'id' | 'defaultCategory'>;
+
+export interface MerchantResolver {
+  resolve: (name: string, merchantName?: string | null) => ResolvedMerchant | null;
+  // Create the merchants resolve() came up with, in the transaction that writes the rows using them
+  save: (tx: Prisma.TransactionClient, rows: Array<{ merchantId?: string | null }>) => Promise<void>;
+}
+
+// Transactions per merchant reassignment update
+const WRITE_BATCH_SIZE = 500;
+// Reassigning every transaction after an alias change happens in one database transaction
+const ASSIGN_TIMEOUT_MS = 120 * 1000;
+
+export class MerchantService {
+
+  /**
+   * Resolve transaction names to the user's merchants. The provider's merchant name
+   * is used when there is one, otherwise the cleaned transaction name. Merchant names
+   * match exactly, so an automatic "Uber" doesn't take "Uber Eats"; the alias rules
+   * users make also cover longer names. A name that matches no merchant or alias gets
+   * a new merchant, which is only stored by save(), so a write that fails leaves no
+   * merchants behind. Merchants and aliases are loaded once, so a sync can resolve
+   * thousands of transactions with a single query.
+   */
+  static async resolver(userId: string): Promise<MerchantResolver> {
+    const merchants = await prisma.merchant.findMany({
+      where: { userId },
+      select: { id: true, name: true, defaultCategory: true, aliases: { select: { pattern: true } } }
+    });
+
+    const names = new Map<string, ResolvedMerchant>();
+    merchants.forEach(({ aliases, name, ...merchant }) => names.set(merchantKey(name), merchant));
+
+    // Longest first, so "uber eats" wins over "uber"
+    const aliases = merchants
+      .flatMap(({ aliases, name, ...merchant }) => aliases.map(alias => ({ pattern: alias.pattern, merchant })))
+      .sort((a, b) => b.pattern.length - a.pattern.length);
+
+    const resolved = new Map<string, ResolvedMerchant | null>();
+    const unsaved: Array<{ name: string; merchant: ResolvedMerchant }> = [];
+
+    const resolve = (name: string, merchantName?: string | null) => {
+      const cleaned = (merchantName && cleanMerchantName(merchantName)) || cleanMerchantName(name);
+      const key = merchantKey(cleaned);
+      if (!key) return null;
+      if (resolved.has(key)) return resolved.get(key)!;
+
+      let merchant = names.get(key) || aliases.find(entry => matchesMerchantPattern(key, entry.pattern))?.merchant;
+      if (!merchant) {
+        merchant = { id: randomUUID(), defaultCategory: null };
+        names.set(key, merchant);
+        unsaved.push({ name: cleaned, merchant });
+      }
+
+      resolved.set(key, merchant);
+      return merchant;
+    };
+
+    const save = async (tx: Prisma.TransactionClient, rows: Array<{ merchantId?: string | null }>) => {
+      const created = unsaved.splice(0);
+      if (created.length === 0) return;
+
+      await tx.merchant.createMany({
+        data: created.map(({ name, merchant }) => ({ id: merchant.id, userId, name })),
+        skipDuplicates: true
+      });
+
+      // A write running alongside this one may have created some of the same merchants first
+      const stored = await tx.merchant.findMany({
+        where: { userId, name: { in: created.map(({ name }) => name) } },
+        select: { id: true, name: true }
+      });
+      const storedIds = new Map(stored.map(merchant => [merchant.name, merchant.id]));
+      const moved = new Map<string, string>();
+      for (const { name, merchant } of created) {
+        const storedId = storedIds.get(name)!;
+        if (storedId !== merchant.id) {
+          moved.set(merchant.id, storedId);
+          merchant.id = storedId;
+        }
+      }
+
+      rows.forEach(row => {
+        if (row.merchantId && moved.has(row.merchantId)) {
+          row.merchantId = moved.get(row.merchantId);
+        }
+      });
+    };
+
+    return { resolve, save };
+  }
+
+  /**
+   * Point transactions at their merchants: ones without a merchant yet (stored before
+   * merchants existed), or with reassign every transaction, after the user's alias
+   * rules changed
+   */
+  static async assignMerchants(userId: string, options: { reassign?: boolean } = {}) {
+    const transactions = await prisma.transaction.findMany({
+      where: { userId, ...(!options.reassign && { merchantId: null }) },
+      select: { id: true, name: true, merchantName: true, merchantId: true }
+    });
+    if (transactions.length === 0) return 0;
+
+    const resolver = await this.resolver(userId);
+    const assignments = transactions.map(transaction => ({
+      id: transaction.id,
+      previousId: transaction.merchantId,
+      merchantId: resolver.resolve(transaction.name, transaction.merchantName)?.id ?? null
+    }));
+
+    return prisma.$transaction(async tx => {
+      await resolver.save(tx, assignments);
+
+      const moves = new Map<string | null, string[]>();
+      for (const { id, previousId, merchantId } of assignments) {
+        if (merchantId === previousId) continue;
+
+        if (!moves.has(merchantId)) moves.set(merchantId, []);
+        moves.get(merchantId)!.push(id);
+      }
+
+      let moved = 0;
+      for (const [merchantId, ids] of moves) {
+        for (let i = 0; i < ids.length; i += WRITE_BATCH_SIZE) {
+          const { count } = await tx.transaction.updateMany({
+            where: { id: { in: ids.slice(i, i + WRITE_BATCH_SIZE) } },
+            data: { merchantId }
+          });
+          moved += count;
+        }
+      }
+      return moved;
+    }, { timeout: ASSIGN_TIMEOUT_MS });
+  }
+
+  /**
+   * The user's merchants with their aliases and how many transactions each has
+   */
+  static async getMerchants(userId: string) {
+    const merchants = await prisma.merchant.findMany({
+      where: { userId },
+      include: {
+        aliases: { orderBy: { pattern: 'asc' } },
+        _count: { select: { transactions: true } }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    return merchants.map(({ _count, ...merchant }) => ({ ...merchant, transactionCount: _count.transactions }));
+  }
+
+  /**
+   * Change a merchant's name or details. The old name becomes an alias, so
+   * transactions spelled that way keep resolving to the merchant.
+   */
+  static async updateMerchant(
+    merchant: Merchant,
+    changes: Pick<Merchant, 'name' | 'defaultCategory' | 'website' | 'logoUrl'>
+  ) {
+    const oldKey = merchantKey(merchant.name);
+
+    return prisma.$transaction(async tx => {
+      if (merchantKey(changes.name) !== oldKey) {
+        await tx.merchantAlias.upsert({
+          where: { userId_pattern: { userId: merchant.userId, pattern: oldKey } },
+          create: { userId: merchant.userId, merchantId: merchant.id, pattern: oldKey },
+          update: { merchantId: merchant.id }
+        });
+      }
+
+      return tx.merchant.update({
+        where: { id: merchant.id },
+        data: changes
+      });
+    });
+  }
+
+  /**
+   * Fold other merchants into one: their transactions and aliases move to the
+   * target, their names become aliases of it, and they are deleted
+   */
+  static async mergeMerchants(target: Merchant, sources: Merchant[]) {
+    const sourceIds = sources.map(merchant => merchant.id);
+
+    await prisma.$transaction(async tx => {
+      await tx.transaction.updateMany({
+        where: { merchantId: { in: sourceIds } },
+        data: { merchantId: target.id }
+      });
+      await tx.merchantAlias.updateMany({
+        where: { merchantId: { in: sourceIds } },
+        data: { merchantId: target.id }
+      });
+      await tx.merchantAlias.createMany({
+        data: sources.map(merchant => ({
+          userId: target.userId,
+          merchantId: target.id,
+          pattern: merchantKey(merchant.name)
+        })),
+        skipDuplicates: true
+      });
+      await tx.merchant.deleteMany({ where: { id: { in: sourceIds } } });
+    });
+
+    return prisma.merchant.findUniqueOrThrow({
+      where: { id: target.id },
+      include: {
+        aliases: { orderBy: { pattern: 'asc' } },
+        _count: { select: { transactions: true } }
+      }
+    });
+  }
+
+  /**
+   * Add an alias rule to a merchant and move the transactions it now covers. Other
+   * merchants and aliases the pattern covers ("amzn" covers "Amzn Mktp Us") are
+   * folded in, since the longer name would otherwise keep winning. Null if the
+   * pattern has nothing left once cleaned.
+   */
+  static async addAlias(merchant: Merchant, pattern: string) {
+    const key = merchantKey(cleanMerchantName(pattern));
+    if (!key) return null;
+
+    const others = await prisma.merchant.findMany({
+      where: { userId: merchant.userId, id: { not: merchant.id } }
+    });
+    const covered = others.filter(other => matchesMerchantPattern(merchantKey(other.name), key));
+    if (covered.length > 0) {
+      await this.mergeMerchants(merchant, covered);
+    }
+
+    const aliases = await prisma.merchantAlias.findMany({
+      where: { userId: merchant.userId, merchantId: { not: merchant.id } },
+      select: { id: true, pattern: true }
+    });
+    const coveredAliases = aliases.filter(alias => matchesMerchantPattern(alias.pattern, key));
+    if (coveredAliases.length > 0) {
+      await prisma.merchantAlias.updateMany({
+        where: { id: { in: coveredAliases.map(alias => alias.id) } },
+        data: { merchantId: merchant.id }
+      });
+    }
+
+    const alias = await prisma.merchantAlias.upsert({
+      where: { userId_pattern: { userId: merchant.userId, pattern: key } },
+      create: { userId: merchant.userId, merchantId: merchant.id, pattern: key },
+      update: { merchantId: merchant.id }
+    });
+
+    await this.assignMerchants(merchant.userId, { reassign: true });
+    return alias;
+  }
+
+  /**
+   * Remove an alias rule; the transactions it covered are resolved again from
+   * their names
+   */
+  static async removeAlias(alias: MerchantAlias) {
+    await prisma.merchantAlias.delete({ where: { id: alias.id } });
+    await this.assignMerchants(alias.userId, { reassign: true });
+  }
+}
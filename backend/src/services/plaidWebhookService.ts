@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getBankDataProvider } from '../lib/bankDataProvider';
+import { prisma } from '../lib/prisma';
+import { WebhookVerificationKey } from '../providers/bankDataProvider';
+import { SyncJobService } from './syncJobService';
+import { TransactionSyncService } from './transactionSyncService';
+
+// Plaid signs webhooks with ES256 and recommends rejecting anything older than 5 minutes
+const WEBHOOK_MAX_AGE = '5m';
+
+// Transactions webhook codes that mean there is new data to pull
+const SYNC_WEBHOOK_CODES = [
+  'SYNC_UPDATES_AVAILABLE',
+  'INITIAL_UPDATE',
+  'HISTORICAL_UPDATE',
+  'DEFAULT_UPDATE',
+  'TRANSACTIONS_REMOVED'
+];
+
+export interface PlaidWebhook {
+  webhook_type: string;
+  webhook_code: string;
+  item_id?: string;
+  error?: {
+    error_code?: string;
+    error_message?: string;
+  } | null;
+  consent_expiration_time?: string | null;
+  [key: string]: any;
+}
+
+export class PlaidWebhookService {
+  private static verificationKeys: Map<string, WebhookVerificationKey> = new Map();
+
+  /**
+   * Verify the Plaid-Verification JWT against Plaid's webhook key and the raw request body
+   */
+  static async verifyWebhook(token: string | undefined, rawBody: Buffer | undefined): Promise<boolean> {
+    if (!token || !rawBody) {
+      console.warn('Webhook rejected: missing Plaid-Verification header or body');
+      return false;
+    }
+
+    try {
+      const decoded = jwt.decode(token, { complete: true });
+      if (!decoded || decoded.header.alg !== 'ES256' || !decoded.header.kid) {
+        console.warn('Webhook rejected: unexpected JWT header');
+        return false;
+      }
+
+      const key = await this.getVerificationKey(decoded.header.kid);
+      if (key.expired_at) {
+        console.warn(`Webhook rejected: verification key ${key.kid} has expired`);
+        return false;
+      }
+
+      const publicKey = crypto.createPublicKey({
+        key: { kty: key.kty, crv: key.crv, x: key.x, y: key.y },
+        format: 'jwk'
+      });
+
+      const payload = jwt.verify(token, publicKey, {
+        algorithms: ['ES256'],
+        maxAge: WEBHOOK_MAX_AGE
+      }) as { request_body_sha256?: string };
+
+      if (!payload.request_body_sha256) {
+        console.warn('Webhook rejected: JWT has no body hash');
+        return false;
+      }
+
+      const bodyHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+      const claimedHash = payload.request_body_sha256;
+
+      if (bodyHash.length !== claimedHash.length ||
+          !crypto.timingSafeEqual(Buffer.from(bodyHash), Buffer.from(claimedHash))) {
+        console.warn('Webhook rejected: body hash mismatch');
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      console.warn('Webhook rejected:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Add a verification key to the cache, e.g. a locally generated key for tests
+   */
+  static cacheVerificationKey(key: WebhookVerificationKey) {
+    this.verificationKeys.set(key.kid, key);
+  }
+
+  /**
+   * Route a verified webhook to the matching item
+   */
+  static async handleWebhook(webhook: PlaidWebhook) {
+    const { webhook_type, webhook_code, item_id } = webhook;
+    console.log(`Received Plaid webhook ${webhook_type}/${webhook_code} for item ${item_id}`);
+
+    if (!item_id) {
+      return { handled: false, reason: 'No item_id in webhook' };
+    }
+
+    const item = await prisma.plaidItem.findUnique({
+      where: { plaidItemId: item_id },
+      select: { id: true }
+    });
+
+    if (!item) {
+      console.warn(`Webhook for unknown item ${item_id}`);
+      return { handled: false, reason: 'Unknown item' };
+    }
+
+    switch (webhook_type) {
+      case 'TRANSACTIONS':
+        return this.handleTransactionsWebhook(item.id, webhook);
+      case 'ITEM':
+        return this.handleItemWebhook(item.id, webhook);
+      default:
+        console.log(`Ignoring webhook type ${webhook_type}`);
+        return { handled: false, reason: 'Unsupported webhook type' };
+    }
+  }
+
+  /**
+   * Queue a sync job for an item; the job queue coalesces repeated webhooks
+   */
+  static enqueueItemSync(itemId: string) {
+    SyncJobService.enqueueItem(itemId, 'webhook')
+      .catch(error => console.error(`Failed to queue webhook sync for item ${itemId}:`, error));
+  }
+
+  private static async handleTransactionsWebhook(itemId: string, webhook: PlaidWebhook) {
+    if (!SYNC_WEBHOOK_CODES.includes(webhook.webhook_code)) {
+      console.log(`Ignoring transactions webhook code ${webhook.webhook_code}`);
+      return { handled: false, reason: 'Unsupported webhook code' };
+    }
+
+    this.enqueueItemSync(itemId);
+    return { handled: true, action: 'sync_enqueued' };
+  }
+
+  private static async handleItemWebhook(itemId: string, webhook: PlaidWebhook) {
+    switch (webhook.webhook_code) {
+      case 'ERROR': {
+        const errorCode = webhook.error?.error_code;
+        console.warn(`Item ${itemId} reported error: ${errorCode}`);
+
+        const syncStatus = TransactionSyncService.itemStatusForError(errorCode);
+        await prisma.plaidItem.update({
+          where: { id: itemId },
+          data: { syncStatus, errorCode: errorCode || null }
+        });
+        return { handled: true, action: 'status_updated', syncStatus };
+      }
+
+      case 'PENDING_EXPIRATION':
+        // The item keeps working until consent expires, so only flag it for update mode
+        console.warn(`Item ${itemId} consent expires at ${webhook.consent_expiration_time}`);
+        await prisma.plaidItem.update({
+          where: { id: itemId },
+          data: {
+            errorCode: 'PENDING_EXPIRATION',
+            consentExpiresAt: webhook.consent_expiration_time
+              ? new Date(webhook.consent_expiration_time)
+              : null
+          }
+        });
+        return { handled: true, action: 'update_mode_required' };
+
+      case 'USER_PERMISSION_REVOKED':
+        console.warn(`User revoked access for item ${itemId}`);
+        await prisma.plaidItem.update({
+          where: { id: itemId },
+          data: { syncStatus: 'TOKEN_EXPIRED', errorCode: 'USER_PERMISSION_REVOKED' }
+        });
+        return { handled: true, action: 'status_updated', syncStatus: 'TOKEN_EXPIRED' };
+
+      case 'LOGIN_REPAIRED':
+        // The user fixed the login outside our app, so resume syncing
+        await prisma.plaidItem.update({
+          where: { id: itemId },
+          data: { syncStatus: 'SYNCED', errorCode: null }
+        });
+        this.enqueueItemSync(itemId);
+        return { handled: true, action: 'sync_enqueued' };
+
+      default:
+        console.log(`Ignoring item webhook code ${webhook.webhook_code}`);
+        return { handled: false, reason: 'Unsupported webhook code' };
+    }
+  }
+
+  private static async getVerificationKey(keyId: string): Promise<WebhookVerificationKey> {
+    const cached = this.verificationKeys.get(keyId);
+    if (cached && !cached.expired_at) {
+      return cached;
+    }
+
+    const key = await getBankDataProvider().getWebhookVerificationKey(keyId);
+    this.verificationKeys.set(keyId, key);
+    return key;
+  }
+}
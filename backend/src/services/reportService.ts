@@ -0,0 +1,348 @@
+import { jsPDF } from 'jspdf';
+import { prisma } from '../lib/prisma';
+import { AnalyticsService } from './analyticsService';
+import { BudgetSyncService } from './budgetSyncService';
+import { SavingsGoalService } from './savingsGoalService';
+
+// Account types whose balance is money owed
+const LIABILITY_TYPES = ['credit', 'loan'];
+
+const TOP_MERCHANT_COUNT = 10;
+
+// Letter paper in points
+const PAGE_MARGIN = 48;
+const CONTENT_WIDTH = 612 - 2 * PAGE_MARGIN;
+const LINE_HEIGHT = 16;
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Turn YYYY-MM into the first and last instant of that month (UTC). Returns null
+ * for anything malformed or in the future.
+ */
+export const parseReportMonth = (value: string) => {
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const year = parseInt(match[1]);
+  const month = parseInt(match[2]);
+  if (month < 1 || month > 12) return null;
+
+  const start = new Date(Date.UTC(year, month - 1, 1));
+  const end = new Date(Date.UTC(year, month, 1) - 1);
+  if (start > new Date()) return null;
+
+  return { start, end };
+};
+
+export type MonthlyStatement = Awaited<ReturnType<typeof ReportService.getMonthlyStatement>>;
+
+export class ReportService {
+
+  /**
+   * Gather everything on a monthly statement. Figures come from the same queries
+   * as the dashboard so the two always agree. Savings goals have no history and
+   * show their progress as of today.
+   */
+  static async getMonthlyStatement(userId: string, month: string) {
+    const period = parseReportMonth(month);
+    if (!period) {
+      throw new Error(`Invalid report month ${month}`);
+    }
+
+    const now = new Date();
+    const asOf = period.end < now ? period.end : now;
+    const range = { from: period.start, to: period.end };
+
+    const [user, accounts, trends, categories, budgets, goals, merchants] = await Promise.all([
+      prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { fullName: true, email: true } }),
+      this.getAccountBalances(userId, period.end, now),
+      AnalyticsService.getMonthlyTrends(userId, period.start, { endDate: period.end }),
+      AnalyticsService.getCategorySpending(userId, range),
+      prisma.budget.findMany({
+        where: {
+          userId,
+          isActive: true,
+          startDate: { lte: period.end },
+          OR: [{ endDate: null }, { endDate: { gte: period.start } }]
+        },
+        orderBy: { name: 'asc' }
+      }),
+      SavingsGoalService.getGoals(userId),
+      AnalyticsService.getTopMerchants(userId, TOP_MERCHANT_COUNT, range)
+    ]);
+
+    const budgetStatus = await Promise.all(budgets.map(async budget => ({
+      name: budget.name,
+      category: budget.category,
+      amount: budget.amount,
+      ...(await BudgetSyncService.calculateBudgetSpending(budget, asOf))
+    })));
+
+    const summary = trends[0] || { income: 0, expenses: 0, netAmount: 0, transactionCount: 0 };
+    const totalSpending = categories.reduce((sum, item) => sum + item.amount, 0);
+
+    return {
+      month,
+      label: period.start.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+      user,
+      generatedAt: now,
+      summary: {
+        income: summary.income,
+        expenses: summary.expenses,
+        netAmount: summary.netAmount,
+        transactionCount: summary.transactionCount
+      },
+      accounts,
+      netWorth: accounts.reduce((sum, account) => {
+        if (account.balance === null) return sum;
+        return LIABILITY_TYPES.includes(account.type) ? sum - account.balance : sum + account.balance;
+      }, 0),
+      categories: categories.map(item => ({
+        ...item,
+        percentage: totalSpending > 0 ? (item.amount / totalSpending) * 100 : 0
+      })),
+      budgets: budgetStatus,
+      goals: goals
+        .filter(goal => goal.isActive)
+        .map(goal => ({
+          name: goal.name,
+          currentAmount: goal.currentAmount,
+          targetAmount: goal.targetAmount,
+          targetDate: goal.targetDate,
+          progressPercentage: goal.progressPercentage,
+          isCompleted: goal.isCompleted
+        })),
+      merchants: merchants.map(merchant => ({
+        name: merchant.name as string,
+        totalSpent: merchant.totalSpent as number,
+        transactionCount: merchant.transactionCount as number
+      }))
+    };
+  }
+
+  /**
+   * Render a monthly statement as a PDF
+   */
+  static renderMonthlyStatement(statement: MonthlyStatement): Buffer {
+    const pdf = new StatementPdf();
+
+    pdf.title(`Monthly Statement - ${statement.label}`);
+    pdf.note(`${statement.user.fullName} (${statement.user.email})`);
+    pdf.note(`Generated ${formatDate(statement.generatedAt)}`);
+
+    pdf.heading('Income vs Expenses');
+    pdf.table([CONTENT_WIDTH], [
+      ['Income', currency.format(statement.summary.income)],
+      ['Expenses', currency.format(statement.summary.expenses)],
+      ['Net', currency.format(statement.summary.netAmount)],
+      ['Transactions', String(statement.summary.transactionCount)]
+    ]);
+
+    pdf.heading('Account Balances');
+    if (statement.accounts.length === 0) {
+      pdf.note('No open accounts.');
+    } else {
+      pdf.table([300, CONTENT_WIDTH], [
+        ['Account', 'Type', 'Balance'],
+        ...statement.accounts.map(account => [
+          account.mask ? `${account.name} (...${account.mask})` : account.name,
+          account.type,
+          account.balance === null ? 'No history' : currency.format(account.balance)
+        ])
+      ], { header: true });
+      pdf.table([CONTENT_WIDTH], [['Net worth', currency.format(statement.netWorth)]], { bold: true });
+    }
+
+    pdf.heading('Spending by Category');
+    if (statement.categories.length === 0) {
+      pdf.note('No spending this month.');
+    } else {
+      pdf.table([300, 410, CONTENT_WIDTH], [
+        ['Category', 'Transactions', 'Share', 'Amount'],
+        ...statement.categories.map(item => [
+          item.category || 'Other',
+          String(item.transactionCount),
+          `${item.percentage.toFixed(1)}%`,
+          currency.format(item.amount)
+        ])
+      ], { header: true });
+    }
+
+    pdf.heading('Budgets');
+    if (statement.budgets.length === 0) {
+      pdf.note('No budgets for this month.');
+    } else {
+      pdf.table([300, 410, CONTENT_WIDTH], [['Budget', 'Budgeted', 'Spent', 'Remaining']], { header: true });
+      statement.budgets.forEach(budget => {
+        pdf.table([300, 410, CONTENT_WIDTH], [[
+          `${budget.name} (${budget.category})`,
+          currency.format(budget.amount),
+          currency.format(budget.spent),
+          currency.format(budget.remaining)
+        ]]);
+        pdf.progressBar(budget.percentUsed, budget.percentUsed > 100);
+      });
+    }
+
+    pdf.heading('Savings Goals');
+    if (statement.goals.length === 0) {
+      pdf.note('No active savings goals.');
+    } else {
+      pdf.table([300, 410, CONTENT_WIDTH], [['Goal', 'Saved', 'Target', 'Target Date']], { header: true });
+      statement.goals.forEach(goal => {
+        pdf.table([300, 410, CONTENT_WIDTH], [[
+          goal.isCompleted ? `${goal.name} (completed)` : goal.name,
+          currency.format(goal.currentAmount),
+          currency.format(goal.targetAmount),
+          formatDate(goal.targetDate)
+        ]]);
+        pdf.progressBar(goal.progressPercentage, false);
+      });
+    }
+
+    pdf.heading('Top Merchants');
+    if (statement.merchants.length === 0) {
+      pdf.note('No merchant spending this month.');
+    } else {
+      pdf.table([300, CONTENT_WIDTH], [
+        ['Merchant', 'Transactions', 'Spent'],
+        ...statement.merchants.map(merchant => [
+          merchant.name,
+          String(merchant.transactionCount),
+          currency.format(merchant.totalSpent)
+        ])
+      ], { header: true });
+    }
+
+    return pdf.finish();
+  }
+
+  /**
+   * Balance of each open account at the end of the month: today's balance for the
+   * current month, otherwise the last snapshot on or before the month's end
+   */
+  private static async getAccountBalances(userId: string, end: Date, now: Date) {
+    const accounts = await prisma.account.findMany({
+      where: { userId, isActive: true },
+      orderBy: [{ type: 'asc' }, { name: 'asc' }]
+    });
+
+    const snapshots = end < now
+      ? await prisma.balanceSnapshot.findMany({
+        where: { userId, accountId: { in: accounts.map(account => account.id) }, date: { lte: end } },
+        orderBy: [{ accountId: 'asc' }, { date: 'desc' }],
+        distinct: ['accountId']
+      })
+      : [];
+    const closingBalances = new Map(snapshots.map(snapshot => [snapshot.accountId, snapshot.currentBalance]));
+
+    return accounts.map(account => ({
+      name: account.name,
+      mask: account.mask,
+      type: account.type,
+      balance: end < now ? closingBalances.get(account.id) ?? null : account.currentBalance
+    }));
+  }
+}
+
+/**
+ * Top-to-bottom layout on a jsPDF document, starting a new page when the next
+ * block would run into the bottom margin
+ */
+class StatementPdf {
+  private doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  private y = PAGE_MARGIN;
+
+  private get pageHeight() {
+    return this.doc.internal.pageSize.getHeight();
+  }
+
+  title(text: string) {
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(18);
+    this.doc.text(text, PAGE_MARGIN, this.y + 14);
+    this.y += 28;
+  }
+
+  heading(text: string) {
+    this.ensureSpace(LINE_HEIGHT * 3);
+    this.y += LINE_HEIGHT;
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(13);
+    this.doc.text(text, PAGE_MARGIN, this.y);
+    this.doc.setDrawColor(180);
+    this.doc.line(PAGE_MARGIN, this.y + 4, PAGE_MARGIN + CONTENT_WIDTH, this.y + 4);
+    this.y += LINE_HEIGHT + 4;
+  }
+
+  note(text: string) {
+    this.ensureSpace(LINE_HEIGHT);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(10);
+    this.doc.text(text, PAGE_MARGIN, this.y);
+    this.y += LINE_HEIGHT;
+  }
+
+  /**
+   * Rows of a label followed by values. Each value is right-aligned to its edge
+   * (in points from the left margin), which suits amounts.
+   */
+  table(edges: number[], rows: string[][], options: { header?: boolean; bold?: boolean } = {}) {
+    // Keep long labels out of the first value column
+    const labelWidth = edges[0] - 100;
+
+    this.doc.setFontSize(10);
+    rows.forEach((row, index) => {
+      this.ensureSpace(LINE_HEIGHT);
+      const bold = options.bold || (options.header && index === 0);
+      this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+
+      const [label, ...values] = row;
+      const text = this.doc.getTextWidth(label) > labelWidth
+        ? this.doc.splitTextToSize(label, labelWidth)[0] + '...'
+        : label;
+      this.doc.text(text, PAGE_MARGIN, this.y);
+      values.forEach((value, column) => {
+        this.doc.text(value, PAGE_MARGIN + edges[column], this.y, { align: 'right' });
+      });
+      this.y += LINE_HEIGHT;
+    });
+  }
+
+  progressBar(percent: number, over: boolean) {
+    this.ensureSpace(12);
+    const filled = Math.max(0, Math.min(percent, 100)) / 100 * CONTENT_WIDTH;
+
+    this.doc.setFillColor(230, 230, 230);
+    this.doc.rect(PAGE_MARGIN, this.y - 8, CONTENT_WIDTH, 5, 'F');
+    if (over) {
+      this.doc.setFillColor(200, 60, 60);
+    } else {
+      this.doc.setFillColor(60, 140, 90);
+    }
+    this.doc.rect(PAGE_MARGIN, this.y - 8, filled, 5, 'F');
+    this.y += 8;
+  }
+
+  finish() {
+    const pages = this.doc.getNumberOfPages();
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(8);
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.text(`Page ${page} of ${pages}`, PAGE_MARGIN + CONTENT_WIDTH, this.pageHeight - PAGE_MARGIN / 2, { align: 'right' });
+    }
+    return Buffer.from(this.doc.output('arraybuffer'));
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > this.pageHeight - PAGE_MARGIN) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+}
@@ -1,20 +1,27 @@
+import { cleanMerchantName, merchantKey } from '../lib/merchantNames';
 import { prisma } from '../lib/prisma';
 
+interface UserPatterns {
+  merchants: Map<string, string>;
+  keywords: Map<string, string>;
+}
+
 export class SmartCategorizationService {
-  private static merchantPatterns: Map<string, string> = new Map();
+  // Learned from each user's own transactions, so one user's categories never decide another's
+  private static userPatterns: Map<string, UserPatterns> = new Map();
   private static keywordPatterns: Map<string, string> = new Map();
 
   /**
-   * Initialize smart categorization with existing transaction patterns
+   * Initialize smart categorization with the user's existing transaction patterns
    */
-  static async initializePatterns() {
-    console.log('Initializing smart categorization patterns...');
+  static async initializePatterns(userId: string) {
+    console.log(`Initializing smart categorization patterns for user ${userId}...`);
     
     // Load merchant patterns from existing transactions
     const merchantData = await prisma.transaction.findMany({
       where: { 
-        primaryCategory: { not: null },
-        merchantName: { not: null }
+        userId,
+        primaryCategory: { not: null }
       },
       select: { 
         merchantName: true, 
@@ -24,25 +31,48 @@ export class SmartCategorizationService {
     });
 
     // Build merchant patterns
+    const patterns: UserPatterns = { merchants: new Map(), keywords: new Map() };
     merchantData.forEach(transaction => {
+      const key = this.merchantKeyFor(transaction.name, transaction.merchantName);
+      if (key && transaction.primaryCategory) {
+        patterns.merchants.set(key, transaction.primaryCategory);
+      }
+
       if (transaction.merchantName && transaction.primaryCategory) {
         const merchant = transaction.merchantName.toLowerCase().trim();
-        this.merchantPatterns.set(merchant, transaction.primaryCategory);
         
         // Also add partial matches for common patterns
         const words = merchant.split(/\s+/);
         words.forEach(word => {
           if (word.length > 3 && transaction.primaryCategory) { // Only meaningful words
-            this.keywordPatterns.set(word, transaction.primaryCategory);
+            patterns.keywords.set(word, transaction.primaryCategory);
           }
         });
       }
     });
 
     // Add common merchant patterns
-    this.addCommonPatterns();
+    if (this.keywordPatterns.size === 0) {
+      this.addCommonPatterns();
+    }
+    this.userPatterns.set(userId, patterns);
     
-    console.log(`Loaded ${this.merchantPatterns.size} merchant patterns and ${this.keywordPatterns.size} keyword patterns`);
+    console.log(`Loaded ${patterns.merchants.size} merchant patterns and ${patterns.keywords.size} keyword patterns`);
+    return patterns;
+  }
+
+  /**
+   * The user's patterns, loaded on first use; a sync loads them again to pick up new categories
+   */
+  private static async patternsFor(userId: string) {
+    return this.userPatterns.get(userId) || this.initializePatterns(userId);
+  }
+
+  /**
+   * The common keyword patterns with the user's learned ones replacing those they overlap
+   */
+  private static keywordsFor(patterns: UserPatterns) {
+    return new Map([...Array.from(this.keywordPatterns), ...Array.from(patterns.keywords)]);
   }
 
   /**
@@ -140,16 +170,19 @@ export class SmartCategorizationService {
    * Categorize a transaction using smart patterns
    */
   static async categorizeTransaction(
+    userId: string,
     transactionName: string, 
     merchantName?: string, 
     plaidCategories?: string[]
   ): Promise<{ category: string; confidence: number; method: string }> {
     
+    const patterns = await this.patternsFor(userId);
     const searchText = `${transactionName} ${merchantName || ''}`.toLowerCase();
     
     // Method 1: Exact merchant match (highest confidence)
-    if (merchantName) {
-      const exactMatch = this.merchantPatterns.get(merchantName.toLowerCase().trim());
+    const key = this.merchantKeyFor(transactionName, merchantName);
+    if (key) {
+      const exactMatch = patterns.merchants.get(key);
       if (exactMatch) {
         return { category: exactMatch, confidence: 0.95, method: 'exact_merchant' };
       }
@@ -158,7 +191,7 @@ export class SmartCategorizationService {
     // Method 2: Keyword pattern matching
     let bestMatch = { category: 'Other', confidence: 0, method: 'keyword' };
     
-    for (const [pattern, category] of this.keywordPatterns) {
+    for (const [pattern, category] of this.keywordsFor(patterns)) {
       if (searchText.includes(pattern)) {
         const confidence = this.calculateConfidence(pattern, searchText);
         if (confidence > bestMatch.confidence) {
@@ -262,21 +295,23 @@ export class SmartCategorizationService {
     try {
       const transaction = await prisma.transaction.findUnique({
         where: { id: transactionId },
-        select: { merchantName: true, name: true }
+        select: { userId: true, merchantName: true, name: true }
       });
+      if (!transaction) return;
 
-      if (transaction && transaction.merchantName) {
+      const patterns = await this.patternsFor(transaction.userId);
+      const key = this.merchantKeyFor(transaction.name, transaction.merchantName);
+      if (key) {
         // Add the corrected pattern
-        this.merchantPatterns.set(
-          transaction.merchantName.toLowerCase().trim(), 
-          correctedCategory
-        );
-        
+        patterns.merchants.set(key, correctedCategory);
+      }
+
+      if (transaction.merchantName) {
         // Also learn from transaction name keywords
         const words = transaction.name.toLowerCase().split(/\s+/);
         words.forEach(word => {
           if (word.length > 3) {
-            this.keywordPatterns.set(word, correctedCategory);
+            patterns.keywords.set(word, correctedCategory);
           }
         });
 
@@ -291,15 +326,17 @@ export class SmartCategorizationService {
    * Get categorization suggestions for a transaction
    */
   static async getSuggestions(
+    userId: string,
     transactionName: string, 
     merchantName?: string
   ): Promise<Array<{ category: string; confidence: number; reason: string }>> {
     
+    const patterns = await this.patternsFor(userId);
     const suggestions: Array<{ category: string; confidence: number; reason: string }> = [];
     const searchText = `${transactionName} ${merchantName || ''}`.toLowerCase();
 
     // Get all possible matches
-    for (const [pattern, category] of this.keywordPatterns) {
+    for (const [pattern, category] of this.keywordsFor(patterns)) {
       if (searchText.includes(pattern)) {
         const confidence = this.calculateConfidence(pattern, searchText);
         suggestions.push({
@@ -315,4 +352,12 @@ export class SmartCategorizationService {
       .sort((a, b) => b.confidence - a.confidence)
       .slice(0, 3);
   }
+
+  /**
+   * Key for the exact merchant map, from the cleaned merchant name so store numbers
+   * and processor prefixes don't split one merchant into many
+   */
+  private static merchantKeyFor(transactionName: string, merchantName?: string | null) {
+    return merchantKey(cleanMerchantName(merchantName || transactionName));
+  }
 }
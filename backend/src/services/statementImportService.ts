@@ -0,0 +1,218 @@
+import { prisma } from '../lib/prisma';
+import {
+  CsvMapping,
+  detectStatementFormat,
+  parseCsvStatement,
+  parseOfxStatement,
+  ParsedStatementRow,
+  StatementParseError
+} from '../lib/statementParser';
+import { Account, Prisma, StatementImport } from '../../prisma/generated/prisma';
+import { BalanceHistoryService } from './balanceHistoryService';
+import { BudgetSyncService } from './budgetSyncService';
+import { MerchantService } from './merchantService';
+import { TransactionSyncService } from './transactionSyncService';
+import { spanOfDates, TransferService } from './transferService';
+
+// Posting dates on a statement and in a bank feed can be a couple of days apart
+const DUPLICATE_WINDOW_DAYS = 2;
+
+// Keeps a mistaken upload (a whole spreadsheet, say) from turning into a huge import
+export const MAX_IMPORT_ROWS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ImportRow = ParsedStatementRow & {
+  index: number;
+  // Existing transaction this row looks like a copy of
+  duplicateOf: string | null;
+};
+
+export class StatementImportService {
+
+  /**
+   * Parse an uploaded statement and save it for review. Nothing is written to the
+   * transactions table until the import is committed.
+   */
+  static async createPreview(userId: string, upload: {
+    content: string;
+    format?: string;
+    fileName?: string;
+    profileId?: string;
+    accountId?: string;
+  }) {
+    const format = detectStatementFormat(upload.content, upload.format, upload.fileName);
+    if (!format) {
+      throw new StatementParseError(`Unsupported format ${upload.format}`);
+    }
+
+    let parsed: ParsedStatementRow[];
+    if (format === 'csv') {
+      const profile = upload.profileId
+        ? await prisma.importProfile.findFirst({ where: { id: upload.profileId, userId } })
+        : null;
+      if (!profile) {
+        throw new StatementParseError('CSV imports need a column mapping profile');
+      }
+      parsed = parseCsvStatement(upload.content, profile as CsvMapping);
+    } else {
+      parsed = parseOfxStatement(upload.content);
+    }
+
+    if (parsed.length === 0) {
+      throw new StatementParseError('No transactions found in the file');
+    }
+    if (parsed.length > MAX_IMPORT_ROWS) {
+      throw new StatementParseError(`Statements are limited to ${MAX_IMPORT_ROWS} transactions`);
+    }
+
+    const rows = await this.markDuplicates(userId, parsed, upload.accountId);
+
+    return prisma.statementImport.create({
+      data: {
+        userId,
+        profileId: format === 'csv' ? upload.profileId : null,
+        accountId: upload.accountId || null,
+        format,
+        fileName: upload.fileName || null,
+        rows,
+        rowCount: rows.length,
+        duplicateCount: rows.filter(row => row.duplicateOf).length
+      }
+    });
+  }
+
+  /**
+   * Flag rows matching an existing transaction on amount and a nearby date. Each
+   * existing transaction only accounts for one row, so genuine repeats (two
+   * coffees on the same day) still come through.
+   */
+  static async markDuplicates(userId: string, parsed: ParsedStatementRow[], accountId?: string | null): Promise<ImportRow[]> {
+    const dates = parsed.map(row => new Date(row.date).getTime());
+    const existing = await prisma.transaction.findMany({
+      where: {
+        userId,
+        ...(accountId && { accountId }),
+        date: {
+          gte: new Date(Math.min(...dates) - DUPLICATE_WINDOW_DAYS * DAY_MS),
+          lte: new Date(Math.max(...dates) + DUPLICATE_WINDOW_DAYS * DAY_MS)
+        }
+      },
+      select: { id: true, amount: true, date: true },
+      orderBy: { date: 'asc' }
+    });
+
+    const matched = new Set<string>();
+    return parsed.map((row, index) => {
+      const rowDate = new Date(row.date).getTime();
+      const candidates = existing.filter(t =>
+        !matched.has(t.id) &&
+        Math.abs(t.amount - row.amount) < 0.005 &&
+        Math.abs(t.date.getTime() - rowDate) <= DUPLICATE_WINDOW_DAYS * DAY_MS
+      );
+
+      // Prefer the closest date
+      candidates.sort((a, b) => Math.abs(a.date.getTime() - rowDate) - Math.abs(b.date.getTime() - rowDate));
+      const duplicate = candidates[0];
+      if (duplicate) {
+        matched.add(duplicate.id);
+      }
+
+      return { ...row, index, duplicateOf: duplicate ? duplicate.id : null };
+    });
+  }
+
+  /**
+   * Write a previewed import into an account, categorizing each row like a synced
+   * transaction. Duplicates are checked again against the chosen account and
+   * skipped unless asked for. Balances are left alone: a statement covers the
+   * past and the account's balance is already current. Null if the import was
+   * already committed.
+   */
+  static async commit(statementImport: StatementImport, account: Account, options: { includeDuplicates?: boolean } = {}) {
+    const stored = statementImport.rows as unknown as ImportRow[];
+    const rows = await this.markDuplicates(statementImport.userId, stored, account.id);
+    const toImport = options.includeDuplicates ? rows : rows.filter(row => !row.duplicateOf);
+
+    const resolveMerchant = await MerchantService.resolver(statementImport.userId);
+    const data: Prisma.TransactionCreateManyInput[] = [];
+    for (const row of toImport) {
+      const merchant = resolveMerchant.resolve(row.name, row.merchantName);
+      data.push({
+        userId: statementImport.userId,
+        accountId: account.id,
+        source: 'import',
+        importId: statementImport.id,
+        name: row.name,
+        merchantName: row.merchantName,
+        merchantId: merchant ? merchant.id : null,
+        amount: row.amount,
+        date: new Date(row.date),
+        primaryCategory: merchant?.defaultCategory
+          || await TransactionSyncService.categorize(statementImport.userId, row.name, row.merchantName, [], row.amount),
+        categories: []
+      });
+    }
+
+    const committed = await prisma.$transaction(async tx => {
+      // Claim the import first, so a second commit racing this one writes nothing
+      const { count } = await tx.statementImport.updateMany({
+        where: { id: statementImport.id, status: { not: 'COMMITTED' } },
+        data: { status: 'COMMITTED' }
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      await resolveMerchant.save(tx, data);
+      await tx.transaction.createMany({ data });
+      return tx.statementImport.update({
+        where: { id: statementImport.id },
+        data: {
+          accountId: account.id,
+          rows,
+          duplicateCount: rows.filter(row => row.duplicateOf).length,
+          importedCount: data.length,
+          committedAt: new Date()
+        }
+      });
+    });
+
+    if (!committed) {
+      return null;
+    }
+
+    console.log(`Import ${statementImport.id}: ${data.length} of ${rows.length} transactions written to account ${account.id}`);
+
+    // Older transactions mean balance history can go further back
+    try {
+      await BalanceHistoryService.backfillAccount(account.id);
+    } catch (error) {
+      console.warn(`Balance backfill after import ${statementImport.id} failed:`, error);
+    }
+    await TransferService.detectTransfers(statementImport.userId, spanOfDates(toImport.map(row => new Date(row.date))));
+    await BudgetSyncService.syncUserBudgets(statementImport.userId);
+
+    return committed;
+  }
+
+  static formatImport(statementImport: StatementImport) {
+    const rows = statementImport.rows as unknown as ImportRow[];
+    const dates = rows.map(row => row.date).sort();
+
+    return {
+      id: statementImport.id,
+      format: statementImport.format,
+      fileName: statementImport.fileName,
+      status: statementImport.status,
+      profileId: statementImport.profileId,
+      accountId: statementImport.accountId,
+      rowCount: statementImport.rowCount,
+      duplicateCount: statementImport.duplicateCount,
+      importedCount: statementImport.importedCount,
+      dateRange: dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null,
+      createdAt: statementImport.createdAt,
+      committedAt: statementImport.committedAt
+    };
+  }
+}
@@ -0,0 +1,376 @@
+import { randomUUID } from 'crypto';
+import os from 'os';
+import { prisma } from '../lib/prisma';
+import { getProviderErrorCode } from '../providers/bankDataProvider';
+import { Prisma, SyncJob } from '../../prisma/generated/prisma';
+import { BackfillService } from './backfillService';
+import { TransactionSyncService } from './transactionSyncService';
+
+// Worker tuning, overridable per deployment
+const SYNC_CONCURRENCY = parseInt(process.env.SYNC_CONCURRENCY || '2', 10);
+const POLL_INTERVAL_MS = parseInt(process.env.SYNC_POLL_INTERVAL_MS || '5000', 10);
+
+// Retry backoff: 30s, 1m, 2m, 4m... capped at an hour
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// Plaid rate limits reset per minute, so start those retries further out
+const RATE_LIMIT_BACKOFF_MS = 60 * 1000;
+
+// Jobs stuck in RUNNING this long belonged to a worker that died mid-sync
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+// Serializes claims across instances so the concurrency cap holds globally
+const CLAIM_LOCK_KEY = 4815162342;
+
+// Triggers someone is waiting on; they pull a queued job that is backing off forward
+const USER_TRIGGERS = ['manual', 'webhook', 'link', 'update_mode'];
+
+// Plaid RATE_LIMIT_EXCEEDED error codes
+const RATE_LIMIT_ERROR_CODES = [
+  'RATE_LIMIT',
+  'ACCOUNTS_LIMIT',
+  'ITEM_GET_LIMIT',
+  'TRANSACTIONS_LIMIT',
+  'TRANSACTIONS_SYNC_LIMIT',
+  'INSTITUTION_RATE_LIMIT'
+];
+
+export class SyncJobService {
+  private static workerId = `${os.hostname()}-${process.pid}`;
+  private static timer: NodeJS.Timeout | null = null;
+  private static activeJobs: Set<Promise<void>> = new Set();
+  private static polling = false;
+
+  /**
+   * Queue a sync for an item. An item only ever has one queued job, so repeated
+   * triggers (cron, webhooks, button mashing) collapse into a single run. A unique
+   * index on queued syncs keeps that true when triggers race. A user-initiated
+   * trigger takes over a job waiting out a retry backoff and makes it due now.
+   */
+  static async enqueueItem(itemId: string, trigger: string, options: { fullResync?: boolean } = {}) {
+    const immediate = USER_TRIGGERS.includes(trigger);
+    const [job] = await prisma.$queryRaw<SyncJob[]>`
+      INSERT INTO "public"."sync_jobs" ("id", "itemId", "trigger", "fullResync", "updatedAt")
+      VALUES (${randomUUID()}, ${itemId}, ${trigger}, ${options.fullResync || false}, NOW())
+      ON CONFLICT ("itemId") WHERE "status" = 'QUEUED'::"public"."SyncJobStatus" AND "backfillId" IS NULL
+      DO UPDATE SET
+        "fullResync" = "sync_jobs"."fullResync" OR EXCLUDED."fullResync",
+        "trigger" = CASE WHEN ${immediate} THEN EXCLUDED."trigger" ELSE "sync_jobs"."trigger" END,
+        "nextRunAt" = CASE WHEN ${immediate} THEN LEAST("sync_jobs"."nextRunAt", NOW()) ELSE "sync_jobs"."nextRunAt" END,
+        "updatedAt" = NOW()
+      RETURNING *`;
+    return job;
+  }
+
+  /**
+   * Queue the next window of a backfill. Windows run through the same queue as syncs,
+   * so they share the concurrency cap and never overlap a sync of the same item.
+   */
+  static async enqueueBackfill(backfill: { id: string; itemId: string }) {
+    const active = await prisma.syncJob.findFirst({
+      where: { backfillId: backfill.id, status: { in: ['QUEUED', 'RUNNING'] } }
+    });
+
+    if (active) {
+      return active;
+    }
+
+    return prisma.syncJob.create({
+      data: {
+        itemId: backfill.itemId,
+        trigger: 'backfill',
+        backfillId: backfill.id
+      }
+    });
+  }
+
+  /**
+   * Queue a sync for every item a user has linked
+   */
+  static async enqueueUser(userId: string, trigger: string, options: { fullResync?: boolean } = {}) {
+    const items = await prisma.plaidItem.findMany({
+      where: { userId },
+      select: { id: true }
+    });
+
+    const jobs: SyncJob[] = [];
+    for (const item of items) {
+      jobs.push(await this.enqueueItem(item.id, trigger, options));
+    }
+
+    if (jobs.length > 0) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { syncStatus: 'SYNCING' }
+      });
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Queued and running jobs for a user's items
+   */
+  static async getActiveJobs(userId: string) {
+    return prisma.syncJob.findMany({
+      where: {
+        status: { in: ['QUEUED', 'RUNNING'] },
+        item: { userId }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  static startWorker() {
+    if (this.timer) {
+      return;
+    }
+
+    console.log(`Starting sync worker ${this.workerId} (concurrency ${SYNC_CONCURRENCY})`);
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.poll();
+  }
+
+  /**
+   * Stop polling and wait for in-flight jobs to finish
+   */
+  static async stopWorker() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await Promise.all(Array.from(this.activeJobs));
+  }
+
+  /**
+   * Claim as many due jobs as the global concurrency cap allows and run them
+   */
+  static async poll() {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.requeueStaleJobs();
+
+      const jobs = await this.claimJobs();
+      for (const job of jobs) {
+        const run: Promise<void> = this.runJob(job)
+          .catch(error => console.error(`Sync job ${job.id} crashed:`, error))
+          .finally(() => this.activeJobs.delete(run));
+        this.activeJobs.add(run);
+      }
+    } catch (error) {
+      console.error('Sync worker poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Move due jobs to RUNNING, the oldest due job of each item at most. Rows are
+   * locked with FOR UPDATE SKIP LOCKED so two instances never claim the same job,
+   * items never sync twice at once, and the advisory lock keeps the RUNNING count
+   * under the cap across instances.
+   */
+  private static async claimJobs(): Promise<SyncJob[]> {
+    return prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY}::bigint)`;
+
+      const running = await tx.syncJob.count({ where: { status: 'RUNNING' } });
+      const slots = SYNC_CONCURRENCY - running;
+      if (slots <= 0) {
+        return [];
+      }
+
+      return tx.$queryRaw<SyncJob[]>`
+        UPDATE "public"."sync_jobs"
+        SET "status" = 'RUNNING'::"public"."SyncJobStatus",
+            "attempts" = "attempts" + 1,
+            "startedAt" = NOW(),
+            "updatedAt" = NOW()
+        WHERE "id" IN (
+          SELECT c."id" FROM "public"."sync_jobs" c
+          WHERE c."id" IN (
+            SELECT DISTINCT ON (j."itemId") j."id" FROM "public"."sync_jobs" j
+            WHERE j."status" = 'QUEUED'::"public"."SyncJobStatus"
+              AND j."nextRunAt" <= NOW()
+              AND NOT EXISTS (
+                SELECT 1 FROM "public"."sync_jobs" r
+                WHERE r."itemId" = j."itemId" AND r."status" = 'RUNNING'::"public"."SyncJobStatus"
+              )
+            ORDER BY j."itemId", j."nextRunAt"
+          )
+          ORDER BY c."nextRunAt"
+          LIMIT ${slots}
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *`;
+    });
+  }
+
+  private static async runJob(job: SyncJob) {
+    if (job.backfillId) {
+      return this.runBackfillJob(job, job.backfillId);
+    }
+
+    console.log(`Worker ${this.workerId} running sync job ${job.id} for item ${job.itemId} (attempt ${job.attempts})`);
+
+    try {
+      if (job.fullResync) {
+        // Clearing the cursor makes the sync feed replay the full history
+        await prisma.plaidItem.update({
+          where: { id: job.itemId },
+          data: { cursor: null, lastSyncAt: null }
+        });
+      }
+
+      const result = await TransactionSyncService.syncItem(job.itemId, job.trigger);
+
+      if (result.success) {
+        await prisma.syncJob.update({
+          where: { id: job.id },
+          data: { status: 'SUCCEEDED', finishedAt: new Date(), lastError: null }
+        });
+        console.log(`✅ Sync job ${job.id}: ${result.newTransactions} new, ${result.updatedTransactions} updated, ${result.removedTransactions} removed`);
+      } else {
+        await this.handleFailure(job, result.error || 'Sync failed', result.errorCode);
+      }
+    } catch (error: any) {
+      await this.handleFailure(job, error.message);
+    }
+
+    await this.updateUserSyncStatus(job.itemId);
+  }
+
+  private static async runBackfillJob(job: SyncJob, backfillId: string) {
+    console.log(`Worker ${this.workerId} running backfill ${backfillId} for item ${job.itemId} (attempt ${job.attempts})`);
+
+    try {
+      const { done } = await BackfillService.runWindow(backfillId);
+
+      if (done) {
+        await prisma.syncJob.update({
+          where: { id: job.id },
+          data: { status: 'SUCCEEDED', finishedAt: new Date(), lastError: null }
+        });
+      } else {
+        // One window per run, so syncs for the item can slot in between windows
+        await prisma.syncJob.update({
+          where: { id: job.id },
+          data: { status: 'QUEUED', attempts: 0, nextRunAt: new Date(), lastError: null }
+        });
+      }
+    } catch (error: any) {
+      await this.handleFailure(job, error.message, getProviderErrorCode(error));
+    }
+  }
+
+  /**
+   * Retry with exponential backoff, unless the item needs the user to re-authenticate
+   * (retrying can't fix that) or the job is out of attempts
+   */
+  private static async handleFailure(job: SyncJob, message: string, errorCode?: string) {
+    const needsUser = TransactionSyncService.itemStatusForError(errorCode) === 'TOKEN_EXPIRED';
+
+    if (needsUser || job.attempts >= job.maxAttempts) {
+      await prisma.syncJob.update({
+        where: { id: job.id },
+        data: { status: 'FAILED', finishedAt: new Date(), lastError: message }
+      });
+      if (job.backfillId) {
+        await BackfillService.markFailed(job.backfillId, message);
+      }
+      console.log(`❌ Sync job ${job.id} failed after ${job.attempts} attempts: ${message}`);
+      return;
+    }
+
+    const base = errorCode && RATE_LIMIT_ERROR_CODES.includes(errorCode) ? RATE_LIMIT_BACKOFF_MS : BASE_BACKOFF_MS;
+    const delay = Math.min(base * Math.pow(2, job.attempts - 1), MAX_BACKOFF_MS);
+    // Jitter so a batch of rate-limited jobs doesn't retry in lockstep
+    const nextRunAt = new Date(Date.now() + delay + Math.floor(Math.random() * 1000));
+
+    try {
+      await prisma.syncJob.update({
+        where: { id: job.id },
+        data: { status: 'QUEUED', nextRunAt, lastError: message }
+      });
+    } catch (error) {
+      // Only one sync can be queued per item; if a trigger queued one while this job ran, that job covers the retry
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+      await prisma.syncJob.update({
+        where: { id: job.id },
+        data: { status: 'FAILED', finishedAt: new Date(), lastError: message }
+      });
+      await prisma.syncJob.updateMany({
+        where: { itemId: job.itemId, status: 'QUEUED', backfillId: null, nextRunAt: { lt: nextRunAt } },
+        data: { nextRunAt }
+      });
+    }
+
+    console.log(`Sync job ${job.id} will retry at ${nextRunAt.toISOString()}: ${message}`);
+  }
+
+  /**
+   * Once a user's queue drains, roll their item statuses up into the user's sync status
+   */
+  private static async updateUserSyncStatus(itemId: string) {
+    const item = await prisma.plaidItem.findUnique({
+      where: { id: itemId },
+      select: { userId: true }
+    });
+
+    if (!item) {
+      return;
+    }
+
+    // Backfills can run for a long time and don't affect whether the user is up to date
+    const pending = await prisma.syncJob.count({
+      where: { status: { in: ['QUEUED', 'RUNNING'] }, backfillId: null, item: { userId: item.userId } }
+    });
+
+    if (pending > 0) {
+      return;
+    }
+
+    const failedItems = await prisma.plaidItem.count({
+      where: { userId: item.userId, syncStatus: { in: ['ERROR', 'TOKEN_EXPIRED'] } }
+    });
+
+    await prisma.user.update({
+      where: { id: item.userId },
+      data: {
+        lastSyncAt: new Date(),
+        syncStatus: failedItems > 0 ? 'ERROR' : 'SYNCED'
+      }
+    });
+  }
+
+  /**
+   * Put jobs abandoned by a crashed worker back in the queue. They retry like any
+   * failed job, keeping their attempts, so a job that keeps taking the worker down
+   * still runs out of them.
+   */
+  private static async requeueStaleJobs() {
+    const staleJobs = await prisma.syncJob.findMany({
+      where: {
+        status: 'RUNNING',
+        startedAt: { lt: new Date(Date.now() - STALE_JOB_MS) }
+      }
+    });
+
+    for (const job of staleJobs) {
+      await this.handleFailure(job, 'Worker stopped before the job finished');
+    }
+
+    if (staleJobs.length > 0) {
+      console.warn(`Requeued ${staleJobs.length} stale sync jobs`);
+    }
+  }
+}
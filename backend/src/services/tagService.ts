@@ -0,0 +1,74 @@
+import { prisma } from '../lib/prisma';
+import { Tag } from '../../prisma/generated/prisma';
+
+export class TagService {
+
+  /**
+   * The user's tags with how many transactions carry each
+   */
+  static async getTags(userId: string) {
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      include: { _count: { select: { transactions: true } } },
+      orderBy: { name: 'asc' }
+    });
+
+    return tags.map(({ _count, ...tag }) => ({ ...tag, transactionCount: _count.transactions }));
+  }
+
+  /**
+   * Fold other tags into one: their transactions get the target tag and the
+   * other tags are deleted
+   */
+  static async mergeTags(target: Tag, sources: Tag[]) {
+    const sourceIds = sources.map(tag => tag.id);
+
+    await prisma.$transaction(async tx => {
+      const links = await tx.transactionTag.findMany({
+        where: { tagId: { in: sourceIds } },
+        select: { transactionId: true }
+      });
+
+      await tx.transactionTag.createMany({
+        data: links.map(link => ({ transactionId: link.transactionId, tagId: target.id })),
+        skipDuplicates: true
+      });
+      await tx.tag.deleteMany({ where: { id: { in: sourceIds } } });
+    });
+
+    return prisma.tag.findUniqueOrThrow({
+      where: { id: target.id },
+      include: { _count: { select: { transactions: true } } }
+    });
+  }
+
+  /**
+   * Tag many transactions at once. Ones that already have the tag are skipped.
+   */
+  static async attachTag(tag: Tag, transactionIds: string[]) {
+    const { count } = await prisma.transactionTag.createMany({
+      data: transactionIds.map(transactionId => ({ transactionId, tagId: tag.id })),
+      skipDuplicates: true
+    });
+    return count;
+  }
+
+  static async detachTag(tag: Tag, transactionIds: string[]) {
+    const { count } = await prisma.transactionTag.deleteMany({
+      where: { tagId: tag.id, transactionId: { in: transactionIds } }
+    });
+    return count;
+  }
+
+  /**
+   * Ids from the list that aren't the user's transactions
+   */
+  static async findForeignTransactions(userId: string, transactionIds: string[]) {
+    const owned = await prisma.transaction.findMany({
+      where: { id: { in: transactionIds }, userId },
+      select: { id: true }
+    });
+    const ownedIds = new Set(owned.map(transaction => transaction.id));
+    return transactionIds.filter(id => !ownedIds.has(id));
+  }
+}
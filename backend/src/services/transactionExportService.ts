@@ -0,0 +1,333 @@
+import { Writable } from 'stream';
+import { prisma } from '../lib/prisma';
+import { TransactionFilters } from '../lib/transactionFilters';
+import { Prisma } from '../../prisma/generated/prisma';
+import { TransactionSearchService } from './transactionSearchService';
+
+export type ExportFormat = 'csv' | 'ofx' | 'qif' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ofx', 'qif', 'json'];
+
+// Rows fetched per query while streaming
+const EXPORT_PAGE_SIZE = 1000;
+
+const exportSelect = {
+  id: true,
+  name: true,
+  merchantName: true,
+  amount: true,
+  date: true,
+  primaryCategory: true,
+  detailedCategory: true,
+  categories: true,
+  notes: true,
+  pending: true,
+  source: true,
+  account: { select: { id: true, name: true, mask: true, type: true, subtype: true } }
+} satisfies Prisma.TransactionSelect;
+
+type ExportTransaction = Prisma.TransactionGetPayload<{ select: typeof exportSelect }>;
+
+interface ExportWriter {
+  contentType: string;
+  // OFX and QIF group transactions by account, so they are read account by account
+  groupByAccount: boolean;
+  header: () => string;
+  row: (transaction: ExportTransaction, index: number, previous: ExportTransaction | null) => string;
+  footer: (last: ExportTransaction | null) => string;
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const csvField = (value: string | number | boolean | null) => {
+  if (value === null) return '';
+  let text = String(value);
+  // Keep spreadsheets from running text cells as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: Array<string | number | boolean | null>) => values.map(csvField).join(',') + '\r\n';
+
+const ofxText = (value: string, maxLength: number) => value
+  .slice(0, maxLength)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+const ofxDate = (date: Date) => toDateString(date).replace(/-/g, '');
+
+const ofxAccountType = (account: ExportTransaction['account']) => {
+  if (account.type === 'credit') return 'CREDITLINE';
+  if (account.subtype === 'savings') return 'SAVINGS';
+  if (account.subtype === 'money market') return 'MONEYMRKT';
+  return 'CHECKING';
+};
+
+const ofxAccountOpen = (account: ExportTransaction['account']) => [
+  '<STMTTRNRS>',
+  '<TRNUID>0',
+  '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+  '<STMTRS>',
+  '<CURDEF>USD',
+  '<BANKACCTFROM>',
+  '<BANKID>000000000',
+  `<ACCTID>${ofxText(account.mask || account.id, 22)}`,
+  `<ACCTTYPE>${ofxAccountType(account)}`,
+  '</BANKACCTFROM>',
+  '<BANKTRANLIST>',
+  ''
+].join('\r\n');
+
+const ofxAccountClose = [
+  '</BANKTRANLIST>',
+  '</STMTRS>',
+  '</STMTTRNRS>',
+  ''
+].join('\r\n');
+
+// Amounts in OFX and QIF are signed from the account's point of view, the opposite of ours
+const signedAmount = (transaction: ExportTransaction) => (-transaction.amount).toFixed(2);
+
+// Category and notes share the memo field in formats without a place for them
+const memo = (transaction: ExportTransaction) =>
+  [transaction.primaryCategory, transaction.notes].filter(Boolean).join(' - ');
+
+const qifDate = (date: Date) => {
+  const [year, month, day] = toDateString(date).split('-');
+  return `${month}/${day}/${year}`;
+};
+
+const qifText = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+const WRITERS: Record<ExportFormat, ExportWriter> = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    groupByAccount: false,
+    header: () => csvRow([
+      'Date', 'Name', 'Merchant', 'Amount', 'Category', 'Detailed Category', 'Categories',
+      'Account', 'Account Mask', 'Pending', 'Source', 'Notes'
+    ]),
+    row: t => csvRow([
+      toDateString(t.date),
+      t.name,
+      t.merchantName,
+      t.amount,
+      t.primaryCategory,
+      t.detailedCategory,
+      t.categories.join(' > '),
+      t.account.name,
+      t.account.mask,
+      t.pending,
+      t.source,
+      t.notes
+    ]),
+    footer: () => ''
+  },
+
+  json: {
+    contentType: 'application/json; charset=utf-8',
+    groupByAccount: false,
+    header: () => '[\n',
+    row: (t, index) => (index > 0 ? ',\n' : '') + JSON.stringify({
+      id: t.id,
+      date: toDateString(t.date),
+      name: t.name,
+      merchantName: t.merchantName,
+      amount: t.amount,
+      primaryCategory: t.primaryCategory,
+      detailedCategory: t.detailedCategory,
+      categories: t.categories,
+      pending: t.pending,
+      source: t.source,
+      notes: t.notes,
+      account: { id: t.account.id, name: t.account.name, mask: t.account.mask }
+    }),
+    footer: () => '\n]\n'
+  },
+
+  // SGML OFX 1.02, which Quicken, GnuCash and most budgeting apps read
+  ofx: {
+    contentType: 'application/x-ofx',
+    groupByAccount: true,
+    header: () => [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      'VERSION:102',
+      'SECURITY:NONE',
+      'ENCODING:USASCII',
+      'CHARSET:1252',
+      'COMPRESSION:NONE',
+      'OLDFILEUID:NONE',
+      'NEWFILEUID:NONE',
+      '',
+      '<OFX>',
+      '<SIGNONMSGSRSV1><SONRS>',
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      `<DTSERVER>${ofxDate(new Date())}`,
+      '<LANGUAGE>ENG',
+      '</SONRS></SIGNONMSGSRSV1>',
+      '<BANKMSGSRSV1>',
+      ''
+    ].join('\r\n'),
+    row: (t, _index, previous) => {
+      const lines = [];
+      if (!previous || previous.account.id !== t.account.id) {
+        if (previous) lines.push(ofxAccountClose);
+        lines.push(ofxAccountOpen(t.account));
+      }
+
+      lines.push([
+        '<STMTTRN>',
+        `<TRNTYPE>${t.amount > 0 ? 'DEBIT' : 'CREDIT'}`,
+        `<DTPOSTED>${ofxDate(t.date)}`,
+        `<TRNAMT>${signedAmount(t)}`,
+        `<FITID>${t.id}`,
+        `<NAME>${ofxText(t.merchantName || t.name, 32)}`,
+        ...(memo(t) ? [`<MEMO>${ofxText(memo(t), 255)}`] : []),
+        '</STMTTRN>',
+        ''
+      ].join('\r\n'));
+
+      return lines.join('');
+    },
+    footer: last => (last ? ofxAccountClose : '') + '</BANKMSGSRSV1>\r\n</OFX>\r\n'
+  },
+
+  qif: {
+    contentType: 'application/qif',
+    groupByAccount: true,
+    header: () => '',
+    row: (t, _index, previous) => {
+      const lines = [];
+      if (!previous || previous.account.id !== t.account.id) {
+        const accountType = t.account.type === 'credit' ? 'CCard' : 'Bank';
+        lines.push('!Account', `N${qifText(t.account.name)}`, `T${accountType}`, '^', `!Type:${accountType}`);
+      }
+
+      lines.push(
+        `D${qifDate(t.date)}`,
+        `T${signedAmount(t)}`,
+        `P${qifText(t.merchantName || t.name)}`,
+        ...(t.primaryCategory ? [`L${qifText(t.primaryCategory)}`] : []),
+        ...(t.notes ? [`M${qifText(t.notes)}`] : []),
+        '^'
+      );
+
+      return lines.join('\n') + '\n';
+    },
+    footer: () => ''
+  }
+};
+
+export class TransactionExportService {
+
+  static contentType(format: ExportFormat) {
+    return WRITERS[format].contentType;
+  }
+
+  /**
+   * Write every transaction matching the filter to a stream, a page at a time,
+   * so large exports never sit in memory
+   */
+  static async streamTransactions(where: Prisma.TransactionWhereInput, format: ExportFormat, out: Writable) {
+    const orderBy: Prisma.TransactionOrderByWithRelationInput[] = WRITERS[format].groupByAccount
+      ? [{ accountId: 'asc' }, { date: 'asc' }, { id: 'asc' }]
+      : [{ date: 'desc' }, { id: 'asc' }];
+
+    let cursor: string | undefined;
+    return this.writeTransactions(format, out, async () => {
+      const page: ExportTransaction[] = await prisma.transaction.findMany({
+        where,
+        select: exportSelect,
+        orderBy,
+        take: EXPORT_PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+      cursor = page.length === EXPORT_PAGE_SIZE ? page[page.length - 1].id : undefined;
+      return { page, more: !!cursor };
+    });
+  }
+
+  /**
+   * Write every transaction matching a full-text search and the list filters to a
+   * stream. The matches are found in one query, in export order, then read a page
+   * at a time.
+   */
+  static async streamSearchResults(
+    userId: string,
+    tsquery: string,
+    filters: TransactionFilters,
+    format: ExportFormat,
+    out: Writable
+  ) {
+    const matches = await TransactionSearchService.search(userId, tsquery, filters, {
+      order: WRITERS[format].groupByAccount ? 'account' : 'date'
+    });
+
+    let offset = 0;
+    return this.writeTransactions(format, out, async () => {
+      const ids = matches.slice(offset, offset + EXPORT_PAGE_SIZE).map(match => match.id);
+      offset += EXPORT_PAGE_SIZE;
+
+      const rows = await prisma.transaction.findMany({
+        where: { id: { in: ids } },
+        select: exportSelect
+      });
+      const byId = new Map(rows.map(row => [row.id, row]));
+      return {
+        page: ids.map(id => byId.get(id)).filter((row): row is ExportTransaction => !!row),
+        more: offset < matches.length
+      };
+    });
+  }
+
+  /**
+   * Write pages of transactions through a format's writer. Waits for the stream to
+   * drain when the client reads slower than we query, and stops if it goes away.
+   */
+  private static async writeTransactions(
+    format: ExportFormat,
+    out: Writable,
+    nextPage: () => Promise<{ page: ExportTransaction[]; more: boolean }>
+  ) {
+    const writer = WRITERS[format];
+
+    const write = async (chunk: string) => {
+      if (chunk && !out.write(chunk)) {
+        // Resume once the buffer empties, or give up if the client disconnects
+        await new Promise<void>(resolve => {
+          const done = () => {
+            out.off('drain', done);
+            out.off('close', done);
+            resolve();
+          };
+          out.on('drain', done);
+          out.on('close', done);
+        });
+      }
+    };
+
+    await write(writer.header());
+
+    let count = 0;
+    let previous: ExportTransaction | null = null;
+
+    while (!out.destroyed) {
+      const { page, more } = await nextPage();
+
+      for (const transaction of page) {
+        await write(writer.row(transaction, count++, previous));
+        previous = transaction;
+      }
+
+      if (!more) break;
+    }
+
+    await write(writer.footer(previous));
+    out.end();
+    return count;
+  }
+}
@@ -0,0 +1,109 @@
+import { prisma } from '../lib/prisma';
+import { TransactionFilters, transactionFilterSql } from '../lib/transactionFilters';
+import { Prisma } from '../../prisma/generated/prisma';
+
+// ts_headline marks matches with these; the snippet is escaped before they become <mark> tags
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MinWords=5, MaxWords=20, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface SearchMatch {
+  id: string;
+  rank: number;
+}
+
+export interface SearchSummary {
+  count: number;
+  totalAmount: number;
+  income: number;
+  incomeCount: number;
+  expenses: number;
+  expenseCount: number;
+}
+
+// Orders results can come in: best match first, newest first, or the export's account by account
+export type SearchOrder = 'relevance' | 'date' | 'account';
+
+const ORDER_BY: Record<SearchOrder, Prisma.Sql> = {
+  relevance: Prisma.sql`"rank" DESC, t."date" DESC, t."id"`,
+  date: Prisma.sql`t."date" DESC, t."id"`,
+  account: Prisma.sql`t."accountId", t."date", t."id"`
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+export class TransactionSearchService {
+
+  /**
+   * A page of the user's transactions matching a tsquery (see parseSearchQuery) and
+   * the list filters. Filters apply in the same query as the text match, so pages
+   * and counts cover every match. By relevance, name and merchant weigh more than
+   * notes, and notes more than categories; ties go to the most recent.
+   */
+  static async search(
+    userId: string,
+    tsquery: string,
+    filters: TransactionFilters,
+    page: { order: SearchOrder; skip?: number; take?: number }
+  ): Promise<SearchMatch[]> {
+    return prisma.$queryRaw<SearchMatch[]>`
+      SELECT t."id", ts_rank_cd(t."searchVector", q.query)::float8 AS "rank"
+      FROM "public"."transactions" AS t, to_tsquery('english', ${tsquery}) AS q(query)
+      WHERE ${transactionFilterSql(userId, filters)}
+        AND t."searchVector" @@ q.query
+      ORDER BY ${ORDER_BY[page.order]}
+      ${page.take !== undefined ? Prisma.sql`LIMIT ${page.take}` : Prisma.empty}
+      OFFSET ${page.skip || 0}
+    `;
+  }
+
+  /**
+   * How many transactions match a search and the list filters, and what they add up to
+   */
+  static async summarize(userId: string, tsquery: string, filters: TransactionFilters): Promise<SearchSummary> {
+    const [summary] = await prisma.$queryRaw<SearchSummary[]>`
+      SELECT
+        COUNT(*)::int AS "count",
+        COALESCE(SUM(t."amount"), 0)::float8 AS "totalAmount",
+        COALESCE(-SUM(t."amount") FILTER (WHERE t."amount" < 0), 0)::float8 AS "income",
+        COUNT(*) FILTER (WHERE t."amount" < 0)::int AS "incomeCount",
+        COALESCE(SUM(t."amount") FILTER (WHERE t."amount" > 0), 0)::float8 AS "expenses",
+        COUNT(*) FILTER (WHERE t."amount" > 0)::int AS "expenseCount"
+      FROM "public"."transactions" AS t, to_tsquery('english', ${tsquery}) AS q(query)
+      WHERE ${transactionFilterSql(userId, filters)}
+        AND t."searchVector" @@ q.query
+    `;
+    return summary;
+  }
+
+  /**
+   * Snippets of the name, merchant and notes of some transactions with the matching
+   * words highlighted in <mark> tags. The rest of the text is HTML-escaped, so a
+   * snippet is safe to render as HTML.
+   */
+  static async snippets(transactionIds: string[], tsquery: string) {
+    if (transactionIds.length === 0) return new Map<string, string>();
+
+    const rows = await prisma.$queryRaw<Array<{ id: string; snippet: string }>>`
+      SELECT t."id", ts_headline(
+        'english',
+        concat_ws(' · ', t."name", t."merchantName", t."notes"),
+        to_tsquery('english', ${tsquery}),
+        ${HEADLINE_OPTIONS}
+      ) AS "snippet"
+      FROM "public"."transactions" AS t
+      WHERE t."id" IN (${Prisma.join(transactionIds)})
+    `;
+
+    return new Map(rows.map(row => [
+      row.id,
+      escapeHtml(row.snippet).split(MATCH_START).join('<mark>').split(MATCH_END).join('</mark>')
+    ]));
+  }
+}
@@ -0,0 +1,87 @@
+import { prisma } from '../lib/prisma';
+import { Prisma, Transaction } from '../../prisma/generated/prisma';
+import { BudgetSyncService } from './budgetSyncService';
+
+export interface SplitInput {
+  amount: number;
+  category: string;
+  note?: string | null;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export class TransactionSplitService {
+
+  /**
+   * Why a set of splits can't be saved on a transaction, or null if it can. An
+   * empty set is fine and removes the split.
+   */
+  static checkSplits(transaction: Transaction, splits: SplitInput[]): string | null {
+    if (splits.length === 0) return null;
+
+    if (splits.length < 2) {
+      return 'A split needs at least two parts';
+    }
+
+    const categories = new Set(splits.map(split => split.category));
+    if (categories.size !== splits.length) {
+      return 'Each category can only appear once in a split';
+    }
+
+    // Parts all go the same way as the transaction, so expenses stay expenses
+    if (splits.some(split => split.amount === 0 || Math.sign(split.amount) !== Math.sign(transaction.amount))) {
+      return 'Split amounts must be non-zero and have the same sign as the transaction';
+    }
+
+    const total = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+    if (total !== toCents(transaction.amount)) {
+      return `Splits add up to ${(total / 100).toFixed(2)} but the transaction is ${transaction.amount.toFixed(2)}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace a transaction's splits. Budgets are recalculated since spending moves
+   * between categories.
+   */
+  static async replaceSplits(transaction: Transaction, splits: SplitInput[]) {
+    const saved = await prisma.$transaction(async tx => {
+      await tx.transactionSplit.deleteMany({ where: { transactionId: transaction.id } });
+      await tx.transactionSplit.createMany({
+        data: splits.map(split => ({
+          transactionId: transaction.id,
+          amount: split.amount,
+          category: split.category,
+          note: split.note || null
+        }))
+      });
+      return tx.transactionSplit.findMany({
+        where: { transactionId: transaction.id },
+        orderBy: { amount: 'desc' }
+      });
+    });
+
+    await BudgetSyncService.syncUserBudgets(transaction.userId);
+    return saved;
+  }
+
+  /**
+   * Drop splits that no longer add up because the transaction's amount changed
+   * (a tip added when a charge posts, an edited manual entry). The transaction
+   * falls back to its own category.
+   */
+  static async clearStaleSplits(transactionIds: string[], client: Prisma.TransactionClient = prisma) {
+    if (transactionIds.length === 0) return 0;
+
+    return client.$executeRaw`
+      DELETE FROM "public"."transaction_splits" AS s
+      USING "public"."transactions" AS t
+      WHERE s."transactionId" = t."id"
+        AND t."id" IN (${Prisma.join(transactionIds)})
+        AND ABS(t."amount" - (
+          SELECT SUM(x."amount") FROM "public"."transaction_splits" AS x WHERE x."transactionId" = t."id"
+        )) >= 0.005
+    `;
+  }
+}
@@ -1,26 +1,53 @@
-import { Configuration, PlaidApi, PlaidEnvironments, CountryCode } from 'plaid';
+import { getBankDataProvider } from '../lib/bankDataProvider';
 import { prisma } from '../lib/prisma';
+import { getAccessToken } from '../lib/tokenEncryption';
+import { getProviderErrorCode, ProviderAccount, ProviderTransaction } from '../providers/bankDataProvider';
+import { PlaidItem, Prisma, SyncStatus, Transaction } from '../../prisma/generated/prisma';
+import { AttachmentService } from './attachmentService';
+import { BalanceHistoryService } from './balanceHistoryService';
 import { BudgetSyncService } from './budgetSyncService';
+import { InvestmentService, INVESTMENTS_ENABLED } from './investmentService';
+import { LiabilityService, LIABILITIES_ENABLED } from './liabilityService';
+import { MerchantResolver, MerchantService } from './merchantService';
 import { SmartCategorizationService } from './smartCategorizationService';
+import { TransactionSplitService } from './transactionSplitService';
+import { DateSpan, spanOfDates, TransferService } from './transferService';
 
-const configuration = new Configuration({
-  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments || 'sandbox'],
-  baseOptions: {
-    headers: {
-      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID,
-      'PLAID-SECRET': process.env.PLAID_SECRET,
-    },
-  },
-});
+// /transactions/sync paging
+const SYNC_PAGE_SIZE = 500;
+const INITIAL_HISTORY_DAYS = 365;
+const MAX_PAGINATION_RESTARTS = 3;
 
-const plaidClient = new PlaidApi(configuration);
+// Rows per createMany / bulk update / id lookup, well under Postgres' bind parameter limit
+const WRITE_BATCH_SIZE = 500;
+// Writes for a whole sync happen in one database transaction, which can take a while on a first sync
+const SYNC_WRITE_TIMEOUT_MS = 120 * 1000;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Plaid error codes that can only be fixed by the user re-authenticating in Link update mode
+const REAUTH_ERROR_CODES = [
+  'ITEM_LOGIN_REQUIRED',
+  'INVALID_ACCESS_TOKEN',
+  'PENDING_EXPIRATION',
+  'USER_PERMISSION_REVOKED'
+];
 
 interface SyncResult {
   success: boolean;
   newTransactions: number;
   updatedTransactions: number;
+  removedTransactions: number;
   newAccounts: number;
+  changedDates?: DateSpan | null; // Dates of the transactions added or changed, for transfer detection
   error?: string;
+  errorCode?: string; // Provider error code when the sync failed
 }
 
 class EnhancedCategoryService {
@@ -189,40 +216,43 @@ class EnhancedCategoryService {
 export class TransactionSyncService {
   
   /**
-   * Sync transactions for a specific user
+   * Sync transactions for every item a user has linked. The trigger is recorded
+   * on each item's run in the sync history.
    */
-  static async syncUserTransactions(userId: string): Promise<SyncResult> {
+  static async syncUserTransactions(userId: string, trigger: string = 'manual'): Promise<SyncResult> {
     try {
       console.log(`Starting sync for user ${userId}`);
       
-      // Initialize smart categorization patterns
-      await SmartCategorizationService.initializePatterns();
-      
+      const items = await prisma.plaidItem.findMany({
+        where: { userId },
+        select: { id: true }
+      });
+  
+      if (items.length === 0) {
+        throw new Error('User has no Plaid connection');
+      }
+
       // Update sync status
       await prisma.user.update({
         where: { id: userId },
         data: { syncStatus: 'SYNCING' }
       });
-  
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { 
-          plaidAccessToken: true, 
-          plaidItemId: true,
-          lastSyncAt: true
-        }
-      });
-  
-      if (!user?.plaidAccessToken) {
-        throw new Error('User has no Plaid connection');
+
+      // Initialize smart categorization patterns
+      await SmartCategorizationService.initializePatterns(userId);
+
+      const results: SyncResult[] = [];
+      for (const item of items) {
+        results.push(await this.syncItemData(item.id, trigger));
       }
   
-      // Sync accounts first
-      const accountsResult = await this.syncAccounts(userId, user.plaidAccessToken);
-      
-      // Then sync transactions with enhanced categorization
-      const transactionsResult = await this.syncTransactions(userId, user.plaidAccessToken, user.lastSyncAt);
-  
+      try {
+        const changed = results.flatMap(result => result.changedDates ? [result.changedDates.from, result.changedDates.to] : []);
+        await TransferService.detectTransfers(userId, spanOfDates(changed));
+      } catch (transferError) {
+        console.error(`Transfer detection failed for user ${userId}:`, transferError);
+      }
+
       // Budget sync
       console.log(`Syncing budgets for user ${userId}`);
       try {
@@ -231,39 +261,47 @@ export class TransactionSyncService {
       } catch (budgetError) {
         console.error(`Budget sync failed for user ${userId}:`, budgetError);
       }
+
+      const failed = results.filter(result => !result.success);
   
       // Update user's last sync time and status
       await prisma.user.update({
         where: { id: userId },
         data: { 
           lastSyncAt: new Date(),
-          syncStatus: 'SYNCED'
+          syncStatus: failed.length > 0 ? 'ERROR' : 'SYNCED'
         }
       });
+
+      const result: SyncResult = {
+        success: failed.length === 0,
+        newTransactions: results.reduce((sum, r) => sum + r.newTransactions, 0),
+        updatedTransactions: results.reduce((sum, r) => sum + r.updatedTransactions, 0),
+        removedTransactions: results.reduce((sum, r) => sum + r.removedTransactions, 0),
+        newAccounts: results.reduce((sum, r) => sum + r.newAccounts, 0)
+      };
+
+      if (failed.length > 0) {
+        result.error = failed.map(r => r.error).join('; ');
+      }
   
-      console.log(`Sync completed for user ${userId}: ${transactionsResult.newTransactions} new, ${transactionsResult.updatedTransactions} updated`);
+      console.log(`Sync completed for user ${userId}: ${result.newTransactions} new, ${result.updatedTransactions} updated, ${result.removedTransactions} removed across ${items.length} items`);
   
-      return {
-        success: true,
-        newTransactions: transactionsResult.newTransactions,
-        updatedTransactions: transactionsResult.updatedTransactions,
-        newAccounts: accountsResult.newAccounts
-      };
+      return result;
   
     } catch (error: any) {
       console.error(`Sync failed for user ${userId}:`, error);
       
-      // Update error status
-      const syncStatus = error.message.includes('INVALID_ACCESS_TOKEN') ? 'TOKEN_EXPIRED' : 'ERROR';
       await prisma.user.update({
         where: { id: userId },
-        data: { syncStatus }
+        data: { syncStatus: 'ERROR' }
       });
   
       return {
         success: false,
         newTransactions: 0,
         updatedTransactions: 0,
+        removedTransactions: 0,
         newAccounts: 0,
         error: error.message
       };
@@ -271,62 +309,320 @@ export class TransactionSyncService {
   }
 
   /**
-   * Sync accounts for a user
+   * Sync a single linked item and recalculate the owner's budgets
    */
-  private static async syncAccounts(userId: string, accessToken: string) {
-    console.log(`Syncing accounts for user ${userId}`);
-    
+  static async syncItem(itemId: string, trigger: string = 'manual'): Promise<SyncResult> {
+    const item = await prisma.plaidItem.findUnique({
+      where: { id: itemId },
+      select: { userId: true }
+    });
+
+    if (item) {
+      await SmartCategorizationService.initializePatterns(item.userId);
+    }
+
+    const result = await this.syncItemData(itemId, trigger);
+
+    if (item) {
+      try {
+        await TransferService.detectTransfers(item.userId, result.changedDates || null);
+      } catch (transferError) {
+        console.error(`Transfer detection failed for user ${item.userId}:`, transferError);
+      }
+
+      try {
+        await BudgetSyncService.syncUserBudgets(item.userId);
+      } catch (budgetError) {
+        console.error(`Budget sync failed for user ${item.userId}:`, budgetError);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Sync accounts and transactions for one item, tracking status on the item row
+   * and recording the run in the sync history
+   */
+  private static async syncItemData(itemId: string, trigger: string): Promise<SyncResult> {
+    const startedAt = new Date();
+    let newAccounts = 0;
+
     try {
-      const accountsResponse = await plaidClient.accountsGet({
-        access_token: accessToken,
+      const item = await prisma.plaidItem.update({
+        where: { id: itemId },
+        data: { syncStatus: 'SYNCING' }
       });
 
-      console.log(`Found ${accountsResponse.data.accounts.length} accounts from Plaid`);
+      console.log(`Syncing item ${item.plaidItemId} (${item.institutionName || 'Unknown institution'})`);
 
-      let newAccounts = 0;
-      let updatedAccounts = 0;
+      const accessToken = getAccessToken(item);
 
-      for (const plaidAccount of accountsResponse.data.accounts) {
-        console.log(`Processing account: ${plaidAccount.name} (${plaidAccount.account_id})`);
-        
-        const existingAccount = await prisma.account.findUnique({
-          where: { plaidAccountId: plaidAccount.account_id }
-        });
+      // Sync accounts first
+      const accountsResult = await this.syncAccounts(item.userId, item.id, accessToken);
+      newAccounts = accountsResult.newAccounts;
+      
+      // Then apply transaction updates since the item's cursor
+      const transactionsResult = await this.syncTransactions(item.userId, item.id, accessToken, item.cursor);
 
-        const accountData = {
-          name: plaidAccount.name,
-          officialName: plaidAccount.official_name || null,
-          type: plaidAccount.type,
-          subtype: plaidAccount.subtype || 'unknown',
-          mask: plaidAccount.mask || null,
-          currentBalance: plaidAccount.balances.current || 0,
-          availableBalance: plaidAccount.balances.available || null,
-          creditLimit: plaidAccount.balances.limit || null,
-          lastUpdatedAt: new Date()
-        };
-
-        if (existingAccount) {
-          await prisma.account.update({
-            where: { id: existingAccount.id },
-            data: accountData
-          });
-          updatedAccounts++;
-          console.log(`✅ Updated account: ${plaidAccount.name}`);
-        } else {
-          const newAccount = await prisma.account.create({
-            data: {
-              plaidAccountId: plaidAccount.account_id,
-              userId,
-              ...accountData
-            }
-          });
-          newAccounts++;
-          console.log(`✅ Created new account: ${plaidAccount.name} (ID: ${newAccount.id})`);
+      // The first sync brings in history, so balances before the first snapshot can be reconstructed
+      if (!item.cursor) {
+        try {
+          await BalanceHistoryService.backfillItem(item.id);
+        } catch (backfillError) {
+          console.warn(`Balance backfill failed for item ${itemId}:`, backfillError);
+        }
+      }
+
+      // Holdings are best effort: a brokerage that is slow to report shouldn't fail the sync
+      if (INVESTMENTS_ENABLED) {
+        try {
+          await InvestmentService.syncItemInvestments(item.userId, item.id, accessToken);
+        } catch (investmentError) {
+          console.warn(`Investment sync failed for item ${itemId}:`, getProviderErrorCode(investmentError) || investmentError);
         }
       }
 
-      console.log(`Account sync completed: ${newAccounts} new, ${updatedAccounts} updated`);
-      return { newAccounts, updatedAccounts };
+      if (LIABILITIES_ENABLED) {
+        try {
+          await LiabilityService.syncItemLiabilities(item.userId, item.id, accessToken);
+        } catch (liabilityError) {
+          console.warn(`Liability sync failed for item ${itemId}:`, getProviderErrorCode(liabilityError) || liabilityError);
+        }
+      }
+
+      await prisma.plaidItem.update({
+        where: { id: itemId },
+        data: {
+          lastSyncAt: new Date(),
+          syncStatus: 'SYNCED',
+          // A pending consent expiration still needs update mode even though syncs work
+          errorCode: item.errorCode === 'PENDING_EXPIRATION' ? item.errorCode : null
+        }
+      });
+
+      const result: SyncResult = {
+        success: true,
+        newTransactions: transactionsResult.newTransactions,
+        updatedTransactions: transactionsResult.updatedTransactions,
+        removedTransactions: transactionsResult.removedTransactions,
+        newAccounts,
+        changedDates: transactionsResult.changedDates
+      };
+
+      await this.recordRun(itemId, trigger, startedAt, result, transactionsResult.categoryDistribution);
+      return result;
+
+    } catch (error: any) {
+      console.error(`Sync failed for item ${itemId}:`, error);
+
+      // Update error status
+      const errorCode = getProviderErrorCode(error);
+      await prisma.plaidItem.updateMany({
+        where: { id: itemId },
+        data: {
+          syncStatus: this.itemStatusForError(errorCode),
+          errorCode: errorCode || null
+        }
+      });
+
+      const result: SyncResult = {
+        success: false,
+        newTransactions: 0,
+        updatedTransactions: 0,
+        removedTransactions: 0,
+        newAccounts,
+        error: error.message,
+        errorCode
+      };
+
+      await this.recordRun(itemId, trigger, startedAt, result);
+      return result;
+    }
+  }
+
+  /**
+   * Save a sync run to the history. A failure here is logged rather than failing the sync.
+   */
+  private static async recordRun(
+    itemId: string,
+    trigger: string,
+    startedAt: Date,
+    result: SyncResult,
+    categoryDistribution?: Record<string, number>
+  ) {
+    try {
+      const item = await prisma.plaidItem.findUnique({
+        where: { id: itemId },
+        select: { userId: true, institutionName: true }
+      });
+
+      if (!item) {
+        return;
+      }
+
+      await prisma.syncRun.create({
+        data: {
+          userId: item.userId,
+          itemId,
+          institutionName: item.institutionName,
+          trigger,
+          success: result.success,
+          startedAt,
+          finishedAt: new Date(),
+          newTransactions: result.newTransactions,
+          updatedTransactions: result.updatedTransactions,
+          removedTransactions: result.removedTransactions,
+          newAccounts: result.newAccounts,
+          categoryDistribution,
+          errorCode: result.errorCode || null,
+          errorMessage: result.error || null
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to record sync run for item ${itemId}:`, error);
+    }
+  }
+
+  /**
+   * Most recent sync runs for a user, optionally for a single item
+   */
+  static async getSyncHistory(userId: string, options: { itemId?: string; limit?: number } = {}) {
+    const runs = await prisma.syncRun.findMany({
+      where: {
+        userId,
+        ...(options.itemId && { itemId: options.itemId })
+      },
+      orderBy: { startedAt: 'desc' },
+      take: options.limit || 20
+    });
+
+    // When data last actually changed, which can be older than the last run
+    const lastChange = await prisma.syncRun.findFirst({
+      where: {
+        userId,
+        success: true,
+        ...(options.itemId && { itemId: options.itemId }),
+        OR: [
+          { newTransactions: { gt: 0 } },
+          { updatedTransactions: { gt: 0 } },
+          { removedTransactions: { gt: 0 } },
+          { newAccounts: { gt: 0 } }
+        ]
+      },
+      orderBy: { startedAt: 'desc' },
+      select: { finishedAt: true }
+    });
+
+    return {
+      lastChangedAt: lastChange?.finishedAt || null,
+      runs: runs.map(run => ({
+        ...run,
+        durationMs: run.finishedAt.getTime() - run.startedAt.getTime()
+      }))
+    };
+  }
+
+  /**
+   * Map a Plaid error code to the item status. Errors that need the user to go
+   * through Link update mode leave the item as TOKEN_EXPIRED so the cron skips it.
+   */
+  static itemStatusForError(errorCode?: string | null): SyncStatus {
+    return errorCode && REAUTH_ERROR_CODES.includes(errorCode) ? 'TOKEN_EXPIRED' : 'ERROR';
+  }
+
+  /**
+   * Whether an item must go through Link update mode before it can sync normally again
+   */
+  static requiresUpdateMode(item: { syncStatus: SyncStatus; errorCode: string | null }): boolean {
+    return item.syncStatus === 'TOKEN_EXPIRED' || item.errorCode === 'PENDING_EXPIRATION';
+  }
+
+  /**
+   * A linked item as the frontend shows it, in the institution list of the Plaid and
+   * accounts routes. Never exposes the access token.
+   */
+  static formatItem(item: PlaidItem) {
+    return {
+      id: item.id,
+      item_id: item.plaidItemId,
+      institution_id: item.institutionId,
+      institution_name: item.institutionName || 'Connected Bank',
+      syncStatus: item.syncStatus,
+      lastSyncAt: item.lastSyncAt,
+      errorCode: item.errorCode,
+      consentExpiresAt: item.consentExpiresAt,
+      updateRequired: this.requiresUpdateMode(item),
+      connected_at: item.createdAt
+    };
+  }
+
+  /**
+   * Sync accounts for one of a user's items, returning what the provider
+   * reported alongside the counts
+   */
+  static async syncAccounts(userId: string, itemId: string, accessToken: string) {
+    console.log(`Syncing accounts for user ${userId}, item ${itemId}`);
+    
+    try {
+      const providerAccounts = await getBankDataProvider().getAccounts(accessToken);
+
+      console.log(`Found ${providerAccounts.length} accounts from provider`);
+
+      const existingAccounts = await prisma.account.findMany({
+        where: { plaidAccountId: { in: providerAccounts.map(a => a.accountId) } },
+        select: { id: true, plaidAccountId: true }
+      });
+      const existingIds = new Map(existingAccounts.map(acc => [acc.plaidAccountId, acc.id]));
+
+      const toAccountData = (plaidAccount: ProviderAccount) => ({
+        name: plaidAccount.name,
+        officialName: plaidAccount.officialName,
+        type: plaidAccount.type,
+        subtype: plaidAccount.subtype || 'unknown',
+        mask: plaidAccount.mask || null,
+        currentBalance: plaidAccount.balances.current || 0,
+        availableBalance: plaidAccount.balances.available || null,
+        creditLimit: plaidAccount.balances.limit || null,
+        // An account that comes back (e.g. after update mode) is open again
+        isActive: true,
+        closedAt: null,
+        lastUpdatedAt: new Date()
+      });
+
+      const { created, updated, closed } = await prisma.$transaction(async tx => {
+        const created = await tx.account.createManyAndReturn({
+          data: providerAccounts
+            .filter(plaidAccount => !existingIds.has(plaidAccount.accountId))
+            .map(plaidAccount => ({
+              plaidAccountId: plaidAccount.accountId,
+              userId,
+              itemId,
+              ...toAccountData(plaidAccount)
+            }))
+        });
+
+        // An item only has a handful of accounts, so these stay individual updates
+        const updated = [];
+        for (const plaidAccount of providerAccounts.filter(a => existingIds.has(a.accountId))) {
+          updated.push(await tx.account.update({
+            where: { id: existingIds.get(plaidAccount.accountId)! },
+            data: { ...toAccountData(plaidAccount), itemId }
+          }));
+        }
+
+        await BalanceHistoryService.recordSnapshots([...created, ...updated], tx);
+        const closed = await this.closeMissingAccounts(itemId, providerAccounts.map(a => a.accountId), tx);
+        return { created, updated, closed };
+      });
+
+      console.log(`Account sync completed: ${created.length} new, ${updated.length} updated, ${closed} closed`);
+      return {
+        accounts: providerAccounts,
+        newAccounts: created.length,
+        updatedAccounts: updated.length,
+        closedAccounts: closed
+      };
 
     } catch (error) {
       console.error('Error syncing accounts:', error);
@@ -335,118 +631,185 @@ export class TransactionSyncService {
   }
 
   /**
-   * Enhanced sync transactions with proper categorization
+   * Archive an item's accounts the provider no longer reports. They stay in the
+   * database with their transactions, but drop out of balances and analytics.
    */
-  private static async syncTransactions(userId: string, accessToken: string, lastSyncAt?: Date | null) {
-    // Determine date range
-    const endDate = new Date().toISOString().split('T')[0];
-    const startDate = lastSyncAt 
-      ? new Date(lastSyncAt.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0]
-      : new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-    console.log(`Fetching transactions from ${startDate} to ${endDate}`);
-
-    const transactionsResponse = await plaidClient.transactionsGet({
-      access_token: accessToken,
-      start_date: startDate,
-      end_date: endDate,
-      options: {
-        count: 500,
-        offset: 0,
-      },
+  static async closeMissingAccounts(
+    itemId: string,
+    reportedAccountIds: string[],
+    client: Prisma.TransactionClient = prisma
+  ) {
+    // An empty list is more likely a provider hiccup than every account closing at once
+    if (reportedAccountIds.length === 0) {
+      return 0;
+    }
+
+    const { count } = await client.account.updateMany({
+      where: { itemId, isActive: true, plaidAccountId: { notIn: reportedAccountIds } },
+      data: { isActive: false, closedAt: new Date() }
     });
 
-    console.log(`Received ${transactionsResponse.data.transactions.length} transactions from Plaid`);
+    if (count > 0) {
+      console.log(`Marked ${count} accounts closed for item ${itemId}`);
+    }
+    return count;
+  }
+
+  /**
+   * Pull every change since the item's cursor from the provider and
+   * apply the added, modified and removed sets to our cached transactions
+   */
+  private static async syncTransactions(userId: string, itemId: string, accessToken: string, cursor?: string | null) {
+    const { added, modified, removed, nextCursor } = await this.fetchTransactionUpdates(accessToken, cursor);
+
+    console.log(`Received ${added.length} added, ${modified.length} modified, ${removed.length} removed transactions`);
 
     // Log some sample categories for debugging
-    if (transactionsResponse.data.transactions.length > 0) {
+    if (added.length > 0) {
       console.log('=== SAMPLE PLAID CATEGORIES ===');
-      transactionsResponse.data.transactions.slice(0, 5).forEach(t => {
-        console.log(`${t.name}: ${JSON.stringify(t.category)} -> merchant: ${t.merchant_name}`);
+      added.slice(0, 5).forEach(t => {
+        console.log(`${t.name}: ${JSON.stringify(t.categories)} -> merchant: ${t.merchantName}`);
       });
       console.log('===============================');
     }
 
-    // Get all user's accounts for mapping
+    // Get the item's accounts for mapping
     const userAccounts = await prisma.account.findMany({
-      where: { userId },
+      where: { userId, itemId },
       select: { id: true, plaidAccountId: true }
     });
     
     const accountMap = new Map(
       userAccounts.map(acc => [acc.plaidAccountId, acc.id])
     );
+    const resolveMerchant = await MerchantService.resolver(userId);
+
+    // Whatever the provider sends last is the latest version of a transaction
+    const latest = new Map<string, ProviderTransaction>();
+    [...added, ...modified].forEach(t => latest.set(t.transactionId, t));
 
-    let newTransactions = 0;
-    let updatedTransactions = 0;
+    // One lookup for every stored row we might touch, including pending rows being replaced
+    const existing = await this.findExistingTransactions([
+      ...Array.from(latest.keys()),
+      ...Array.from(latest.values())
+        .map(t => t.pendingTransactionId)
+        .filter((id): id is string => !!id)
+    ]);
+
+    const creates = new Map<string, Prisma.TransactionCreateManyInput>(); // by plaidTransactionId
+    const updates = new Map<string, Prisma.TransactionCreateManyInput>(); // by row id
+    const replacedPendingIds = new Set<string>();
+    const superseded = new Map<string, string>(); // pending row id -> posted row id replacing it
+    let reconciledTransactions = 0;
     let categorizationStats: Record<string, number> = {};
 
-    for (const plaidTransaction of transactionsResponse.data.transactions) {
-      const accountId = accountMap.get(plaidTransaction.account_id);
+    for (const plaidTransaction of Array.from(latest.values())) {
+      const accountId = accountMap.get(plaidTransaction.accountId);
       if (!accountId) {
-        console.warn(`Account not found for transaction: ${plaidTransaction.transaction_id}`);
+        console.warn(`Account not found for transaction: ${plaidTransaction.transactionId}`);
         continue;
       }
 
-      const enhancedCategory = EnhancedCategoryService.categorizeTransaction(
-        plaidTransaction.category || [],
-        plaidTransaction.merchant_name || '',
-        plaidTransaction.name || '',
-        plaidTransaction.amount
-      );
+      const transactionData = await this.buildTransactionData(userId, accountId, plaidTransaction, resolveMerchant);
 
       // Track categorization for debugging
-      categorizationStats[enhancedCategory] = (categorizationStats[enhancedCategory] || 0) + 1;
-
-      const existingTransaction = await prisma.transaction.findUnique({
-        where: { plaidTransactionId: plaidTransaction.transaction_id }
-      });
+      const category = transactionData.primaryCategory;
+      categorizationStats[category] = (categorizationStats[category] || 0) + 1;
 
-      // Apply smart categorization
-      const smartCategory = await SmartCategorizationService.categorizeTransaction(
-        plaidTransaction.name,
-        plaidTransaction.merchant_name || undefined,
-        plaidTransaction.category || undefined
-      );
+      const existingTransaction = existing.get(plaidTransaction.transactionId);
+      if (existingTransaction && replacedPendingIds.has(existingTransaction.id)) {
+        // Already replaced by its posted version earlier in this batch
+        continue;
+      }
 
-      // Use smart categorization if confidence is high, otherwise fall back to enhanced category
-      const finalCategory = smartCategory.confidence > 0.7 ? smartCategory.category : enhancedCategory;
+      // A posted transaction gets a new id and points back at the pending one it replaces
+      const pendingId = plaidTransaction.pendingTransactionId;
+      const storedPending = pendingId ? existing.get(pendingId) : undefined;
+      const pendingTransaction = storedPending && storedPending.userId === userId && !replacedPendingIds.has(storedPending.id)
+        ? storedPending
+        : null;
 
-      const transactionData = {
-        plaidTransactionId: plaidTransaction.transaction_id,
-        userId,
-        accountId,
-        name: plaidTransaction.name,
-        merchantName: plaidTransaction.merchant_name,
-        amount: plaidTransaction.amount,
-        date: new Date(plaidTransaction.date),
-        authorizedDate: plaidTransaction.authorized_date ? new Date(plaidTransaction.authorized_date) : null,
-        
-        // Store ALL category information
-        primaryCategory: finalCategory, // Smart categorization result
-        detailedCategory: plaidTransaction.category?.[1] || null, // Plaid's secondary category
-        categories: plaidTransaction.category || [], // Full Plaid category hierarchy
-        
-        pending: plaidTransaction.pending,
-        city: plaidTransaction.location?.city || null,
-        region: plaidTransaction.location?.region || null,
-        country: plaidTransaction.location?.country || null,
-      };
+      if (pendingId && creates.delete(pendingId)) {
+        // The pending version arrived in this same batch, so it never needs storing
+        reconciledTransactions++;
+      }
 
       if (existingTransaction) {
-        await prisma.transaction.update({
-          where: { id: existingTransaction.id },
-          data: transactionData
-        });
-        updatedTransactions++;
+        updates.set(existingTransaction.id, this.withUserEdits(transactionData, existingTransaction, pendingTransaction));
+        if (pendingTransaction) {
+          replacedPendingIds.add(pendingTransaction.id);
+          updates.delete(pendingTransaction.id);
+          superseded.set(pendingTransaction.id, existingTransaction.id);
+          reconciledTransactions++;
+        }
+      } else if (pendingTransaction) {
+        // Turn the pending row into the posted one, so it isn't counted twice and keeps its id
+        replacedPendingIds.add(pendingTransaction.id);
+        updates.set(pendingTransaction.id, this.withUserEdits(transactionData, pendingTransaction));
+        reconciledTransactions++;
       } else {
-        await prisma.transaction.create({
-          data: transactionData
-        });
-        newTransactions++;
+        creates.set(plaidTransaction.transactionId, transactionData);
       }
     }
 
+    if (reconciledTransactions > 0) {
+      console.log(`Reconciled ${reconciledTransactions} pending transactions with their posted versions`);
+    }
+
+    // Nothing to store for transactions that were added and removed within the same batch
+    removed.forEach(id => creates.delete(id));
+
+    const { removedCount: removedTransactions, removedAttachments } = await prisma.$transaction(async tx => {
+      await resolveMerchant.save(tx, [...Array.from(creates.values()), ...Array.from(updates.values())]);
+
+      for (const batch of chunk(Array.from(creates.values()), WRITE_BATCH_SIZE)) {
+        await tx.transaction.createMany({ data: batch });
+      }
+
+      // Ahead of the updates, so splits that no longer add up to the posted amount get cleared
+      for (const [pendingRowId, postedRowId] of superseded) {
+        await this.moveUserData(tx, pendingRowId, postedRowId);
+      }
+
+      for (const batch of chunk(Array.from(updates.entries()), WRITE_BATCH_SIZE)) {
+        await this.bulkUpdateTransactions(tx, batch);
+        await TransactionSplitService.clearStaleSplits(batch.map(([id]) => id), tx);
+      }
+
+      if (superseded.size > 0) {
+        await tx.transaction.deleteMany({ where: { id: { in: Array.from(superseded.keys()) } } });
+      }
+
+      // Drop anything the provider no longer reports (e.g. pending transactions that vanished)
+      let removedCount = 0;
+      const removedAttachments: Array<{ storageKey: string }> = [];
+      for (const batch of chunk(removed, WRITE_BATCH_SIZE)) {
+        removedAttachments.push(...await tx.attachment.findMany({
+          where: { transaction: { userId, plaidTransactionId: { in: batch } } },
+          select: { storageKey: true }
+        }));
+        const { count } = await tx.transaction.deleteMany({
+          where: { userId, plaidTransactionId: { in: batch } }
+        });
+        removedCount += count;
+      }
+
+      // The cursor only moves if every change above is committed with it
+      await tx.plaidItem.update({
+        where: { id: itemId },
+        data: { cursor: nextCursor }
+      });
+
+      return { removedCount, removedAttachments };
+    }, { timeout: SYNC_WRITE_TIMEOUT_MS });
+
+    // Files go once their rows are committed as deleted
+    await AttachmentService.deleteFiles(removedAttachments);
+
+    const newTransactions = creates.size;
+    const updatedTransactions = updates.size;
+    const changedDates = spanOfDates([...Array.from(creates.values()), ...Array.from(updates.values())].map(t => new Date(t.date)));
+
     // Log categorization results
     console.log('=== CATEGORIZATION RESULTS ===');
     Object.entries(categorizationStats)
@@ -456,7 +819,262 @@ export class TransactionSyncService {
       });
     console.log('==============================');
 
-    return { newTransactions, updatedTransactions };
+    return { newTransactions, updatedTransactions, removedTransactions, changedDates, categoryDistribution: categorizationStats };
+  }
+
+  /**
+   * Store transactions fetched outside the sync feed, such as a history backfill.
+   * Rows we already have are skipped rather than updated, so user edits survive.
+   */
+  static async insertMissingTransactions(userId: string, itemId: string, transactions: ProviderTransaction[]) {
+    const accounts = await prisma.account.findMany({
+      where: { userId, itemId },
+      select: { id: true, plaidAccountId: true }
+    });
+    const accountMap = new Map(accounts.map(acc => [acc.plaidAccountId, acc.id]));
+    const resolveMerchant = await MerchantService.resolver(userId);
+
+    const rows: Prisma.TransactionCreateManyInput[] = [];
+    for (const transaction of transactions) {
+      const accountId = accountMap.get(transaction.accountId);
+      // Pending transactions are the sync feed's job, they'll post or disappear
+      if (!accountId || transaction.pending) continue;
+      rows.push(await this.buildTransactionData(userId, accountId, transaction, resolveMerchant));
+    }
+
+    return prisma.$transaction(async tx => {
+      await resolveMerchant.save(tx, rows);
+
+      let inserted = 0;
+      for (const batch of chunk(rows, WRITE_BATCH_SIZE)) {
+        const { count } = await tx.transaction.createMany({ data: batch, skipDuplicates: true });
+        inserted += count;
+      }
+      return inserted;
+    }, { timeout: SYNC_WRITE_TIMEOUT_MS });
+  }
+
+  /**
+   * Page through the provider's sync feed until hasMore is false. If it reports the
+   * data changed mid-pagination the whole loop restarts from the original cursor.
+   */
+  private static async fetchTransactionUpdates(accessToken: string, cursor?: string | null) {
+    for (let attempt = 1; ; attempt++) {
+      const added: ProviderTransaction[] = [];
+      const modified: ProviderTransaction[] = [];
+      const removed: string[] = [];
+      let nextCursor = cursor || undefined;
+      let hasMore = true;
+
+      try {
+        while (hasMore) {
+          const page = await getBankDataProvider().syncTransactions(accessToken, nextCursor, {
+            count: SYNC_PAGE_SIZE,
+            daysRequested: INITIAL_HISTORY_DAYS
+          });
+
+          added.push(...page.added);
+          modified.push(...page.modified);
+          removed.push(...page.removed);
+          hasMore = page.hasMore;
+          nextCursor = page.nextCursor;
+        }
+
+        return { added, modified, removed, nextCursor: nextCursor || null };
+
+      } catch (error) {
+        if (getProviderErrorCode(error) === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' && attempt < MAX_PAGINATION_RESTARTS) {
+          console.warn(`Transactions changed during pagination, restarting sync (attempt ${attempt})`);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Stored transactions by plaidTransactionId, looked up in chunks
+   */
+  private static async findExistingTransactions(plaidTransactionIds: string[]) {
+    const existing = new Map<string, Pick<Transaction, 'id' | 'userId' | 'plaidTransactionId' | 'notes' | 'primaryCategory' | 'categoryOverridden'>>();
+
+    for (const batch of chunk(Array.from(new Set(plaidTransactionIds)), WRITE_BATCH_SIZE)) {
+      const rows = await prisma.transaction.findMany({
+        where: { plaidTransactionId: { in: batch } },
+        select: { id: true, userId: true, plaidTransactionId: true, notes: true, primaryCategory: true, categoryOverridden: true }
+      });
+      rows.forEach(row => existing.set(row.plaidTransactionId!, row));
+    }
+
+    return existing;
+  }
+
+  /**
+   * Update many transactions in one statement. Notes and the category override are
+   * only ever set here, never cleared, since they come from the user.
+   */
+  private static async bulkUpdateTransactions(
+    tx: Prisma.TransactionClient,
+    rows: Array<[string, Prisma.TransactionCreateManyInput]>
+  ) {
+    const payload = JSON.stringify(rows.map(([id, data]) => ({ ...data, id })));
+
+    await tx.$executeRaw`
+      UPDATE "public"."transactions" AS t
+      SET "plaidTransactionId" = v."plaidTransactionId",
+          "accountId" = v."accountId",
+          "name" = v."name",
+          "merchantName" = v."merchantName",
+          "merchantId" = v."merchantId",
+          "amount" = v."amount",
+          "date" = v."date",
+          "authorizedDate" = v."authorizedDate",
+          "primaryCategory" = v."primaryCategory",
+          "detailedCategory" = v."detailedCategory",
+          "categories" = ARRAY(SELECT jsonb_array_elements_text(v."categories")),
+          "categoryOverridden" = COALESCE(v."categoryOverridden", t."categoryOverridden"),
+          "notes" = COALESCE(v."notes", t."notes"),
+          "pending" = v."pending",
+          "pendingTransactionId" = v."pendingTransactionId",
+          "city" = v."city",
+          "region" = v."region",
+          "country" = v."country",
+          "updatedAt" = NOW()
+      FROM jsonb_to_recordset(${payload}::jsonb) AS v(
+        "id" TEXT,
+        "plaidTransactionId" TEXT,
+        "accountId" TEXT,
+        "name" TEXT,
+        "merchantName" TEXT,
+        "merchantId" TEXT,
+        "amount" DOUBLE PRECISION,
+        "date" TIMESTAMP(3),
+        "authorizedDate" TIMESTAMP(3),
+        "primaryCategory" TEXT,
+        "detailedCategory" TEXT,
+        "categories" JSONB,
+        "categoryOverridden" BOOLEAN,
+        "notes" TEXT,
+        "pending" BOOLEAN,
+        "pendingTransactionId" TEXT,
+        "city" TEXT,
+        "region" TEXT,
+        "country" TEXT
+      )
+      WHERE t."id" = v."id"
+    `;
+  }
+
+  /**
+   * Keep what the user changed on a stored row (or the pending row it replaces) when
+   * applying the provider's latest version: notes and a manually chosen category
+   */
+  private static withUserEdits<T extends { primaryCategory: string }>(
+    transactionData: T,
+    ...edited: Array<Pick<Transaction, 'notes' | 'primaryCategory' | 'categoryOverridden'> | null>
+  ) {
+    const categorized = edited.find(t => t?.categoryOverridden);
+    const annotated = edited.find(t => t?.notes);
+
+    return {
+      ...transactionData,
+      ...(categorized && { primaryCategory: categorized.primaryCategory || transactionData.primaryCategory, categoryOverridden: true }),
+      ...(annotated && { notes: annotated.notes })
+    };
+  }
+
+  /**
+   * Hand a row's splits, tags and attachments to the row replacing it. Splits only
+   * move if the replacement has none of its own.
+   */
+  private static async moveUserData(tx: Prisma.TransactionClient, fromId: string, toId: string) {
+    const existingSplits = await tx.transactionSplit.count({ where: { transactionId: toId } });
+    if (existingSplits === 0) {
+      await tx.transactionSplit.updateMany({
+        where: { transactionId: fromId },
+        data: { transactionId: toId }
+      });
+    }
+
+    const tags = await tx.transactionTag.findMany({
+      where: { transactionId: fromId },
+      select: { tagId: true }
+    });
+    await tx.transactionTag.createMany({
+      data: tags.map(({ tagId }) => ({ transactionId: toId, tagId })),
+      skipDuplicates: true
+    });
+
+    await tx.attachment.updateMany({
+      where: { transactionId: fromId },
+      data: { transactionId: toId }
+    });
+  }
+
+  /**
+   * Pick a category for a transaction, synced or entered by hand
+   */
+  static async categorize(userId: string, name: string, merchantName: string | null, categories: string[], amount: number) {
+    const enhancedCategory = EnhancedCategoryService.categorizeTransaction(
+      categories,
+      merchantName || '',
+      name || '',
+      amount
+    );
+
+    // Apply smart categorization
+    const smartCategory = await SmartCategorizationService.categorizeTransaction(
+      userId,
+      name,
+      merchantName || undefined,
+      categories.length > 0 ? categories : undefined
+    );
+
+    // Use smart categorization if confidence is high, otherwise fall back to enhanced category
+    return smartCategory.confidence > 0.7 ? smartCategory.category : enhancedCategory;
+  }
+
+  /**
+   * Map a provider transaction onto our Transaction columns, applying categorization.
+   * A merchant's default category wins over the categorizers.
+   */
+  private static async buildTransactionData(
+    userId: string,
+    accountId: string,
+    plaidTransaction: ProviderTransaction,
+    resolveMerchant: MerchantResolver
+  ) {
+    const merchant = resolveMerchant.resolve(plaidTransaction.name, plaidTransaction.merchantName);
+    const finalCategory = merchant?.defaultCategory || await this.categorize(
+      userId,
+      plaidTransaction.name,
+      plaidTransaction.merchantName,
+      plaidTransaction.categories,
+      plaidTransaction.amount
+    );
+
+    return {
+      plaidTransactionId: plaidTransaction.transactionId,
+      userId,
+      accountId,
+      name: plaidTransaction.name,
+      merchantName: plaidTransaction.merchantName,
+      merchantId: merchant ? merchant.id : null,
+      amount: plaidTransaction.amount,
+      date: new Date(plaidTransaction.date),
+      authorizedDate: plaidTransaction.authorizedDate ? new Date(plaidTransaction.authorizedDate) : null,
+      
+      // Store ALL category information
+      primaryCategory: finalCategory, // Smart categorization result
+      detailedCategory: plaidTransaction.categories[1] || null, // Plaid's secondary category
+      categories: plaidTransaction.categories, // Full Plaid category hierarchy
+      
+      pending: plaidTransaction.pending,
+      pendingTransactionId: plaidTransaction.pendingTransactionId,
+      city: plaidTransaction.location.city,
+      region: plaidTransaction.location.region,
+      country: plaidTransaction.location.country,
+    };
   }
 
   /**
@@ -468,11 +1086,22 @@ export class TransactionSyncService {
       select: {
         syncStatus: true,
         lastSyncAt: true,
-        plaidItemId: true
+        plaidItems: {
+          select: {
+            id: true,
+            plaidItemId: true,
+            institutionName: true,
+            syncStatus: true,
+            lastSyncAt: true,
+            errorCode: true,
+            consentExpiresAt: true
+          },
+          orderBy: { createdAt: 'asc' }
+        }
       }
     });
 
-    if (!user?.plaidItemId) {
+    if (!user || user.plaidItems.length === 0) {
       return { connected: false, status: 'NEVER_SYNCED' };
     }
 
@@ -484,23 +1113,27 @@ export class TransactionSyncService {
       connected: true,
       status: user.syncStatus,
       lastSyncAt: user.lastSyncAt,
-      transactionCount
+      transactionCount,
+      items: user.plaidItems.map(item => ({
+        ...item,
+        updateRequired: this.requiresUpdateMode(item)
+      }))
     };
   }
 
   /**
    * Force a full resync
    */
-  static async fullResync(userId: string): Promise<SyncResult> {
+  static async fullResync(userId: string, trigger: string = 'manual'): Promise<SyncResult> {
     console.log(`Starting full resync for user ${userId}`);
     
-    // Clear last sync date to force full fetch
-    await prisma.user.update({
-      where: { id: userId },
-      data: { lastSyncAt: null }
+    // Clear the cursor on every item so the sync feed replays the full history
+    await prisma.plaidItem.updateMany({
+      where: { userId },
+      data: { cursor: null, lastSyncAt: null }
     });
   
-    const result = await this.syncUserTransactions(userId);
+    const result = await this.syncUserTransactions(userId, trigger);
     
     if (result.success) {
       console.log(`Full resync completed for user ${userId} including budget sync`);
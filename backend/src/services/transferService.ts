@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../lib/prisma';
+import { Transaction } from '../../prisma/generated/prisma';
+import { BudgetSyncService } from './budgetSyncService';
+
+// How far apart the two sides of a transfer can post
+export const TRANSFER_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// The dates a sync, import or edit touched, so detection only looks at transactions around them
+export interface DateSpan {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * The span from the earliest to the latest of some dates, or null if there are none
+ */
+export const spanOfDates = (dates: Date[]): DateSpan | null => {
+  if (dates.length === 0) return null;
+  const times = dates.map(date => date.getTime());
+  return {
+    from: new Date(times.reduce((min, time) => Math.min(min, time))),
+    to: new Date(times.reduce((max, time) => Math.max(max, time)))
+  };
+};
+
+export class TransferService {
+
+  /**
+   * Pair up transactions that look like money moving between two of the user's own
+   * accounts: the same amount leaving one account and arriving in another within a
+   * few days. Both sides get a shared transferGroupId, which keeps them out of
+   * income, spending and budgets. Transactions the user linked or unlinked by hand
+   * are left alone. Only transactions within the transfer window of the changed
+   * dates are considered, so the cost doesn't grow with the user's whole history.
+   */
+  static async detectTransfers(userId: string, changed: DateSpan | null): Promise<number> {
+    const unpaired = await this.clearBrokenGroups(userId);
+    const span = spanOfDates([...(changed ? [changed.from, changed.to] : []), ...unpaired]);
+    if (!span) return 0;
+
+    const candidates = await prisma.transaction.findMany({
+      where: {
+        userId,
+        transferGroupId: null,
+        transferOverridden: false,
+        pending: false,
+        amount: { not: 0 },
+        date: {
+          gte: new Date(span.from.getTime() - TRANSFER_WINDOW_DAYS * DAY_MS),
+          lte: new Date(span.to.getTime() + TRANSFER_WINDOW_DAYS * DAY_MS)
+        }
+      },
+      select: { id: true, accountId: true, amount: true, date: true },
+      orderBy: [{ date: 'asc' }, { id: 'asc' }]
+    });
+
+    // Money arriving, by amount, for matching against money leaving
+    const incoming = new Map<number, typeof candidates>();
+    candidates.filter(t => t.amount < 0).forEach(t => {
+      const key = toCents(-t.amount);
+      if (!incoming.has(key)) incoming.set(key, []);
+      incoming.get(key)!.push(t);
+    });
+
+    const matched = new Set<string>();
+    const pairs: string[][] = [];
+    for (const outgoing of candidates.filter(t => t.amount > 0)) {
+      const options = (incoming.get(toCents(outgoing.amount)) || []).filter(t =>
+        !matched.has(t.id) &&
+        t.accountId !== outgoing.accountId &&
+        Math.abs(t.date.getTime() - outgoing.date.getTime()) <= TRANSFER_WINDOW_DAYS * DAY_MS
+      );
+      if (options.length === 0) continue;
+
+      // Prefer the closest date
+      options.sort((a, b) =>
+        Math.abs(a.date.getTime() - outgoing.date.getTime()) - Math.abs(b.date.getTime() - outgoing.date.getTime())
+      );
+      matched.add(options[0].id);
+      pairs.push([outgoing.id, options[0].id]);
+    }
+
+    if (pairs.length > 0) {
+      await prisma.$transaction(pairs.map(ids => prisma.transaction.updateMany({
+        where: { id: { in: ids }, transferGroupId: null },
+        data: { transferGroupId: randomUUID() }
+      })));
+      console.log(`Linked ${pairs.length} transfers for user ${userId}`);
+    }
+
+    return pairs.length;
+  }
+
+  /**
+   * Link two transactions as a transfer by hand. Either one already paired with
+   * something else is split from it first.
+   */
+  static async linkTransactions(first: Transaction, second: Transaction) {
+    const transferGroupId = randomUUID();
+    const ids = [first.id, second.id];
+    const previousGroups = [first.transferGroupId, second.transferGroupId].filter((id): id is string => !!id);
+
+    await prisma.$transaction([
+      prisma.transaction.updateMany({
+        where: { userId: first.userId, transferGroupId: { in: previousGroups }, id: { notIn: ids } },
+        data: { transferGroupId: null }
+      }),
+      prisma.transaction.updateMany({
+        where: { id: { in: ids } },
+        data: { transferGroupId, transferOverridden: true }
+      })
+    ]);
+
+    await BudgetSyncService.syncUserBudgets(first.userId);
+    return this.getGroup(first.userId, transferGroupId);
+  }
+
+  /**
+   * Split a transfer back into ordinary transactions. They stay that way: detection
+   * won't pair them again.
+   */
+  static async unlinkGroup(userId: string, transferGroupId: string) {
+    const { count } = await prisma.transaction.updateMany({
+      where: { userId, transferGroupId },
+      data: { transferGroupId: null, transferOverridden: true }
+    });
+
+    if (count > 0) {
+      await BudgetSyncService.syncUserBudgets(userId);
+    }
+    return count;
+  }
+
+  static async getGroup(userId: string, transferGroupId: string) {
+    return prisma.transaction.findMany({
+      where: { userId, transferGroupId },
+      include: { account: { select: { id: true, name: true, type: true, mask: true } } },
+      orderBy: { amount: 'desc' }
+    });
+  }
+
+  /**
+   * Unlink what's left of a transfer after one side was deleted, or removed by the
+   * bank, so the survivor counts again and can be paired anew. Returns the dates of
+   * the survivors.
+   */
+  private static async clearBrokenGroups(userId: string): Promise<Date[]> {
+    const groups = await prisma.transaction.groupBy({
+      by: ['transferGroupId'],
+      where: { userId, transferGroupId: { not: null } },
+      _count: { id: true }
+    });
+
+    const broken = groups.filter(group => group._count.id < 2).map(group => group.transferGroupId as string);
+    if (broken.length === 0) return [];
+
+    const survivors = await prisma.transaction.findMany({
+      where: { userId, transferGroupId: { in: broken } },
+      select: { date: true }
+    });
+    await prisma.transaction.updateMany({
+      where: { userId, transferGroupId: { in: broken } },
+      data: { transferGroupId: null }
+    });
+    return survivors.map(survivor => survivor.date);
+  }
+}